@@ -1,21 +1,9 @@
 import type { NextConfig } from "next";
+import { IMAGE_HOSTS } from "./src/lib/imageHosts";
 
 const nextConfig: NextConfig = {
   images: {
-    remotePatterns: [
-      {
-        protocol: 'https',
-        hostname: '**.ipfs.io',
-      },
-      {
-        protocol: 'https',
-        hostname: '**.pinata.cloud',
-      },
-      {
-        protocol: 'https',
-        hostname: 'arweave.net',
-      },
-    ],
+    remotePatterns: IMAGE_HOSTS.map((hostname) => ({ protocol: 'https' as const, hostname })),
   },
   // Turbopack is enabled by default in Next.js 16
   turbopack: {},
@@ -0,0 +1,49 @@
+/**
+ * apply-upgrades.ts
+ *
+ * Applies every `approved` upgrade on-chain using the MPL Core update
+ * authority, then marks the records `applied` (or `failed`). Safe to rerun —
+ * see runUpgradeWorker in src/lib/upgradeWorker.ts.
+ *
+ * Requires UPGRADE_AUTHORITY_SECRET_KEY, UPGRADE_RECIPE and MONGODB_URI.
+ *
+ * Usage:  npx tsx scripts/apply-upgrades.ts [limit]
+ */
+
+import 'dotenv/config';
+import {
+  createUpgradeAuthorityUmi,
+  loadUpgradeRecipe,
+  runUpgradeWorker,
+} from '@/lib/upgradeWorker';
+
+async function main() {
+  const limit = Number(process.argv[2]) || undefined;
+  const umi = createUpgradeAuthorityUmi();
+  const recipe = loadUpgradeRecipe();
+
+  console.log(`\nUpdate authority: ${umi.identity.publicKey}`);
+  console.log(`Recipe:           ${JSON.stringify(recipe)}\n`);
+
+  const result = await runUpgradeWorker(umi, recipe, { limit });
+
+  for (const a of result.applied) {
+    console.log(`  ✅ ${a.targetMint}  ${a.signature ?? '(already applied)'}`);
+  }
+  for (const f of result.failed) {
+    console.log(`  ❌ ${f.targetMint}  ${f.error}`);
+  }
+  for (const s of result.skipped) {
+    console.log(`  ⏳ ${s}  (leased by another worker or still in flight)`);
+  }
+
+  console.log(
+    `\nApplied ${result.applied.length}, failed ${result.failed.length}, skipped ${result.skipped.length}`,
+  );
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error('Worker error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,29 @@
+/**
+ * backfill-upgrade-claims.ts
+ *
+ * Creates an `upgrade_claims` entry for every upgrade target recorded before
+ * claims existed. Safe to rerun — see backfillUpgradeClaims in
+ * src/lib/upgradeClaims.ts.
+ *
+ * Requires MONGODB_URI.
+ *
+ * Usage:  npx tsx scripts/backfill-upgrade-claims.ts
+ */
+
+import 'dotenv/config';
+import { backfillUpgradeClaims } from '@/lib/upgradeClaims';
+
+async function main() {
+  const created = await backfillUpgradeClaims();
+
+  for (const target of created) {
+    console.log(`  ✅ ${target}`);
+  }
+  console.log(`\nCreated ${created.length} upgrade claims`);
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
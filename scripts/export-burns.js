@@ -2,8 +2,9 @@
  * Export burnt_nfts collection from MongoDB to CSV.
  *
  * Usage:
- *   node scripts/export-burns.js              → saves to burnt-nfts-export.csv
- *   node scripts/export-burns.js output.csv   → saves to output.csv
+ *   node scripts/export-burns.js                        → saves to burnt-nfts-export.csv
+ *   node scripts/export-burns.js output.csv             → saves to output.csv
+ *   node scripts/export-burns.js --campaign=s1 s1.csv   → only burns tagged with campaign s1
  *
  * Reads MONGODB_URI from .env.local automatically.
  */
@@ -42,6 +43,10 @@ const COLUMNS = [
   'name',
   'upgradeTargetMint',
   'upgradeTargetName',
+  'upgradeStatus',
+  'upgradeStatusUpdatedAt',
+  'upgradeOperator',
+  'campaignId',
   'burntBy',
   'transactionSignature',
   'burntAt',
@@ -57,7 +62,10 @@ function escapeCsv(value) {
 }
 
 async function main() {
-  const outputFile = process.argv[2] || 'burnt-nfts-export.csv';
+  const args = process.argv.slice(2);
+  const campaignFlag = args.find((a) => a.startsWith('--campaign='));
+  const campaignId = campaignFlag ? campaignFlag.slice('--campaign='.length) : null;
+  const outputFile = args.find((a) => !a.startsWith('--')) || 'burnt-nfts-export.csv';
   const outputPath = path.resolve(process.cwd(), outputFile);
 
   console.log(`Connecting to MongoDB…`);
@@ -67,8 +75,9 @@ async function main() {
   const db = client.db(DB_NAME);
   const collection = db.collection(COLLECTION);
 
-  const count = await collection.countDocuments();
-  console.log(`Found ${count} records in ${COLLECTION}`);
+  const filter = campaignId ? { campaignId } : {};
+  const count = await collection.countDocuments(filter);
+  console.log(`Found ${count} records in ${COLLECTION}${campaignId ? ` for campaign ${campaignId}` : ''}`);
 
   if (count === 0) {
     console.log('No data to export.');
@@ -76,7 +85,7 @@ async function main() {
     return;
   }
 
-  const cursor = collection.find().sort({ burntAt: -1 });
+  const cursor = collection.find(filter).sort({ burntAt: -1 });
 
   // Write CSV
   const rows = [COLUMNS.join(',')]; // header
@@ -0,0 +1,169 @@
+"use client";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useState, useEffect } from "react";
+import { useAdminApi } from "@/hooks/useAdminApi";
+import { explorerAddressUrl, explorerTxUrl } from "@/lib/explorer";
+import { BurntNFT, UpgradeClaim } from "@/types";
+
+type RelatedBurn = Pick<
+  BurntNFT,
+  "mint" | "name" | "transactionSignature" | "upgradeTargetMint"
+>;
+
+export default function AdminBurnDetail() {
+  const { mint } = useParams<{ mint: string }>();
+  const { adminFetch } = useAdminApi();
+  const [record, setRecord] = useState<BurntNFT | null>(null);
+  const [related, setRelated] = useState<RelatedBurn[]>([]);
+  const [claim, setClaim] = useState<UpgradeClaim | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await adminFetch(`/api/admin/burns/${mint}`);
+        const data = await res.json();
+        if (!data.success) throw new Error(data.error || "Failed to load burn");
+        setRecord(data.record);
+        setRelated(data.related);
+        setClaim(data.claim);
+      } catch (err: any) {
+        setError(err.message);
+      }
+    })();
+  }, [adminFetch, mint]);
+
+  const link = (href: string, text: string) => (
+    <a href={href} target="_blank" rel="noopener noreferrer">
+      {text}
+    </a>
+  );
+
+  return (
+    <main className="admin flex">
+      <div className="adminHeader flex">
+        <h2>{record?.name ?? "Burn"}</h2>
+        <Link href="/admin" className="backButton">
+          ← All burns
+        </Link>
+      </div>
+
+      {error && <div className="adminError">⚠️ {error}</div>}
+
+      {record && (
+        <>
+          <div className="adminDetail flex">
+            <span className="adminDetailLine flex">
+              <h3>Burned mint</h3>
+              {link(explorerAddressUrl(record.mint), record.mint)}
+            </span>
+            <span className="adminDetailLine flex">
+              <h3>Wallet</h3>
+              {link(explorerAddressUrl(record.burntBy), record.burntBy)}
+            </span>
+            <span className="adminDetailLine flex">
+              <h3>Burn transaction</h3>
+              {link(
+                explorerTxUrl(record.transactionSignature),
+                record.transactionSignature,
+              )}
+            </span>
+            <span className="adminDetailLine flex">
+              <h3>Burnt at</h3>
+              <span>{new Date(record.burntAt).toLocaleString()}</span>
+            </span>
+            <span className="adminDetailLine flex">
+              <h3>Campaign</h3>
+              <span>{record.campaignId ?? "—"}</span>
+            </span>
+            <span className="adminDetailLine flex">
+              <h3>Recorded by</h3>
+              <span>
+                {record.source === "webhook"
+                  ? "Chain-event webhook"
+                  : record.source === "backfill"
+                    ? "Reconciliation backfill"
+                    : "Burn wizard"}
+              </span>
+            </span>
+            <span className="adminDetailLine flex">
+              <h3>Upgrade target</h3>
+              {record.upgradeTargetMint ? (
+                link(
+                  explorerAddressUrl(record.upgradeTargetMint),
+                  `${record.upgradeTargetName || "—"} (${record.upgradeTargetMint})`,
+                )
+              ) : (
+                <span>—</span>
+              )}
+            </span>
+            {claim && (
+              <span className="adminDetailLine flex">
+                <h3>Target claimed</h3>
+                <span>
+                  {new Date(claim.claimedAt).toLocaleString()} ·{" "}
+                  {claim.burnMints.length} burn
+                  {claim.burnMints.length === 1 ? "" : "s"}
+                  {claim.source === "backfill" ? " · backfilled" : ""}
+                </span>
+              </span>
+            )}
+            {record.upgradeTargetMint && (
+              <span className="adminDetailLine flex">
+                <h3>Upgrade status</h3>
+                <span
+                  className={`statusBadge ${record.upgradeStatus ?? "pending"}`}
+                >
+                  {record.upgradeStatus ?? "pending"}
+                </span>
+              </span>
+            )}
+            {record.upgradeSignature && (
+              <span className="adminDetailLine flex">
+                <h3>Upgrade transaction</h3>
+                {link(
+                  explorerTxUrl(record.upgradeSignature),
+                  record.upgradeSignature,
+                )}
+              </span>
+            )}
+          </div>
+
+          {(record.upgradeHistory?.length ?? 0) > 0 && (
+            <div className="adminDetail flex">
+              <h3 className="title">Upgrade history</h3>
+              {record.upgradeHistory!.map((h, i) => (
+                <span key={i} className="adminDetailLine flex">
+                  <h3>
+                    {h.from} → {h.to}
+                  </h3>
+                  <span className="gray">
+                    {new Date(h.at).toLocaleString()} · {h.operator}
+                    {h.note ? ` · ${h.note}` : ""}
+                  </span>
+                </span>
+              ))}
+            </div>
+          )}
+
+          {related.length > 0 && (
+            <div className="adminDetail flex">
+              <h3 className="title">Related burns</h3>
+              {related.map((r) => (
+                <span key={r.mint} className="adminDetailLine flex">
+                  <Link href={`/admin/burns/${r.mint}`}>{r.name}</Link>
+                  <span className="gray">
+                    {r.transactionSignature === record.transactionSignature
+                      ? "same transaction"
+                      : "same upgrade target"}
+                  </span>
+                </span>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,16 @@
+import type { Metadata } from "next";
+import "./admin.scss";
+import { AdminProvider } from "@/components/AdminProvider";
+
+export const metadata: Metadata = {
+  title: "Devils · Admin",
+  robots: { index: false, follow: false },
+};
+
+export default function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return <AdminProvider>{children}</AdminProvider>;
+}
@@ -0,0 +1,195 @@
+"use client";
+import Link from "next/link";
+import { useState, useEffect, useCallback, FormEvent } from "react";
+import { useAdminApi } from "@/hooks/useAdminApi";
+import { explorerTxUrl, shortAddress } from "@/lib/explorer";
+import { BurntNFT } from "@/types";
+
+const PAGE_SIZE = 25;
+
+const FILTERS = [
+  { key: "wallet", label: "Wallet" },
+  { key: "mint", label: "Burned mint" },
+  { key: "target", label: "Upgrade target" },
+  { key: "signature", label: "Signature" },
+  { key: "campaign", label: "Campaign" },
+  { key: "from", label: "From", type: "date" },
+  { key: "to", label: "To", type: "date" },
+] as const;
+
+type FilterKey = (typeof FILTERS)[number]["key"];
+type Filters = Partial<Record<FilterKey, string>>;
+
+export default function AdminBurns() {
+  const { adminFetch, signOut } = useAdminApi();
+  const [draft, setDraft] = useState<Filters>({});
+  const [filters, setFilters] = useState<Filters>({});
+  const [page, setPage] = useState(1);
+  const [records, setRecords] = useState<BurntNFT[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRecords = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const query = new URLSearchParams({
+        page: String(page),
+        limit: String(PAGE_SIZE),
+      });
+      // A bare "to" day counts in full on the server
+      for (const [key, value] of Object.entries(filters)) {
+        if (value) query.set(key, value);
+      }
+      const res = await adminFetch(`/api/admin/burns?${query}`);
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error || "Failed to load burns");
+      setRecords(data.records);
+      setTotal(data.total);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [adminFetch, filters, page]);
+
+  useEffect(() => {
+    fetchRecords();
+  }, [fetchRecords]);
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setFilters(draft);
+  };
+
+  const handleClear = () => {
+    setDraft({});
+    setFilters({});
+    setPage(1);
+  };
+
+  const pageCount = Math.max(Math.ceil(total / PAGE_SIZE), 1);
+
+  return (
+    <main className="admin flex">
+      <div className="adminHeader flex">
+        <h2>Burn Records</h2>
+        <div className="adminFilterButtons flex">
+          <Link href="/admin/reconciliation" className="backButton">
+            Reconciliation
+          </Link>
+          <button className="backButton" onClick={signOut}>
+            Sign out
+          </button>
+        </div>
+      </div>
+
+      <form className="adminFilters flex" onSubmit={handleSearch}>
+        {FILTERS.map((f) => (
+          <label key={f.key} className="flex">
+            <span>{f.label}</span>
+            <input
+              type={"type" in f ? f.type : "text"}
+              value={draft[f.key] ?? ""}
+              onChange={(e) =>
+                setDraft((prev) => ({ ...prev, [f.key]: e.target.value }))
+              }
+            />
+          </label>
+        ))}
+        <div className="adminFilterButtons flex">
+          <button type="submit">Search</button>
+          <button type="button" className="backButton" onClick={handleClear}>
+            Clear
+          </button>
+        </div>
+      </form>
+
+      {error && <div className="adminError">⚠️ {error}</div>}
+
+      <div className="adminTableWrap">
+        <table className="adminTable">
+          <thead>
+            <tr>
+              <th>Burned</th>
+              <th>Wallet</th>
+              <th>Upgrade target</th>
+              <th>Status</th>
+              <th>Campaign</th>
+              <th>Burnt at</th>
+              <th>Tx</th>
+            </tr>
+          </thead>
+          <tbody>
+            {records.map((r) => (
+              <tr key={r.mint}>
+                <td>
+                  <Link href={`/admin/burns/${r.mint}`}>
+                    {r.name} <span className="gray">{shortAddress(r.mint)}</span>
+                  </Link>
+                </td>
+                <td>{shortAddress(r.burntBy)}</td>
+                <td>
+                  {r.upgradeTargetMint
+                    ? `${r.upgradeTargetName || "—"} (${shortAddress(r.upgradeTargetMint)})`
+                    : "—"}
+                </td>
+                <td>
+                  {r.upgradeTargetMint && (
+                    <span className={`statusBadge ${r.upgradeStatus ?? "pending"}`}>
+                      {r.upgradeStatus ?? "pending"}
+                    </span>
+                  )}
+                </td>
+                <td>{r.campaignId ?? "—"}</td>
+                <td>{new Date(r.burntAt).toLocaleString()}</td>
+                <td>
+                  <a
+                    href={explorerTxUrl(r.transactionSignature)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    {shortAddress(r.transactionSignature, 6, 6)}
+                  </a>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {!loading && records.length === 0 && (
+          <div className="emptyState flex">
+            <span>No burns match these filters.</span>
+          </div>
+        )}
+        {loading && (
+          <div className="loadingState flex">
+            <div className="spinner"></div>
+            <span>Loading…</span>
+          </div>
+        )}
+      </div>
+
+      <div className="adminPager flex">
+        <button
+          className="backButton"
+          disabled={page <= 1 || loading}
+          onClick={() => setPage((p) => p - 1)}
+        >
+          ← Prev
+        </button>
+        <span>
+          Page {page} / {pageCount} · {total} records
+        </span>
+        <button
+          className="backButton"
+          disabled={page >= pageCount || loading}
+          onClick={() => setPage((p) => p + 1)}
+        >
+          Next →
+        </button>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,236 @@
+"use client";
+import Link from "next/link";
+import { useState, useEffect, useCallback } from "react";
+import { useAdminApi } from "@/hooks/useAdminApi";
+import { explorerAddressUrl, explorerTxUrl, shortAddress } from "@/lib/explorer";
+import { ReconciliationFinding } from "@/types";
+
+const STATUSES = ["open", "ignored", "backfilled", "resolved", "all"];
+
+const KIND_LABELS: Record<ReconciliationFinding["kind"], string> = {
+  missing_in_db: "Missing in DB",
+  not_burnt: "Not burnt",
+  signature_mismatch: "Signature mismatch",
+};
+
+export default function AdminReconciliation() {
+  const { adminFetch } = useAdminApi();
+  const [status, setStatus] = useState("open");
+  const [findings, setFindings] = useState<ReconciliationFinding[]>([]);
+  const [total, setTotal] = useState(0);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchFindings = useCallback(async () => {
+    setError(null);
+    try {
+      const res = await adminFetch(
+        `/api/admin/reconciliation/findings?status=${status}&limit=200`,
+      );
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error || "Failed to load findings");
+      setFindings(data.findings);
+      setTotal(data.total);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, [adminFetch, status]);
+
+  useEffect(() => {
+    fetchFindings();
+  }, [fetchFindings]);
+
+  // Run an admin action, show its outcome, then refresh the list
+  const act = async (label: string, url: string, init: RequestInit) => {
+    setBusy(label);
+    setMessage(null);
+    setError(null);
+    try {
+      const res = await adminFetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error || `${label} failed`);
+      if (data.summary) {
+        const open = Object.values(data.summary.open as Record<string, number>)
+          .reduce((a, b) => a + b, 0);
+        setMessage(
+          `Run complete: ${data.summary.verified} verified, ${open} open, ${data.summary.resolved} resolved`,
+        );
+      } else if (data.results) {
+        const failed = data.results.filter((r: { ok: boolean }) => !r.ok);
+        setMessage(
+          `Backfilled ${data.backfilled}` +
+            (failed.length
+              ? ` · ${failed.length} failed: ${failed.map((r: { error: string }) => r.error).join("; ")}`
+              : ""),
+        );
+      }
+      await fetchFindings();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const backfill = (ids?: string[]) =>
+    act("Backfill", "/api/admin/reconciliation/backfill", {
+      method: "POST",
+      body: JSON.stringify(ids ? { ids } : {}),
+    });
+
+  const setFindingStatus = (id: string, next: "ignored" | "open") =>
+    act("Update", `/api/admin/reconciliation/findings/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      body: JSON.stringify({ status: next }),
+    });
+
+  const openMissing = findings.filter(
+    (f) => f.kind === "missing_in_db" && f.status === "open" && f.burnSignature,
+  ).length;
+
+  return (
+    <main className="admin flex">
+      <div className="adminHeader flex">
+        <h2>Reconciliation</h2>
+        <Link href="/admin" className="backButton">
+          ← All burns
+        </Link>
+      </div>
+
+      <div className="adminFilters flex">
+        <label className="flex">
+          <span>Status</span>
+          <select value={status} onChange={(e) => setStatus(e.target.value)}>
+            {STATUSES.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="adminFilterButtons flex">
+          <button
+            disabled={!!busy}
+            onClick={() =>
+              act("Run", "/api/admin/reconciliation/run", { method: "POST" })
+            }
+          >
+            {busy === "Run" ? "Running…" : "Run now"}
+          </button>
+          <button
+            className="backButton"
+            disabled={!!busy || openMissing === 0}
+            onClick={() => backfill()}
+          >
+            Backfill all missing ({openMissing})
+          </button>
+        </div>
+      </div>
+
+      {message && <div className="adminNotice">{message}</div>}
+      {error && <div className="adminError">⚠️ {error}</div>}
+
+      <div className="adminTableWrap">
+        <table className="adminTable">
+          <thead>
+            <tr>
+              <th>Kind</th>
+              <th>Asset</th>
+              <th>Owner</th>
+              <th>Recorded tx</th>
+              <th>Burn tx</th>
+              <th>Burnt at</th>
+              <th>Status</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {findings.map((f) => (
+              <tr key={f.id}>
+                <td>{KIND_LABELS[f.kind]}</td>
+                <td>
+                  <a
+                    href={explorerAddressUrl(f.mint)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    {f.name || "—"} <span className="gray">{shortAddress(f.mint)}</span>
+                  </a>
+                </td>
+                <td>{f.owner ? shortAddress(f.owner) : "—"}</td>
+                <td>
+                  {f.recordedSignature ? (
+                    <a
+                      href={explorerTxUrl(f.recordedSignature)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      {shortAddress(f.recordedSignature, 6, 6)}
+                    </a>
+                  ) : (
+                    "—"
+                  )}
+                </td>
+                <td>
+                  {f.burnSignature ? (
+                    <a
+                      href={explorerTxUrl(f.burnSignature)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      {shortAddress(f.burnSignature, 6, 6)}
+                    </a>
+                  ) : (
+                    "not found"
+                  )}
+                </td>
+                <td>{f.burntAt ? new Date(f.burntAt).toLocaleString() : "—"}</td>
+                <td title={f.note}>{f.status}</td>
+                <td className="adminRowActions">
+                  {f.kind === "missing_in_db" && f.status === "open" && f.burnSignature && (
+                    <button disabled={!!busy} onClick={() => backfill([f.id])}>
+                      Backfill
+                    </button>
+                  )}
+                  {f.status === "open" && (
+                    <button
+                      className="backButton"
+                      disabled={!!busy}
+                      onClick={() => setFindingStatus(f.id, "ignored")}
+                    >
+                      Ignore
+                    </button>
+                  )}
+                  {f.status === "ignored" && (
+                    <button
+                      className="backButton"
+                      disabled={!!busy}
+                      onClick={() => setFindingStatus(f.id, "open")}
+                    >
+                      Reopen
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {findings.length === 0 && (
+          <div className="emptyState flex">
+            <span>No {status === "all" ? "" : `${status} `}findings.</span>
+          </div>
+        )}
+      </div>
+
+      <div className="adminPager flex">
+        <span>
+          Showing {findings.length} of {total}
+        </span>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiFailure } from '@/types';
+import { getBurntNFTsCollection, getUpgradeClaimsCollection } from '@/lib/mongodb';
+import { getAdminOperator } from '@/lib/adminAuth';
+
+/**
+ * GET /api/admin/burns/<mint>
+ *
+ * A single burn record with its full upgrade history, the claim on its
+ * upgrade target, and the other burns that share its transaction or target.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ mint: string }> },
+) {
+  try {
+    if (!getAdminOperator(request)) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    const { mint } = await params;
+    const collection = await getBurntNFTsCollection();
+
+    const record = await collection.findOne({ mint }, { projection: { _id: 0 } });
+    if (!record) {
+      return NextResponse.json(
+        { success: false, code: 'not_found', error: 'Burn record not found' } as ApiFailure,
+        { status: 404 },
+      );
+    }
+
+    const related = await collection
+      .find(
+        {
+          mint: { $ne: mint },
+          $or: [
+            { transactionSignature: record.transactionSignature },
+            ...(record.upgradeTargetMint ? [{ upgradeTargetMint: record.upgradeTargetMint }] : []),
+          ],
+        },
+        { projection: { _id: 0, mint: 1, name: 1, transactionSignature: 1, upgradeTargetMint: 1 } },
+      )
+      .toArray();
+
+    const claim = record.upgradeTargetMint
+      ? await (await getUpgradeClaimsCollection()).findOne(
+        { targetMint: record.upgradeTargetMint },
+        { projection: { _id: 0 } },
+      )
+      : null;
+
+    return NextResponse.json({ success: true, record, related, claim });
+  } catch (error: any) {
+    console.error('[admin/burns] GET detail error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Filter } from 'mongodb';
+import { ApiFailure, BurntNFT } from '@/types';
+import { getBurntNFTsCollection } from '@/lib/mongodb';
+import { getAdminOperator } from '@/lib/adminAuth';
+import { adminBurnsQuerySchema, parseWith, queryObject } from '@/lib/schemas';
+
+/**
+ * GET /api/admin/burns?wallet=&mint=&target=&signature=&campaign=&from=&to=&page=1&limit=25
+ *
+ * Paginated burn records, newest first. Every filter is an exact match on an
+ * indexed field; `from` / `to` are ISO dates bounding `burntAt`. `to` is
+ * exclusive, and a bare date (YYYY-MM-DD) takes in the whole of that day.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!getAdminOperator(request)) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    const parsed = parseWith(adminBurnsQuerySchema, queryObject(request.nextUrl.searchParams));
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: parsed.error, issues: parsed.issues } as ApiFailure,
+        { status: 400 },
+      );
+    }
+    const { wallet, mint, target, signature, campaign, from, to, page, limit } = parsed.data;
+
+    const filter: Filter<BurntNFT> = {};
+    if (wallet) filter.burntBy = wallet;
+    if (mint) filter.mint = mint;
+    if (target) filter.upgradeTargetMint = target;
+    if (signature) filter.transactionSignature = signature;
+    if (campaign) filter.campaignId = campaign;
+    if (from || to) {
+      filter.burntAt = {
+        ...(from && { $gte: from }),
+        ...(to && { $lt: to }),
+      };
+    }
+
+    const collection = await getBurntNFTsCollection();
+    const [records, total] = await Promise.all([
+      collection
+        .find(filter, { projection: { _id: 0, upgradeHistory: 0 } })
+        .sort({ burntAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .toArray(),
+      collection.countDocuments(filter),
+    ]);
+
+    return NextResponse.json({ success: true, records, total, page, limit });
+  } catch (error: any) {
+    console.error('[admin/burns] GET error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
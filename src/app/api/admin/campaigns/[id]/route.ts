@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiFailure } from '@/types';
+import { getCampaignsCollection } from '@/lib/mongodb';
+import { getAdminOperator } from '@/lib/adminAuth';
+import { parseCampaign } from '@/lib/campaigns';
+
+/**
+ * PATCH /api/admin/campaigns/<id>
+ * Body: any subset of Campaign fields except `id`, e.g. { "closesAt": "…" } to
+ * close a campaign early.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    if (!getAdminOperator(request)) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    const { id } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, code: 'invalid_json', error: 'Invalid JSON body' } as ApiFailure,
+        { status: 400 },
+      );
+    }
+
+    const parsed = parseCampaign(body ?? {}, true);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: parsed.error, issues: parsed.issues } as ApiFailure,
+        { status: 400 },
+      );
+    }
+
+    // The patch may repeat the id, but not change it
+    if (parsed.data.id !== undefined && parsed.data.id !== id) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: 'Campaign id cannot be changed' } as ApiFailure,
+        { status: 400 },
+      );
+    }
+
+    const campaigns = await getCampaignsCollection();
+    const existing = await campaigns.findOne({ id });
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, code: 'not_found', error: 'Campaign not found' } as ApiFailure,
+        { status: 404 },
+      );
+    }
+
+    const opensAt = parsed.data.opensAt ?? existing.opensAt;
+    const closesAt = parsed.data.closesAt ?? existing.closesAt;
+    if (opensAt >= closesAt) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: 'closesAt must be after opensAt' } as ApiFailure,
+        { status: 400 },
+      );
+    }
+
+    const updated = await campaigns.findOneAndUpdate(
+      { id },
+      { $set: parsed.data },
+      { returnDocument: 'after', projection: { _id: 0 } },
+    );
+
+    return NextResponse.json({ success: true, campaign: updated });
+  } catch (error: any) {
+    console.error('[admin/campaigns] PATCH error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
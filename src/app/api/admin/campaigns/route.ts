@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiFailure, Campaign } from '@/types';
+import { getCampaignsCollection } from '@/lib/mongodb';
+import { getAdminOperator } from '@/lib/adminAuth';
+import { parseCampaign } from '@/lib/campaigns';
+
+/**
+ * GET /api/admin/campaigns — every campaign, newest first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!getAdminOperator(request)) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    const campaigns = await getCampaignsCollection();
+    const list = await campaigns.find({}, { projection: { _id: 0 } }).sort({ opensAt: -1 }).toArray();
+
+    return NextResponse.json({ success: true, campaigns: list });
+  } catch (error: any) {
+    console.error('[admin/campaigns] GET error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/admin/campaigns
+ * Body: Campaign — e.g.
+ *   { "id": "s1", "name": "Season 1", "opensAt": "2026-02-21T00:00:00Z",
+ *     "closesAt": "2026-03-21T00:00:00Z", "maxUpgrades": 500, "perWalletBurnLimit": 20 }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!getAdminOperator(request)) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, code: 'invalid_json', error: 'Invalid JSON body' } as ApiFailure,
+        { status: 400 },
+      );
+    }
+
+    const parsed = parseCampaign(body ?? {});
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: parsed.error, issues: parsed.issues } as ApiFailure,
+        { status: 400 },
+      );
+    }
+
+    const campaigns = await getCampaignsCollection();
+    try {
+      await campaigns.insertOne({ ...(parsed.data as Campaign) });
+    } catch (e: any) {
+      if (e?.code === 11000) {
+        return NextResponse.json(
+          { success: false, code: 'already_exists', error: `Campaign ${parsed.data.id} already exists` } as ApiFailure,
+          { status: 409 },
+        );
+      }
+      throw e;
+    }
+
+    return NextResponse.json({ success: true, campaign: parsed.data }, { status: 201 });
+  } catch (error: any) {
+    console.error('[admin/campaigns] POST error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiFailure } from '@/types';
+import { getRecipesCollection } from '@/lib/mongodb';
+import { getAdminOperator } from '@/lib/adminAuth';
+import { parseRecipe } from '@/lib/recipes';
+
+/**
+ * PATCH /api/admin/recipes/<id>
+ * Body: any subset of BurnRecipe fields except `id`, e.g. { "active": false }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    if (!getAdminOperator(request)) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    const { id } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, code: 'invalid_json', error: 'Invalid JSON body' } as ApiFailure,
+        { status: 400 },
+      );
+    }
+
+    const parsed = parseRecipe(body ?? {}, true);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: parsed.error, issues: parsed.issues } as ApiFailure,
+        { status: 400 },
+      );
+    }
+
+    // The patch may repeat the id, but not change it
+    if (parsed.data.id !== undefined && parsed.data.id !== id) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: 'Recipe id cannot be changed' } as ApiFailure,
+        { status: 400 },
+      );
+    }
+
+    const recipes = await getRecipesCollection();
+    const updated = await recipes.findOneAndUpdate(
+      { id },
+      { $set: parsed.data },
+      { returnDocument: 'after', projection: { _id: 0 } },
+    );
+
+    if (!updated) {
+      return NextResponse.json(
+        { success: false, code: 'not_found', error: 'Recipe not found' } as ApiFailure,
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ success: true, recipe: updated });
+  } catch (error: any) {
+    console.error('[admin/recipes] PATCH error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiFailure, BurnRecipe } from '@/types';
+import { getRecipesCollection } from '@/lib/mongodb';
+import { getAdminOperator } from '@/lib/adminAuth';
+import { parseRecipe } from '@/lib/recipes';
+
+/**
+ * GET /api/admin/recipes — every configured upgrade recipe.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!getAdminOperator(request)) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    const recipes = await getRecipesCollection();
+    const list = await recipes.find({}, { projection: { _id: 0 } }).sort({ startsAt: -1 }).toArray();
+
+    return NextResponse.json({ success: true, recipes: list });
+  } catch (error: any) {
+    console.error('[admin/recipes] GET error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/admin/recipes
+ * Body: BurnRecipe — e.g.
+ *   { "id": "s2-commons", "name": "Burn 3 commons → 1 rare", "burnsPerUpgrade": 3,
+ *     "burnEligibility": [{ "trait_type": "Rarity", "values": ["Common"] }],
+ *     "maxUpgradesPerWallet": 5, "startsAt": "…", "endsAt": "…", "active": true }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!getAdminOperator(request)) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, code: 'invalid_json', error: 'Invalid JSON body' } as ApiFailure,
+        { status: 400 },
+      );
+    }
+
+    const parsed = parseRecipe(body ?? {});
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: parsed.error, issues: parsed.issues } as ApiFailure,
+        { status: 400 },
+      );
+    }
+
+    const recipes = await getRecipesCollection();
+    try {
+      await recipes.insertOne({ ...(parsed.data as BurnRecipe) });
+    } catch (e: any) {
+      if (e?.code === 11000) {
+        return NextResponse.json(
+          { success: false, code: 'already_exists', error: `Recipe ${parsed.data.id} already exists` } as ApiFailure,
+          { status: 409 },
+        );
+      }
+      throw e;
+    }
+
+    return NextResponse.json({ success: true, recipe: parsed.data }, { status: 201 });
+  } catch (error: any) {
+    console.error('[admin/recipes] POST error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Filter } from 'mongodb';
+import { ApiFailure, ReconciliationFinding } from '@/types';
+import { getReconciliationFindingsCollection } from '@/lib/mongodb';
+import { getAdminOperator } from '@/lib/adminAuth';
+import { BackfillResult, backfillFinding } from '@/lib/reconciliation';
+import { backfillRequestSchema, parseWith } from '@/lib/schemas';
+
+const MAX_BACKFILL = 100;
+
+export const maxDuration = 300;
+
+/**
+ * POST /api/admin/reconciliation/backfill
+ * Body: { ids?: string[] }
+ *
+ * Inserts burn records for open `missing_in_db` findings, using the burn
+ * signature found on-chain. Without `ids`, backfills every open one (up to
+ * MAX_BACKFILL per call).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const operator = getAdminOperator(request);
+    if (!operator) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    const collectionAddress = process.env.NEXT_PUBLIC_COLLECTION_ADDRESS;
+    if (!collectionAddress) {
+      return NextResponse.json(
+        { success: false, code: 'not_configured', error: 'NEXT_PUBLIC_COLLECTION_ADDRESS is not set' } as ApiFailure,
+        { status: 500 },
+      );
+    }
+
+    let raw: unknown = {};
+    try {
+      const text = await request.text();
+      if (text) raw = JSON.parse(text);
+    } catch {
+      return NextResponse.json(
+        { success: false, code: 'invalid_json', error: 'Invalid JSON body' } as ApiFailure,
+        { status: 400 },
+      );
+    }
+
+    const parsed = parseWith(backfillRequestSchema, raw);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: parsed.error, issues: parsed.issues } as ApiFailure,
+        { status: 400 },
+      );
+    }
+    const { ids } = parsed.data;
+
+    const filter: Filter<ReconciliationFinding> = {
+      kind: 'missing_in_db',
+      status: 'open',
+      ...(ids && { id: { $in: ids } }),
+    };
+
+    const collection = await getReconciliationFindingsCollection();
+    const findings = await collection
+      .find(filter, { projection: { _id: 0 } })
+      .sort({ burntAt: 1 })
+      .limit(MAX_BACKFILL)
+      .toArray();
+
+    const results: BackfillResult[] = [];
+    // Sequential — each backfill hits the RPC twice
+    for (const finding of findings) {
+      try {
+        results.push(await backfillFinding(finding, operator, collectionAddress));
+      } catch (error: any) {
+        console.error(`[admin/reconciliation] backfill ${finding.id} error:`, error?.message);
+        results.push({ id: finding.id, ok: false, error: 'Backfill failed' });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      backfilled: results.filter((r) => r.ok).length,
+      results,
+    });
+  } catch (error: any) {
+    console.error('[admin/reconciliation] POST backfill error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiFailure } from '@/types';
+import { getReconciliationFindingsCollection } from '@/lib/mongodb';
+import { getAdminOperator } from '@/lib/adminAuth';
+import { findingUpdateSchema, parseWith } from '@/lib/schemas';
+
+/**
+ * PATCH /api/admin/reconciliation/findings/<id>
+ * Body: { status: 'ignored' | 'open', note?: string }
+ *
+ * Dismisses a finding so later runs leave it alone, or reopens a dismissed one.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const operator = getAdminOperator(request);
+    if (!operator) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    const { id } = await params;
+
+    let raw: unknown;
+    try {
+      raw = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, code: 'invalid_json', error: 'Invalid JSON body' } as ApiFailure,
+        { status: 400 },
+      );
+    }
+
+    const parsed = parseWith(findingUpdateSchema, raw);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: parsed.error, issues: parsed.issues } as ApiFailure,
+        { status: 400 },
+      );
+    }
+    const { status, note } = parsed.data;
+
+    // Only open findings can be ignored, and only ignored ones reopened
+    const from = status === 'ignored' ? 'open' : 'ignored';
+    const collection = await getReconciliationFindingsCollection();
+    const result = await collection.findOneAndUpdate(
+      { id, status: from },
+      { $set: { status, operator, ...(note !== undefined && { note }) } },
+      { returnDocument: 'after', projection: { _id: 0 } },
+    );
+
+    if (!result) {
+      const exists = await collection.countDocuments({ id }, { limit: 1 });
+      return exists
+        ? NextResponse.json(
+            { success: false, code: 'invalid_transition', error: `Finding is not ${from}` } as ApiFailure,
+            { status: 409 },
+          )
+        : NextResponse.json(
+            { success: false, code: 'not_found', error: 'Finding not found' } as ApiFailure,
+            { status: 404 },
+          );
+    }
+
+    return NextResponse.json({ success: true, finding: result });
+  } catch (error: any) {
+    console.error('[admin/reconciliation] PATCH error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Filter } from 'mongodb';
+import { ApiFailure, ReconciliationFinding } from '@/types';
+import { getReconciliationFindingsCollection } from '@/lib/mongodb';
+import { getAdminOperator } from '@/lib/adminAuth';
+import { findingsQuerySchema, parseWith, queryObject } from '@/lib/schemas';
+
+/**
+ * GET /api/admin/reconciliation/findings?status=open&kind=missing_in_db&limit=50&skip=0
+ *
+ * Lists reconciliation findings, most recently seen first. `status` defaults
+ * to `open`; pass `status=all` for every finding.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!getAdminOperator(request)) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    const parsed = parseWith(findingsQuerySchema, queryObject(request.nextUrl.searchParams));
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: parsed.error, issues: parsed.issues } as ApiFailure,
+        { status: 400 },
+      );
+    }
+    const { status, kind, limit, skip } = parsed.data;
+
+    const filter: Filter<ReconciliationFinding> = {};
+    if (status !== 'all') filter.status = status;
+    if (kind) filter.kind = kind;
+
+    const collection = await getReconciliationFindingsCollection();
+    const [findings, total] = await Promise.all([
+      collection
+        .find(filter, { projection: { _id: 0 } })
+        .sort({ lastSeenAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .toArray(),
+      collection.countDocuments(filter),
+    ]);
+
+    return NextResponse.json({ success: true, findings, total });
+  } catch (error: any) {
+    console.error('[admin/reconciliation] GET error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
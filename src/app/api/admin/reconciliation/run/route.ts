@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiFailure } from '@/types';
+import { getAdminOperator } from '@/lib/adminAuth';
+import { runReconciliation } from '@/lib/reconciliation';
+
+export const maxDuration = 300;
+
+/**
+ * POST /api/admin/reconciliation/run
+ *
+ * Runs the reconciliation job now instead of waiting for the cron schedule.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const operator = getAdminOperator(request);
+    if (!operator) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    const collectionAddress = process.env.NEXT_PUBLIC_COLLECTION_ADDRESS;
+    if (!collectionAddress) {
+      return NextResponse.json(
+        { success: false, code: 'not_configured', error: 'NEXT_PUBLIC_COLLECTION_ADDRESS is not set' } as ApiFailure,
+        { status: 500 },
+      );
+    }
+
+    const summary = await runReconciliation(collectionAddress);
+    console.log(`[admin/reconciliation] run by ${operator}:`, JSON.stringify(summary));
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error: any) {
+    console.error('[admin/reconciliation] POST run error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
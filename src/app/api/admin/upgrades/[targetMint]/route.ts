@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiFailure } from '@/types';
+import { getAdminOperator } from '@/lib/adminAuth';
+import { transitionUpgradeStatus } from '@/lib/upgradeStatus';
+import { parseWith, publicKeySchema, upgradeStatusUpdateSchema } from '@/lib/schemas';
+
+/**
+ * PATCH /api/admin/upgrades/<targetMint>
+ * Body: { status: 'approved' | 'applied' | 'failed' | 'pending', note?: string }
+ *
+ * Moves every burn linked to this upgrade target to the next lifecycle state,
+ * recording the operator and timestamp in `upgradeHistory`.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ targetMint: string }> },
+) {
+  try {
+    const operator = getAdminOperator(request);
+    if (!operator) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    const { targetMint } = await params;
+    if (!publicKeySchema.safeParse(targetMint).success) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: 'Invalid upgrade target mint' } as ApiFailure,
+        { status: 400 },
+      );
+    }
+
+    let raw: unknown;
+    try {
+      raw = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, code: 'invalid_json', error: 'Invalid JSON body' } as ApiFailure,
+        { status: 400 },
+      );
+    }
+
+    const parsed = parseWith(upgradeStatusUpdateSchema, raw);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: parsed.error, issues: parsed.issues } as ApiFailure,
+        { status: 400 },
+      );
+    }
+    const { status, note } = parsed.data;
+
+    const result = await transitionUpgradeStatus(targetMint, status, operator, note);
+
+    if (!result.ok) {
+      return result.reason === 'not_found'
+        ? NextResponse.json(
+            { success: false, code: 'not_found', error: 'Upgrade target not found' } as ApiFailure,
+            { status: 404 },
+          )
+        : NextResponse.json(
+            {
+              success: false,
+              code: 'invalid_transition',
+              error: `Cannot move from ${result.current} to ${status}`,
+              currentStatus: result.current,
+            } as ApiFailure,
+            { status: 409 },
+          );
+    }
+
+    return NextResponse.json({
+      success: true,
+      status,
+      updated: result.updated,
+    });
+  } catch (error: any) {
+    console.error('[admin/upgrades] PATCH error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
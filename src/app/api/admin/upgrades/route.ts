@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiFailure } from '@/types';
+import { getBurntNFTsCollection } from '@/lib/mongodb';
+import { getAdminOperator } from '@/lib/adminAuth';
+import { upgradeStatusFilter } from '@/lib/upgradeStatus';
+import { parseWith, queryObject, upgradesQuerySchema } from '@/lib/schemas';
+
+/**
+ * GET /api/admin/upgrades?status=pending&limit=50&skip=0
+ *
+ * Lists burn records that carry an upgrade target, oldest first, optionally
+ * filtered by fulfilment status. Requires an admin API key.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!getAdminOperator(request)) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    const parsed = parseWith(upgradesQuerySchema, queryObject(request.nextUrl.searchParams));
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: parsed.error, issues: parsed.issues } as ApiFailure,
+        { status: 400 },
+      );
+    }
+    const { status, limit, skip } = parsed.data;
+
+    const collection = await getBurntNFTsCollection();
+    const filter = {
+      upgradeTargetMint: { $exists: true, $ne: '' },
+      ...(status && upgradeStatusFilter([status])),
+    };
+
+    const [records, total] = await Promise.all([
+      collection
+        .find(filter, { projection: { _id: 0 } })
+        .sort({ burntAt: 1 })
+        .skip(skip)
+        .limit(limit)
+        .toArray(),
+      collection.countDocuments(filter),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      records: records.map((r) => ({ ...r, upgradeStatus: r.upgradeStatus ?? 'pending' })),
+      total,
+    });
+  } catch (error: any) {
+    console.error('[admin/upgrades] GET error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiFailure, WebhookEndpoint } from '@/types';
+import { getWebhookEndpointsCollection } from '@/lib/mongodb';
+import { getAdminOperator } from '@/lib/adminAuth';
+import { parseWith, webhookEndpointPatchSchema, webhookEndpointSchema } from '@/lib/schemas';
+import { generateWebhookSecret } from '@/lib/webhooks';
+
+/**
+ * PATCH /api/admin/webhooks/<id>
+ * Body: any subset of name, url, kind, events and active, e.g. { "active": false }.
+ * `{ "rotateSecret": true }` replaces an http endpoint's signing secret and
+ * returns the new one.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    if (!getAdminOperator(request)) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    const { id } = await params;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, code: 'invalid_json', error: 'Invalid JSON body' } as ApiFailure,
+        { status: 400 },
+      );
+    }
+
+    // 1. Validate the patch
+    const parsed = parseWith(webhookEndpointPatchSchema, body ?? {});
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: parsed.error, issues: parsed.issues } as ApiFailure,
+        { status: 400 },
+      );
+    }
+    const { rotateSecret, ...changes } = parsed.data;
+
+    const endpoints = await getWebhookEndpointsCollection();
+    const current = await endpoints.findOne({ id }, { projection: { _id: 0 } });
+    if (!current) {
+      return NextResponse.json(
+        { success: false, code: 'not_found', error: 'Webhook endpoint not found' } as ApiFailure,
+        { status: 404 },
+      );
+    }
+
+    // 2. Validate the endpoint it would become, e.g. a new kind against the old url
+    const merged = parseWith(webhookEndpointSchema, {
+      name: changes.name ?? current.name,
+      url: changes.url ?? current.url,
+      kind: changes.kind ?? current.kind,
+      events: changes.events ?? current.events,
+      active: changes.active ?? current.active,
+    });
+    if (!merged.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: merged.error, issues: merged.issues } as ApiFailure,
+        { status: 400 },
+      );
+    }
+    if (rotateSecret && merged.data.kind !== 'http') {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: 'Only http endpoints have a signing secret' } as ApiFailure,
+        { status: 400 },
+      );
+    }
+
+    // 3. Apply — an endpoint becoming http needs a secret, one leaving http drops it
+    const secret = rotateSecret || (merged.data.kind === 'http' && !current.secret)
+      ? generateWebhookSecret()
+      : undefined;
+    const updated = await endpoints.findOneAndUpdate(
+      { id },
+      {
+        $set: { ...changes, ...(secret && { secret }), updatedAt: new Date().toISOString() },
+        ...(merged.data.kind !== 'http' && { $unset: { secret: '' } }),
+      },
+      { returnDocument: 'after', projection: { _id: 0, secret: 0 } },
+    );
+    if (!updated) {
+      return NextResponse.json(
+        { success: false, code: 'not_found', error: 'Webhook endpoint not found' } as ApiFailure,
+        { status: 404 },
+      );
+    }
+
+    const endpoint: WebhookEndpoint = { ...updated, ...(secret && { secret }) };
+    return NextResponse.json({ success: true, endpoint });
+  } catch (error: any) {
+    console.error('[admin/webhooks] PATCH error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/webhooks/<id>
+ *
+ * Pending deliveries to the endpoint are marked failed when next attempted.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    if (!getAdminOperator(request)) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    const { id } = await params;
+    const endpoints = await getWebhookEndpointsCollection();
+    const { deletedCount } = await endpoints.deleteOne({ id });
+
+    if (deletedCount === 0) {
+      return NextResponse.json(
+        { success: false, code: 'not_found', error: 'Webhook endpoint not found' } as ApiFailure,
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('[admin/webhooks] DELETE error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Filter } from 'mongodb';
+import { ApiFailure, WebhookDelivery } from '@/types';
+import { getWebhookDeliveriesCollection } from '@/lib/mongodb';
+import { getAdminOperator } from '@/lib/adminAuth';
+import { parseWith, queryObject, webhookDeliveriesQuerySchema } from '@/lib/schemas';
+
+/**
+ * GET /api/admin/webhooks/deliveries?endpoint=<id>&status=failed&limit=50&skip=0
+ *
+ * The delivery log, newest first. Kept for 30 days.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!getAdminOperator(request)) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    const parsed = parseWith(webhookDeliveriesQuerySchema, queryObject(request.nextUrl.searchParams));
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: parsed.error, issues: parsed.issues } as ApiFailure,
+        { status: 400 },
+      );
+    }
+    const { endpoint, status, limit, skip } = parsed.data;
+
+    const filter: Filter<WebhookDelivery> = {};
+    if (endpoint) filter.endpointId = endpoint;
+    if (status) filter.status = status;
+
+    const collection = await getWebhookDeliveriesCollection();
+    const [deliveries, total] = await Promise.all([
+      collection
+        .find(filter, { projection: { _id: 0, expiresAt: 0 } })
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .toArray(),
+      collection.countDocuments(filter),
+    ]);
+
+    return NextResponse.json({ success: true, deliveries, total });
+  } catch (error: any) {
+    console.error('[admin/webhooks/deliveries] GET error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiFailure, WebhookEndpoint } from '@/types';
+import { getWebhookEndpointsCollection } from '@/lib/mongodb';
+import { getAdminOperator } from '@/lib/adminAuth';
+import { parseWith, webhookEndpointSchema } from '@/lib/schemas';
+import { generateWebhookSecret } from '@/lib/webhooks';
+
+/**
+ * GET /api/admin/webhooks — every outbound webhook endpoint, without secrets.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!getAdminOperator(request)) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    const endpoints = await getWebhookEndpointsCollection();
+    const list = await endpoints
+      .find({}, { projection: { _id: 0, secret: 0 } })
+      .sort({ createdAt: -1 })
+      .toArray();
+
+    return NextResponse.json({ success: true, endpoints: list });
+  } catch (error: any) {
+    console.error('[admin/webhooks] GET error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/admin/webhooks
+ * Body: e.g.
+ *   { "name": "Ops Discord", "kind": "discord", "url": "https://discord.com/api/webhooks/…",
+ *     "events": ["burn.recorded", "reconciliation.mismatch"] }
+ *
+ * `http` endpoints get a signing secret, returned only in this response.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!getAdminOperator(request)) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, code: 'invalid_json', error: 'Invalid JSON body' } as ApiFailure,
+        { status: 400 },
+      );
+    }
+
+    const parsed = parseWith(webhookEndpointSchema, body ?? {});
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: parsed.error, issues: parsed.issues } as ApiFailure,
+        { status: 400 },
+      );
+    }
+
+    const endpoint: WebhookEndpoint = {
+      id: randomUUID(),
+      ...parsed.data,
+      ...(parsed.data.kind === 'http' && { secret: generateWebhookSecret() }),
+      createdAt: new Date().toISOString(),
+    };
+
+    const endpoints = await getWebhookEndpointsCollection();
+    await endpoints.insertOne({ ...endpoint });
+
+    return NextResponse.json({ success: true, endpoint }, { status: 201 });
+  } catch (error: any) {
+    console.error('[admin/webhooks] POST error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
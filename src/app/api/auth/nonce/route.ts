@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthNonceResponse } from '@/types';
+import { isAllowedOrigin } from '@/lib/security';
+import { createSignInChallenge } from '@/lib/walletAuth';
+import { authNonceRequestSchema, parseWith } from '@/lib/schemas';
+import {
+  RATE_LIMITS,
+  checkRateLimits,
+  getClientIp,
+  rateLimitedResponse,
+  withRateLimitHeaders,
+} from '@/lib/rateLimit';
+
+/**
+ * POST /api/auth/nonce
+ * Body: { walletAddress }
+ *
+ * Issues a one-time sign-in message for the wallet to sign. The signed
+ * message is exchanged for a session at POST /api/auth/session.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAllowedOrigin(request.headers.get('origin'))) {
+      return NextResponse.json(
+        { success: false, code: 'forbidden', error: 'Forbidden' } as AuthNonceResponse,
+        { status: 403 },
+      );
+    }
+
+    const limits = await checkRateLimits([[RATE_LIMITS.authNonce, getClientIp(request)]]);
+    const limited = rateLimitedResponse(limits);
+    if (limited) return limited;
+
+    let raw: unknown;
+    try {
+      raw = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, code: 'invalid_json', error: 'Invalid JSON body' } as AuthNonceResponse,
+        { status: 400 },
+      );
+    }
+
+    const parsed = parseWith(authNonceRequestSchema, raw);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_wallet', error: parsed.error, issues: parsed.issues } as AuthNonceResponse,
+        { status: 400 },
+      );
+    }
+
+    const { nonce, message } = await createSignInChallenge(
+      request.nextUrl.host,
+      parsed.data.walletAddress,
+    );
+
+    return withRateLimitHeaders(
+      NextResponse.json({ success: true, nonce, message } as AuthNonceResponse),
+      limits,
+    );
+  } catch (error: any) {
+    console.error('[auth/nonce] POST error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as AuthNonceResponse,
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import bs58 from 'bs58';
+import { AuthSessionResponse } from '@/types';
+import { isAllowedOrigin, isAllowedOriginOrReferer } from '@/lib/security';
+import {
+  clearSessionCookie,
+  createSession,
+  destroySession,
+  getSession,
+  setSessionCookie,
+} from '@/lib/walletAuth';
+import { authSessionRequestSchema, parseWith } from '@/lib/schemas';
+import {
+  RATE_LIMITS,
+  checkRateLimits,
+  getClientIp,
+  rateLimitedResponse,
+  withRateLimitHeaders,
+} from '@/lib/rateLimit';
+
+/**
+ * GET /api/auth/session
+ *
+ * Returns the wallet the current session cookie belongs to.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAllowedOriginOrReferer(request)) {
+      return NextResponse.json(
+        { success: false, code: 'forbidden', error: 'Forbidden' } as AuthSessionResponse,
+        { status: 403 },
+      );
+    }
+
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, code: 'sign_in_required', error: 'Not signed in' } as AuthSessionResponse,
+        { status: 401 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      walletAddress: session.walletAddress,
+      expiresAt: session.expiresAt.toISOString(),
+    } as AuthSessionResponse);
+  } catch (error: any) {
+    console.error('[auth/session] GET error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as AuthSessionResponse,
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/auth/session
+ * Body: { walletAddress, nonce, signature }   (signature is base58)
+ *
+ * Verifies the ed25519 signature over the message issued for `nonce` and
+ * sets a short-lived, httpOnly session cookie.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAllowedOrigin(request.headers.get('origin'))) {
+      return NextResponse.json(
+        { success: false, code: 'forbidden', error: 'Forbidden' } as AuthSessionResponse,
+        { status: 403 },
+      );
+    }
+
+    // Each attempt burns a nonce and a signature check — cap them per IP
+    const limits = await checkRateLimits([[RATE_LIMITS.authSession, getClientIp(request)]]);
+    const limited = rateLimitedResponse(limits);
+    if (limited) return limited;
+
+    let raw: unknown;
+    try {
+      raw = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, code: 'invalid_json', error: 'Invalid JSON body' } as AuthSessionResponse,
+        { status: 400 },
+      );
+    }
+
+    const parsed = parseWith(authSessionRequestSchema, raw);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: parsed.error, issues: parsed.issues } as AuthSessionResponse,
+        { status: 400 },
+      );
+    }
+
+    // The schema has already checked it decodes to 64 bytes
+    const { walletAddress, nonce, signature } = parsed.data;
+    const signatureBytes = bs58.decode(signature);
+
+    const session = await createSession(walletAddress, nonce, signatureBytes);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, code: 'signature_invalid', error: 'Signature verification failed' } as AuthSessionResponse,
+        { status: 401 },
+      );
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      walletAddress,
+      expiresAt: session.expiresAt.toISOString(),
+    } as AuthSessionResponse);
+    setSessionCookie(response, session.token, session.expiresAt);
+    return withRateLimitHeaders(response, limits);
+  } catch (error: any) {
+    console.error('[auth/session] POST error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as AuthSessionResponse,
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/auth/session — sign out.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    if (!isAllowedOrigin(request.headers.get('origin'))) {
+      return NextResponse.json(
+        { success: false, code: 'forbidden', error: 'Forbidden' } as AuthSessionResponse,
+        { status: 403 },
+      );
+    }
+
+    await destroySession(request);
+    const response = NextResponse.json({ success: true } as AuthSessionResponse);
+    clearSessionCookie(response);
+    return response;
+  } catch (error: any) {
+    console.error('[auth/session] DELETE error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as AuthSessionResponse,
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiFailure } from '@/types';
+import { isCronRequest } from '@/lib/adminAuth';
+import { sweepWebhookDeliveries } from '@/lib/webhooks';
+
+// Each delivery may wait up to 10s on a slow receiver
+export const maxDuration = 300;
+
+/**
+ * GET /api/cron/deliver-webhooks
+ *
+ * Retries outbound webhook deliveries that are due (see vercel.json).
+ * Requires `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    const summary = await sweepWebhookDeliveries();
+    console.log('[cron/deliver-webhooks]', JSON.stringify(summary));
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error: any) {
+    console.error('[cron/deliver-webhooks] GET error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
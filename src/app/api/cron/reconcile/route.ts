@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiFailure } from '@/types';
+import { isCronRequest } from '@/lib/adminAuth';
+import { runReconciliation } from '@/lib/reconciliation';
+
+// Walking signature history for new burns can take a while on a large collection
+export const maxDuration = 300;
+
+/**
+ * GET /api/cron/reconcile
+ *
+ * Scheduled reconciliation of on-chain burns against burnt_nfts (see
+ * vercel.json). Requires `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    const collectionAddress = process.env.NEXT_PUBLIC_COLLECTION_ADDRESS;
+    if (!collectionAddress) {
+      return NextResponse.json(
+        { success: false, code: 'not_configured', error: 'NEXT_PUBLIC_COLLECTION_ADDRESS is not set' } as ApiFailure,
+        { status: 500 },
+      );
+    }
+
+    const summary = await runReconciliation(collectionAddress);
+    console.log('[cron/reconcile]', JSON.stringify(summary));
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error: any) {
+    console.error('[cron/reconcile] GET error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
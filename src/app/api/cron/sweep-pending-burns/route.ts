@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiFailure } from '@/types';
+import { isCronRequest } from '@/lib/adminAuth';
+import { sweepPendingBurns } from '@/lib/pendingBurns';
+
+export const maxDuration = 300;
+
+/**
+ * GET /api/cron/sweep-pending-burns
+ *
+ * Records pending_burns entries the client never finished recording (see
+ * vercel.json). Requires `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      return NextResponse.json(
+        { success: false, code: 'unauthorized', error: 'Unauthorized' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+
+    const result = await sweepPendingBurns();
+    if (result.partial.length > 0) {
+      console.warn('[cron/sweep-pending-burns] partial:', JSON.stringify(result.partial));
+    }
+    if (result.rejected.length > 0) {
+      console.warn('[cron/sweep-pending-burns] rejected:', JSON.stringify(result.rejected));
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    console.error('[cron/sweep-pending-burns] GET error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { HistoryResponse } from '@/types';
+import { getBurnHistory } from '@/lib/history';
+import { isAllowedOriginOrReferer } from '@/lib/security';
+import { getSessionWallet } from '@/lib/walletAuth';
+import { historyQuerySchema, parseWith, queryObject } from '@/lib/schemas';
+import { RATE_LIMITS, checkRateLimits, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rateLimit';
+
+/**
+ * GET /api/history?wallet=<address>&page=1&limit=10
+ *
+ * The wallet's burns grouped by transaction, newest first, with each upgrade
+ * target's status, name and image. Requires a wallet session for the same
+ * wallet.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Origin guard — block direct API calls
+    if (!isAllowedOriginOrReferer(request)) {
+      return NextResponse.json(
+        { success: false, code: 'forbidden', error: 'Forbidden' } as HistoryResponse,
+        { status: 403 },
+      );
+    }
+
+    const parsed = parseWith(historyQuerySchema, queryObject(request.nextUrl.searchParams));
+    if (!parsed.ok) {
+      return NextResponse.json(
+        {
+          success: false,
+          code: request.nextUrl.searchParams.has('wallet') ? 'invalid_wallet' : 'invalid_request',
+          error: parsed.error,
+          issues: parsed.issues,
+        } as HistoryResponse,
+        { status: 400 },
+      );
+    }
+    const { wallet, page, limit } = parsed.data;
+
+    // Only the signed-in wallet may read its own history
+    const sessionWallet = await getSessionWallet(request);
+    if (!sessionWallet) {
+      return NextResponse.json(
+        { success: false, code: 'sign_in_required', error: 'Sign-in required' } as HistoryResponse,
+        { status: 401 },
+      );
+    }
+    if (sessionWallet !== wallet) {
+      return NextResponse.json(
+        { success: false, code: 'wallet_mismatch', error: 'Signed-in wallet does not match wallet parameter' } as HistoryResponse,
+        { status: 403 },
+      );
+    }
+
+    const limits = await checkRateLimits([[RATE_LIMITS.history, wallet]]);
+    const limited = rateLimitedResponse(limits);
+    if (limited) return limited;
+
+    const { groups, total } = await getBurnHistory(wallet, page, limit);
+
+    const response = NextResponse.json({ success: true, groups, total } as HistoryResponse);
+    response.headers.set('Cache-Control', 'private, no-store');
+    return withRateLimitHeaders(response, limits);
+  } catch (error: any) {
+    console.error('[history] GET error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as HistoryResponse,
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InventoryResponse } from '@/types';
+import { getInventory } from '@/lib/inventory';
+import { isAllowedOriginOrReferer } from '@/lib/security';
+import { getSessionWallet } from '@/lib/walletAuth';
+import { inventoryQuerySchema, parseWith, queryObject } from '@/lib/schemas';
+import { RATE_LIMITS, checkRateLimits, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rateLimit';
+
+/**
+ * GET /api/inventory?wallet=<address>[&page=1][&refresh=1]
+ *
+ * One page of the wallet's NFTs in the collection, read from DAS by the
+ * server (so the RPC key never reaches the browser), together with its locked
+ * mints. Clients keep asking for the next page while `hasMore` is set. Cached
+ * per wallet and page for a minute and dropped as soon as the wallet records a
+ * burn; `refresh=1` skips the cache. Requires a wallet session for the same
+ * wallet.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Origin guard — block direct API calls
+    if (!isAllowedOriginOrReferer(request)) {
+      return NextResponse.json(
+        { success: false, code: 'forbidden', error: 'Forbidden' } as InventoryResponse,
+        { status: 403 },
+      );
+    }
+
+    const parsed = parseWith(inventoryQuerySchema, queryObject(request.nextUrl.searchParams));
+    if (!parsed.ok) {
+      return NextResponse.json(
+        {
+          success: false,
+          code: request.nextUrl.searchParams.has('wallet') ? 'invalid_wallet' : 'invalid_request',
+          error: parsed.error,
+          issues: parsed.issues,
+        } as InventoryResponse,
+        { status: 400 },
+      );
+    }
+    const { wallet, page, refresh } = parsed.data;
+
+    // Only the signed-in wallet may read its own inventory
+    const sessionWallet = await getSessionWallet(request);
+    if (!sessionWallet) {
+      return NextResponse.json(
+        { success: false, code: 'sign_in_required', error: 'Sign-in required' } as InventoryResponse,
+        { status: 401 },
+      );
+    }
+    if (sessionWallet !== wallet) {
+      return NextResponse.json(
+        { success: false, code: 'wallet_mismatch', error: 'Signed-in wallet does not match wallet parameter' } as InventoryResponse,
+        { status: 403 },
+      );
+    }
+
+    const limits = await checkRateLimits([[RATE_LIMITS.inventory, wallet]]);
+    const limited = rateLimitedResponse(limits);
+    if (limited) return limited;
+
+    const inventory = await getInventory(wallet, page, refresh);
+
+    const response = NextResponse.json({ success: true, ...inventory } as InventoryResponse);
+    response.headers.set('Cache-Control', 'private, no-store');
+    return withRateLimitHeaders(response, limits);
+  } catch (error: any) {
+    console.error('[inventory] GET error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as InventoryResponse,
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LeaderboardProfileResponse } from '@/types';
+import { isAllowedOrigin, isAllowedOriginOrReferer } from '@/lib/security';
+import { getSessionWallet } from '@/lib/walletAuth';
+import { getLeaderboardProfile, saveLeaderboardProfile } from '@/lib/stats';
+import { leaderboardProfileSchema, parseWith } from '@/lib/schemas';
+import { RATE_LIMITS, checkRateLimits, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rateLimit';
+
+/**
+ * GET /api/leaderboard/profile
+ *
+ * The signed-in wallet's leaderboard choices, or `profile: null` if it has
+ * never made any (and so is not listed).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAllowedOriginOrReferer(request)) {
+      return NextResponse.json(
+        { success: false, code: 'forbidden', error: 'Forbidden' } as LeaderboardProfileResponse,
+        { status: 403 },
+      );
+    }
+
+    const sessionWallet = await getSessionWallet(request);
+    if (!sessionWallet) {
+      return NextResponse.json(
+        { success: false, code: 'sign_in_required', error: 'Sign-in required' } as LeaderboardProfileResponse,
+        { status: 401 },
+      );
+    }
+
+    const profile = await getLeaderboardProfile(sessionWallet);
+
+    const response = NextResponse.json({ success: true, profile } as LeaderboardProfileResponse);
+    response.headers.set('Cache-Control', 'private, no-store');
+    return response;
+  } catch (error: any) {
+    console.error('[leaderboard/profile] GET error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as LeaderboardProfileResponse,
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT /api/leaderboard/profile
+ * Body: { visible, displayName?, showAddress? }
+ *
+ * Opt the signed-in wallet in to (or out of) the public leaderboard, and
+ * choose whether it appears by address, display name or both.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // 1. Origin guard
+    if (!isAllowedOrigin(request.headers.get('origin'))) {
+      return NextResponse.json(
+        { success: false, code: 'forbidden', error: 'Forbidden' } as LeaderboardProfileResponse,
+        { status: 403 },
+      );
+    }
+
+    // 2. Wallet session
+    const sessionWallet = await getSessionWallet(request);
+    if (!sessionWallet) {
+      return NextResponse.json(
+        { success: false, code: 'sign_in_required', error: 'Sign-in required' } as LeaderboardProfileResponse,
+        { status: 401 },
+      );
+    }
+    const limits = await checkRateLimits([[RATE_LIMITS.leaderboardOptIn, sessionWallet]]);
+    const limited = rateLimitedResponse(limits);
+    if (limited) return limited;
+
+    // 3. Parse
+    let raw: unknown;
+    try {
+      raw = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, code: 'invalid_json', error: 'Invalid JSON body' } as LeaderboardProfileResponse,
+        { status: 400 },
+      );
+    }
+
+    // 4. Schema
+    const parsed = parseWith(leaderboardProfileSchema, raw);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: parsed.error, issues: parsed.issues } as LeaderboardProfileResponse,
+        { status: 400 },
+      );
+    }
+
+    const profile = await saveLeaderboardProfile(sessionWallet, parsed.data);
+
+    return withRateLimitHeaders(
+      NextResponse.json({ success: true, profile } as LeaderboardProfileResponse),
+      limits,
+    );
+  } catch (error: any) {
+    console.error('[leaderboard/profile] PUT error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as LeaderboardProfileResponse,
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LeaderboardResponse } from '@/types';
+import { PUBLIC_CACHE_CONTROL, getLeaderboard } from '@/lib/stats';
+import { leaderboardQuerySchema, parseWith, queryObject } from '@/lib/schemas';
+import { RATE_LIMITS, checkRateLimits, getClientIp, rateLimitedResponse } from '@/lib/rateLimit';
+
+/**
+ * GET /api/leaderboard?limit=25[&campaign=<id>]
+ *
+ * Top burners, by burns then upgrade targets. Only wallets that opted in
+ * through PUT /api/leaderboard/profile are listed, showing the address
+ * and/or display name they chose.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = parseWith(leaderboardQuerySchema, queryObject(request.nextUrl.searchParams));
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: parsed.error, issues: parsed.issues } as LeaderboardResponse,
+        { status: 400 },
+      );
+    }
+
+    // Shared by the CDN — no per-client RateLimit headers
+    const limits = await checkRateLimits([[RATE_LIMITS.publicStats, getClientIp(request)]]);
+    const limited = rateLimitedResponse(limits);
+    if (limited) return limited;
+
+    const entries = await getLeaderboard(parsed.data.limit, parsed.data.campaign);
+
+    const response = NextResponse.json({
+      success: true,
+      entries,
+      generatedAt: new Date().toISOString(),
+    } as LeaderboardResponse);
+    response.headers.set('Cache-Control', PUBLIC_CACHE_CONTROL);
+    return response;
+  } catch (error: any) {
+    console.error('[leaderboard] GET error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as LeaderboardResponse,
+      { status: 500 },
+    );
+  }
+}
@@ -1,74 +1,68 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PublicKey } from '@solana/web3.js';
-import { getBurntNFTsCollection } from '@/lib/mongodb';
-
-function isAllowedOrigin(origin: string | null): boolean {
-  if (!origin) return false;
-  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
-  if (appUrl && origin === appUrl) return true;
-  if (process.env.NODE_ENV === 'development') {
-    return /^https?:\/\/localhost(:\d+)?$/.test(origin);
-  }
-  return false;
-}
+import { LockedMintsResponse } from '@/types';
+import { getLockedMints } from '@/lib/inventory';
+import { isAllowedOriginOrReferer } from '@/lib/security';
+import { getSessionWallet } from '@/lib/walletAuth';
+import { lockedMintsQuerySchema, parseWith, queryObject } from '@/lib/schemas';
+import { RATE_LIMITS, checkRateLimits, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rateLimit';
 
 /**
  * GET /api/locked-mints?wallet=<address>
  *
  * Returns the set of mint addresses that have been recorded as upgrade targets
  * for burns made by this wallet. These NFTs must NOT be selectable for burning.
+ * Requires a wallet session (see /api/auth/session) for the same wallet.
  */
 export async function GET(request: NextRequest) {
   try {
     // Origin guard — block direct API calls
-    if (!isAllowedOrigin(request.headers.get('origin'))
-      && !isAllowedOrigin(request.headers.get('referer')?.replace(/\/[^/]*$/, '') ?? null)) {
+    if (!isAllowedOriginOrReferer(request)) {
       return NextResponse.json(
-        { success: false, error: 'Forbidden' },
+        { success: false, code: 'forbidden', error: 'Forbidden' } as LockedMintsResponse,
         { status: 403 },
       );
     }
 
-    const wallet = request.nextUrl.searchParams.get('wallet');
-    if (!wallet) {
+    const parsed = parseWith(lockedMintsQuerySchema, queryObject(request.nextUrl.searchParams));
+    if (!parsed.ok) {
       return NextResponse.json(
-        { success: false, error: 'Missing wallet parameter' },
+        {
+          success: false,
+          code: request.nextUrl.searchParams.has('wallet') ? 'invalid_wallet' : 'invalid_request',
+          error: parsed.error,
+          issues: parsed.issues,
+        } as LockedMintsResponse,
         { status: 400 },
       );
     }
+    const { wallet } = parsed.data;
 
-    // Validate wallet address
-    try {
-      new PublicKey(wallet);
-    } catch {
+    // Only the signed-in wallet may read its own locked mints
+    const sessionWallet = await getSessionWallet(request);
+    if (!sessionWallet) {
       return NextResponse.json(
-        { success: false, error: 'Invalid wallet address' },
-        { status: 400 },
+        { success: false, code: 'sign_in_required', error: 'Sign-in required' } as LockedMintsResponse,
+        { status: 401 },
+      );
+    }
+    if (sessionWallet !== wallet) {
+      return NextResponse.json(
+        { success: false, code: 'wallet_mismatch', error: 'Signed-in wallet does not match wallet parameter' } as LockedMintsResponse,
+        { status: 403 },
       );
     }
 
-    const collection = await getBurntNFTsCollection();
-
-    // Find all upgrade target mints for burns made by this wallet
-    const records = await collection
-      .find(
-        {
-          burntBy: wallet,
-          upgradeTargetMint: { $exists: true, $ne: '' },
-        },
-        { projection: { upgradeTargetMint: 1, _id: 0 } },
-      )
-      .toArray();
+    const limits = await checkRateLimits([[RATE_LIMITS.lockedMints, wallet]]);
+    const limited = rateLimitedResponse(limits);
+    if (limited) return limited;
 
-    const lockedMints = records
-      .map((r) => r.upgradeTargetMint)
-      .filter((m): m is string => !!m);
+    const lockedMints = await getLockedMints(wallet);
 
-    return NextResponse.json({ success: true, lockedMints });
+    return withRateLimitHeaders(NextResponse.json({ success: true, lockedMints }), limits);
   } catch (error: any) {
     console.error('[locked-mints] GET error:', error?.message);
     return NextResponse.json(
-      { success: false, error: 'Internal server error' },
+      { success: false, code: 'internal_error', error: 'Internal server error' } as LockedMintsResponse,
       { status: 500 },
     );
   }
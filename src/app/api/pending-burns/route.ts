@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiFailure } from '@/types';
+import { isAllowedOrigin } from '@/lib/security';
+import { getSessionWallet } from '@/lib/walletAuth';
+import { intakePendingBurn } from '@/lib/pendingBurns';
+import { parseWith, pendingBurnRequestSchema } from '@/lib/schemas';
+import { RATE_LIMITS, checkRateLimits, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rateLimit';
+
+const MAX_BODY_BYTES = 50_000; // same cap as /api/burn-and-upgrade
+
+/**
+ * POST /api/pending-burns
+ * Body: a BurnBatchRequest with its `journalId`
+ *
+ * Takes in a batch whose burns are confirmed on-chain before the client tries
+ * to record it, so the sweeper can record it if the client never does. Only
+ * the schema is checked here — recordBurnBatch does the real validation later.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Origin guard
+    if (!isAllowedOrigin(request.headers.get('origin'))) {
+      return NextResponse.json(
+        { success: false, code: 'forbidden', error: 'Forbidden' } as ApiFailure,
+        { status: 403 },
+      );
+    }
+
+    // 2. Wallet session
+    const sessionWallet = await getSessionWallet(request);
+    if (!sessionWallet) {
+      return NextResponse.json(
+        { success: false, code: 'sign_in_required', error: 'Sign-in required' } as ApiFailure,
+        { status: 401 },
+      );
+    }
+    const limits = await checkRateLimits([[RATE_LIMITS.pendingBurns, sessionWallet]]);
+    const limited = rateLimitedResponse(limits);
+    if (limited) return limited;
+
+    // 3. Body size
+    if (Number(request.headers.get('content-length') ?? 0) > MAX_BODY_BYTES) {
+      return NextResponse.json(
+        { success: false, code: 'payload_too_large', error: 'Request body too large' } as ApiFailure,
+        { status: 413 },
+      );
+    }
+
+    // 4. Parse
+    let raw: unknown;
+    try {
+      raw = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, code: 'invalid_json', error: 'Invalid JSON body' } as ApiFailure,
+        { status: 400 },
+      );
+    }
+
+    // 5. Schema
+    const parsed = parseWith(pendingBurnRequestSchema, raw);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: parsed.error, issues: parsed.issues } as ApiFailure,
+        { status: 400 },
+      );
+    }
+    const body = parsed.data;
+
+    // 6. Only the signed-in wallet's own burns
+    if (body.walletAddress !== sessionWallet) {
+      return NextResponse.json(
+        { success: false, code: 'wallet_mismatch', error: 'Signed-in wallet does not match walletAddress' } as ApiFailure,
+        { status: 403 },
+      );
+    }
+
+    await intakePendingBurn(body.journalId, sessionWallet, {
+      walletAddress: sessionWallet,
+      burns: body.burns,
+      upgrades: body.upgrades,
+    });
+
+    return withRateLimitHeaders(NextResponse.json({ success: true }), limits);
+  } catch (error: any) {
+    console.error('[pending-burns] POST error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ApiFailure,
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { StatsResponse } from '@/types';
+import { PUBLIC_CACHE_CONTROL, getCollectionStats } from '@/lib/stats';
+import { parseWith, queryObject, statsQuerySchema } from '@/lib/schemas';
+import { RATE_LIMITS, checkRateLimits, getClientIp, rateLimitedResponse } from '@/lib/rateLimit';
+
+/**
+ * GET /api/stats?days=30[&campaign=<id>]
+ *
+ * Public collection stats: total burned, distinct burners, applied upgrades,
+ * burns per UTC day for the last `days` days (max 365) and the most-upgraded
+ * traits. No per-wallet data.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = parseWith(statsQuerySchema, queryObject(request.nextUrl.searchParams));
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: parsed.error, issues: parsed.issues } as StatsResponse,
+        { status: 400 },
+      );
+    }
+
+    // Only requests that miss the CDN get here; the response is shared, so
+    // it carries no per-client RateLimit headers
+    const limits = await checkRateLimits([[RATE_LIMITS.publicStats, getClientIp(request)]]);
+    const limited = rateLimitedResponse(limits);
+    if (limited) return limited;
+
+    const stats = await getCollectionStats(parsed.data.days, parsed.data.campaign);
+
+    const response = NextResponse.json({ success: true, stats } as StatsResponse);
+    response.headers.set('Cache-Control', PUBLIC_CACHE_CONTROL);
+    return response;
+  } catch (error: any) {
+    console.error('[stats] GET error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as StatsResponse,
+      { status: 500 },
+    );
+  }
+}
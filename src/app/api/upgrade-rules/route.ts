@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { UpgradeRulesResponse } from '@/types';
+import { isAllowedOriginOrReferer } from '@/lib/security';
+import { getSessionWallet } from '@/lib/walletAuth';
+import { countUpgradesUsed, getActiveRecipe } from '@/lib/recipes';
+import { getActiveCampaign } from '@/lib/campaigns';
+
+/**
+ * GET /api/upgrade-rules
+ *
+ * Returns the recipe and campaign POST /api/burn-and-upgrade currently
+ * enforces. When the caller is signed in, also returns how many upgrades their
+ * wallet has used.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAllowedOriginOrReferer(request)) {
+      return NextResponse.json(
+        { success: false, code: 'forbidden', error: 'Forbidden' } as UpgradeRulesResponse,
+        { status: 403 },
+      );
+    }
+
+    const [recipe, campaign] = await Promise.all([getActiveRecipe(), getActiveCampaign()]);
+    const sessionWallet = await getSessionWallet(request);
+    const upgradesUsed = sessionWallet ? await countUpgradesUsed(sessionWallet, recipe) : undefined;
+
+    return NextResponse.json({ success: true, recipe, campaign, upgradesUsed } as UpgradeRulesResponse);
+  } catch (error: any) {
+    console.error('[upgrade-rules] GET error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as UpgradeRulesResponse,
+      { status: 500 },
+    );
+  }
+}
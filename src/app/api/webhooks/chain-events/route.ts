@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ChainEventsResponse } from '@/types';
+import { ingestChainEvents, verifyWebhookSignature } from '@/lib/chainEvents';
+import { chainEventsRequestSchema, parseWith } from '@/lib/schemas';
+
+const MAX_BODY_BYTES = 5_000_000; // Helius batches up to 100 enhanced transactions
+
+// Each burn is re-read on-chain before it is recorded
+export const maxDuration = 60;
+
+/**
+ * POST /api/webhooks/chain-events
+ * Body: an array of Helius enhanced transactions
+ *
+ * Records MPL Core burns in our collection made outside the app (marketplace
+ * burn, CLI…) as `source: 'webhook'` records. Requires
+ * `X-Webhook-Signature: <hex HMAC-SHA256 of the body keyed with CHAIN_WEBHOOK_SECRET>`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Configuration
+    const secret = process.env.CHAIN_WEBHOOK_SECRET;
+    const collectionAddress = process.env.NEXT_PUBLIC_COLLECTION_ADDRESS;
+    if (!secret || !collectionAddress) {
+      return NextResponse.json(
+        { success: false, code: 'not_configured', error: 'CHAIN_WEBHOOK_SECRET and NEXT_PUBLIC_COLLECTION_ADDRESS must be set' } as ChainEventsResponse,
+        { status: 500 },
+      );
+    }
+
+    // 2. Body size
+    if (Number(request.headers.get('content-length') ?? 0) > MAX_BODY_BYTES) {
+      return NextResponse.json(
+        { success: false, code: 'payload_too_large', error: 'Request body too large' } as ChainEventsResponse,
+        { status: 413 },
+      );
+    }
+
+    // 3. Signature over the raw body
+    const rawBody = await request.text();
+    if (!verifyWebhookSignature(rawBody, request.headers.get('x-webhook-signature'), secret)) {
+      return NextResponse.json(
+        { success: false, code: 'signature_invalid', error: 'Invalid webhook signature' } as ChainEventsResponse,
+        { status: 401 },
+      );
+    }
+
+    // 4. Parse and validate
+    let raw: unknown;
+    try {
+      raw = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json(
+        { success: false, code: 'invalid_json', error: 'Invalid JSON body' } as ChainEventsResponse,
+        { status: 400 },
+      );
+    }
+    const parsed = parseWith(chainEventsRequestSchema, raw);
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { success: false, code: 'invalid_request', error: parsed.error, issues: parsed.issues } as ChainEventsResponse,
+        { status: 400 },
+      );
+    }
+
+    // 5. Confirm and record the burns
+    const summary = await ingestChainEvents(parsed.data);
+    if (summary.burns > 0) console.log('[webhooks/chain-events]', JSON.stringify(summary));
+
+    return NextResponse.json({ success: true, ...summary } as ChainEventsResponse);
+  } catch (error: any) {
+    // A 500 makes Helius redeliver; recording is idempotent per mint
+    console.error('[webhooks/chain-events] POST error:', error?.message);
+    return NextResponse.json(
+      { success: false, code: 'internal_error', error: 'Internal server error' } as ChainEventsResponse,
+      { status: 500 },
+    );
+  }
+}
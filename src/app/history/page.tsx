@@ -0,0 +1,165 @@
+"use client";
+import "./history.scss";
+import Link from "next/link";
+import { useState, useEffect, useMemo } from "react";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { useWalletSession } from "@/hooks/useWalletSession";
+import { createApiClient } from "@/lib/apiClient";
+import { explorerAddressUrl, explorerTxUrl, shortAddress } from "@/lib/explorer";
+import { BurnHistoryGroup } from "@/types";
+
+const PAGE_SIZE = 10;
+
+export default function History() {
+  const { connected, publicKey } = useWallet();
+  const { authFetch } = useWalletSession();
+  const api = useMemo(() => createApiClient(authFetch), [authFetch]);
+
+  const [groups, setGroups] = useState<BurnHistoryGroup[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const wallet = publicKey?.toBase58();
+
+  // A different wallet starts again from its first page
+  const [pageWallet, setPageWallet] = useState(wallet);
+  if (wallet !== pageWallet) {
+    setPageWallet(wallet);
+    setPage(1);
+    setGroups([]);
+    setTotal(0);
+  }
+
+  useEffect(() => {
+    if (!wallet) return;
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      const res = await api.history(wallet, page, PAGE_SIZE);
+      if (cancelled) return;
+      if (res.ok) {
+        setGroups(res.data.groups ?? []);
+        setTotal(res.data.total ?? 0);
+      } else {
+        setError(res.error);
+      }
+      setLoading(false);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [api, wallet, page]);
+
+  const pageCount = Math.max(Math.ceil(total / PAGE_SIZE), 1);
+
+  if (!connected || !wallet) {
+    return (
+      <main className="history flex">
+        <h2>My Burns</h2>
+        <div className="emptyState flex">
+          <span>Connect your wallet to see the NFTs you have burned.</span>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="history flex">
+      <h2>My Burns</h2>
+
+      {error && <div className="historyError">⚠️ {error}</div>}
+
+      {groups.map((g) => (
+        <section key={g.transactionSignature} className="historyGroup">
+          <div className="historyGroupHeader flex">
+            <span>{new Date(g.burntAt).toLocaleString()}</span>
+            <a href={explorerTxUrl(g.transactionSignature)} target="_blank" rel="noopener noreferrer">
+              Burn tx {shortAddress(g.transactionSignature, 6, 6)} ↗
+            </a>
+          </div>
+
+          <div className="historyColumns flex">
+            <div className="historyColumn">
+              <h3 className="red">🔥 Burned ({g.burns.length})</h3>
+              <ul>
+                {g.burns.map((b) => (
+                  <li key={b.mint}>
+                    <a href={explorerAddressUrl(b.mint)} target="_blank" rel="noopener noreferrer">
+                      {b.name}
+                    </a>{" "}
+                    <span className="gray">{shortAddress(b.mint)}</span>
+                    {b.source === "webhook" && (
+                      <span className="gray"> · recorded from chain</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="historyColumn">
+              <h3 className="violet">⬆ Upgrade targets</h3>
+              {g.targets.length === 0 && (
+                <span className="gray">No upgrade target recorded.</span>
+              )}
+              {g.targets.map((t) => (
+                <div key={t.mint} className="historyTarget flex">
+                  <img src={t.image || "/images/nftPlaceholder.png"} alt={t.name} />
+                  <div className="flex">
+                    <a href={explorerAddressUrl(t.mint)} target="_blank" rel="noopener noreferrer">
+                      {t.name}
+                    </a>
+                    <span className={`statusBadge ${t.upgradeStatus}`}>{t.upgradeStatus}</span>
+                    {t.upgradeSignature && (
+                      <a href={explorerTxUrl(t.upgradeSignature)} target="_blank" rel="noopener noreferrer">
+                        Upgrade tx ↗
+                      </a>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </section>
+      ))}
+
+      {!loading && !error && groups.length === 0 && (
+        <div className="emptyState flex">
+          <span>No burns recorded for this wallet yet.</span>
+          <Link href="/">Start burning →</Link>
+        </div>
+      )}
+
+      {loading && (
+        <div className="loadingState flex">
+          <div className="spinner"></div>
+          <span>Loading…</span>
+        </div>
+      )}
+
+      {total > PAGE_SIZE && (
+        <div className="historyPager flex">
+          <button
+            className="backButton"
+            disabled={page <= 1 || loading}
+            onClick={() => setPage((p) => p - 1)}
+          >
+            ← Prev
+          </button>
+          <span>
+            Page {page} / {pageCount} · {total} transactions
+          </span>
+          <button
+            className="backButton"
+            disabled={page >= pageCount || loading}
+            onClick={() => setPage((p) => p + 1)}
+          >
+            Next →
+          </button>
+        </div>
+      )}
+    </main>
+  );
+}
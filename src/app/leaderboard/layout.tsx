@@ -0,0 +1,14 @@
+import type { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Devils · Leaderboard",
+  description: "De Evils burned, upgrades applied and the holders burning the most.",
+};
+
+export default function LeaderboardLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return children;
+}
@@ -0,0 +1,247 @@
+"use client";
+import "./leaderboard.scss";
+import { useState, useEffect, useMemo, FormEvent } from "react";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { useWalletSession } from "@/hooks/useWalletSession";
+import { ApiClient, createApiClient } from "@/lib/apiClient";
+import { shortAddress } from "@/lib/explorer";
+import { CollectionStats, LeaderboardEntry } from "@/types";
+
+const DAYS = 30;
+const publicApi = createApiClient(fetch);
+
+interface ProfileDraft {
+  visible: boolean;
+  displayName: string;
+  showAddress: boolean;
+}
+
+export default function Leaderboard() {
+  const { connected, publicKey } = useWallet();
+  const { authFetch } = useWalletSession();
+  const walletApi = useMemo(() => createApiClient(authFetch), [authFetch]);
+
+  const [stats, setStats] = useState<CollectionStats | null>(null);
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      const [statsRes, boardRes] = await Promise.all([
+        publicApi.stats(DAYS),
+        publicApi.leaderboard(),
+      ]);
+      if (statsRes.ok) setStats(statsRes.data.stats ?? null);
+      if (boardRes.ok) setEntries(boardRes.data.entries ?? []);
+      if (!statsRes.ok) setError(statsRes.error);
+      else if (!boardRes.ok) setError(boardRes.error);
+      setLoading(false);
+    })();
+  }, []);
+
+  const busiestDay = Math.max(...(stats?.burnsPerDay.map((d) => d.burns) ?? [0]), 1);
+
+  return (
+    <main className="leaderboard flex">
+      <h2>Burn Leaderboard</h2>
+
+      {error && <div className="leaderboardError">⚠️ {error}</div>}
+
+      {loading && (
+        <div className="loadingState flex">
+          <div className="spinner"></div>
+          <span>Loading…</span>
+        </div>
+      )}
+
+      {stats && (
+        <>
+          <div className="statCards flex">
+            <div className="statCard flex">
+              <span className="statValue">{stats.totalBurned.toLocaleString()}</span>
+              <span className="statLabel">NFTs burned</span>
+            </div>
+            <div className="statCard flex">
+              <span className="statValue">{stats.totalUpgrades.toLocaleString()}</span>
+              <span className="statLabel">Upgrades applied</span>
+            </div>
+            <div className="statCard flex">
+              <span className="statValue">{stats.burners.toLocaleString()}</span>
+              <span className="statLabel">Holders burning</span>
+            </div>
+          </div>
+
+          <section className="panel">
+            <h3>Burns per day · last {DAYS} days</h3>
+            <div className="dailyChart flex">
+              {stats.burnsPerDay.map((d) => (
+                <div
+                  key={d.date}
+                  className="dailyBar"
+                  style={{ height: `${(d.burns / busiestDay) * 100}%` }}
+                  title={`${d.date}: ${d.burns} burns`}
+                />
+              ))}
+            </div>
+          </section>
+
+          {stats.topTraits.length > 0 && (
+            <section className="panel">
+              <h3>Most-upgraded traits</h3>
+              <ol className="traitList">
+                {stats.topTraits.map((t) => (
+                  <li key={`${t.trait_type}:${t.value}`}>
+                    <span className="gray">{t.trait_type}</span> {t.value}
+                    <span className="count">{t.upgrades}</span>
+                  </li>
+                ))}
+              </ol>
+            </section>
+          )}
+        </>
+      )}
+
+      <section className="panel">
+        <h3>Top burners</h3>
+        <table className="leaderboardTable">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Holder</th>
+              <th>Burns</th>
+              <th>Upgrades</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((e, i) => (
+              <tr
+                key={`${e.rank}-${i}`}
+                className={
+                  e.walletAddress && e.walletAddress === publicKey?.toBase58()
+                    ? "you"
+                    : undefined
+                }
+              >
+                <td>{e.rank}</td>
+                <td>
+                  {e.displayName}
+                  {e.displayName && e.walletAddress && " "}
+                  {e.walletAddress && (
+                    <span className="gray">{shortAddress(e.walletAddress)}</span>
+                  )}
+                </td>
+                <td>{e.burns}</td>
+                <td>{e.upgrades}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {!loading && entries.length === 0 && (
+          <div className="emptyState flex">
+            <span>No holders have joined the leaderboard yet.</span>
+          </div>
+        )}
+        <p className="gray footnote">
+          Only holders who opt in are listed. Everyone&apos;s burns count
+          towards the totals above.
+        </p>
+      </section>
+
+      {connected && <ProfileListing key={publicKey?.toBase58()} walletApi={walletApi} />}
+    </main>
+  );
+}
+
+// The connected wallet's opt-in; keyed on the wallet, so switching starts afresh
+function ProfileListing({ walletApi }: { walletApi: ApiClient }) {
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [profileNotice, setProfileNotice] = useState<string | null>(null);
+
+  // Asks the wallet to sign in if it has no session yet
+  const editProfile = async () => {
+    setProfileError(null);
+    const res = await walletApi.leaderboardProfile();
+    if (!res.ok) {
+      setProfileError(res.error);
+      return;
+    }
+    const profile = res.data.profile;
+    setDraft({
+      visible: profile?.visible ?? false,
+      displayName: profile?.displayName ?? "",
+      showAddress: profile?.showAddress ?? true,
+    });
+  };
+
+  const saveProfile = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    setSaving(true);
+    setProfileError(null);
+    setProfileNotice(null);
+    const res = await walletApi.saveLeaderboardProfile({
+      visible: draft.visible,
+      showAddress: draft.showAddress,
+      ...(draft.displayName.trim() && { displayName: draft.displayName.trim() }),
+    });
+    setSaving(false);
+    if (!res.ok) {
+      setProfileError(res.error);
+      return;
+    }
+    // The public board is cached for a few minutes
+    setProfileNotice(
+      draft.visible
+        ? "Saved — you'll appear on the leaderboard within a few minutes."
+        : "Saved — you'll be removed from the leaderboard within a few minutes.",
+    );
+  };
+
+  return (
+    <section className="panel">
+      <h3>Your listing</h3>
+      {!draft ? (
+        <button onClick={editProfile}>Manage my listing</button>
+      ) : (
+        <form className="profileForm flex" onSubmit={saveProfile}>
+          <label className="flex">
+            <input
+              type="checkbox"
+              checked={draft.visible}
+              onChange={(e) => setDraft({ ...draft, visible: e.target.checked })}
+            />
+            <span>Show me on the leaderboard</span>
+          </label>
+          <label className="flex">
+            <input
+              type="checkbox"
+              checked={draft.showAddress}
+              disabled={!draft.visible}
+              onChange={(e) => setDraft({ ...draft, showAddress: e.target.checked })}
+            />
+            <span>Show my wallet address</span>
+          </label>
+          <label className="flex">
+            <span>Display name</span>
+            <input
+              type="text"
+              maxLength={32}
+              value={draft.displayName}
+              disabled={!draft.visible}
+              placeholder={draft.showAddress ? "Optional" : "Required"}
+              onChange={(e) => setDraft({ ...draft, displayName: e.target.value })}
+            />
+          </label>
+          <button type="submit" disabled={saving}>
+            {saving ? "Saving…" : "Save"}
+          </button>
+        </form>
+      )}
+      {profileError && <div className="leaderboardError">⚠️ {profileError}</div>}
+      {profileNotice && <div className="leaderboardNotice">{profileNotice}</div>}
+    </section>
+  );
+}
@@ -1,42 +1,92 @@
 "use client";
 import "./page.scss";
+import Link from "next/link";
 import { useState, useEffect } from "react";
 import { useWallet } from "@solana/wallet-adapter-react";
 import type { WalletName } from "@solana/wallet-adapter-base";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
 import { useNFTs } from "@/hooks/useNFTs";
 import { useBurnNFT } from "@/hooks/useBurnNFT";
+import { useUpgradeRules } from "@/hooks/useUpgradeRules";
+import {
+  BurnPairings,
+  assignBurn,
+  burnsByTarget,
+  isEligibleBurn,
+  isEligibleTarget,
+  isPairingComplete,
+  maxUpgradesForInventory,
+  reconcilePairings,
+} from "@/lib/upgradeRules";
+import NFTGrid, { Thumbnail } from "@/components/nftGrid/nftGrid";
 import { NFT } from "@/types";
 
+const formatSol = (lamports: number) =>
+  (lamports / LAMPORTS_PER_SOL).toLocaleString(undefined, {
+    maximumFractionDigits: 6,
+  });
+
 export default function Home() {
   const { connected, publicKey, wallets, select, connect } = useWallet();
-  const { nfts, loading, lockedMints, refetch } = useNFTs();
+  const { nfts, loading, loadingMore, lockedMints, refetch } = useNFTs();
+  const {
+    recipe,
+    campaign,
+    upgradesUsed,
+    refetch: refetchRules,
+  } = useUpgradeRules();
   const {
     burnMultipleNFTs,
+    simulateBurns,
+    simulating,
+    simulation,
     burning,
     status,
     error: burnError,
     progress,
     txSignatures,
+    recordResults,
+    pendingCount,
   } = useBurnNFT();
 
   const [mounted, setMounted] = useState(false);
   const [step, setStep] = useState(0);
   const [burnSelections, setBurnSelections] = useState<NFT[]>([]);
   const [upgradeSelections, setUpgradeSelections] = useState<NFT[]>([]);
+  // Which target each burn feeds — chosen by the user, sent as-is
+  const [pairings, setPairings] = useState<BurnPairings>({});
+  const [dragOverTarget, setDragOverTarget] = useState<string | null>(null);
   const [burnComplete, setBurnComplete] = useState(false);
+  // Burned by a confirm that then failed — they cannot be burned or checked again
+  const [burnedMints, setBurnedMints] = useState<Set<string>>(new Set());
   const [connectWalletClicked, setConnectWalletClicked] = useState(false);
 
   useEffect(() => {
     setMounted(true);
   }, []);
 
-  // NFTs available for burning (exclude those locked as upgrade targets)
-  const burnableNFTs = nfts.filter((n) => !lockedMints.has(n.mint));
-  const maxBurnCount = Math.floor(burnableNFTs.length / 2);
-  const remainingNFTs = nfts.filter(
+  // NFTs not already locked as upgrade targets; the recipe decides the rest
+  const availableNFTs = nfts.filter((n) => !lockedMints.has(n.mint));
+  const burnsPerUpgrade = recipe.burnsPerUpgrade;
+  const maxBurnCount =
+    campaign === null
+      ? 0 // no campaign open — the server would refuse the batch
+      : maxUpgradesForInventory(recipe, availableNFTs, upgradesUsed) *
+        burnsPerUpgrade;
+  const upgradeCount = Math.floor(burnSelections.length / burnsPerUpgrade);
+  const burnByMint = new Map(burnSelections.map((n) => [n.mint, n]));
+  const burnMints = new Set(burnByMint.keys());
+  const upgradeMints = new Set(upgradeSelections.map((n) => n.mint));
+  const pairedBurns = burnsByTarget(pairings, upgradeSelections);
+  const pairingComplete =
+    upgradeSelections.length === upgradeCount &&
+    isPairingComplete(pairings, burnSelections, upgradeSelections, burnsPerUpgrade);
+  // When the server stored the burns, not when this screen rendered
+  const recordedAt = recordResults.find((r) => r.burntAt)?.burntAt;
+  const remainingNFTs = availableNFTs.filter(
     (n) =>
       !burnSelections.some((b) => b.mint === n.mint) &&
-      !lockedMints.has(n.mint),
+      isEligibleTarget(recipe, n),
   );
 
   // Auto-advance when wallet connects, reset when it disconnects
@@ -46,58 +96,109 @@ export default function Home() {
       setStep(0);
       setBurnSelections([]);
       setUpgradeSelections([]);
+      setPairings({});
       setBurnComplete(false);
+      setBurnedMints(new Set());
     }
   }, [connected, step, burning]);
 
+  // Keeps the user's pairings that still fit; new burns fill open targets
+  const changeSelections = (burns: NFT[], upgrades: NFT[]) => {
+    setBurnSelections(burns);
+    setUpgradeSelections(upgrades);
+    setPairings(reconcilePairings(pairings, burns, upgrades, burnsPerUpgrade));
+  };
+
   const toggleBurnSelection = (nft: NFT) => {
     if (burning) return;
     if (lockedMints.has(nft.mint)) return; // server-side locked
-    setBurnSelections((prev) => {
-      const exists = prev.some((n) => n.mint === nft.mint);
-      if (exists) return prev.filter((n) => n.mint !== nft.mint);
-      if (prev.length >= maxBurnCount) return prev;
-      return [...prev, nft];
-    });
+    if (!isEligibleBurn(recipe, nft)) return;
+    const exists = burnSelections.some((n) => n.mint === nft.mint);
+    if (exists) {
+      changeSelections(burnSelections.filter((n) => n.mint !== nft.mint), upgradeSelections);
+    } else if (burnSelections.length < maxBurnCount) {
+      changeSelections([...burnSelections, nft], upgradeSelections);
+    }
+  };
+
+  // Adds the filtered NFTs that can be burned, in display order, up to the cap
+  const selectMatchingBurns = (matching: NFT[]) => {
+    if (burning) return;
+    const chosen = new Set(burnSelections.map((n) => n.mint));
+    const additions = matching.filter(
+      (n) =>
+        !chosen.has(n.mint) &&
+        !lockedMints.has(n.mint) &&
+        isEligibleBurn(recipe, n),
+    );
+    changeSelections(
+      [...burnSelections, ...additions].slice(0, Math.max(maxBurnCount, burnSelections.length)),
+      upgradeSelections,
+    );
   };
 
   const toggleUpgradeSelection = (nft: NFT) => {
     if (burning) return;
     // Never allow selecting a burn-target as upgrade-target
     if (burnSelections.some((b) => b.mint === nft.mint)) return;
-    setUpgradeSelections((prev) => {
-      const exists = prev.some((n) => n.mint === nft.mint);
-      if (exists) return prev.filter((n) => n.mint !== nft.mint);
-      if (prev.length >= burnSelections.length) return prev;
-      return [...prev, nft];
-    });
+    const exists = upgradeSelections.some((n) => n.mint === nft.mint);
+    if (exists) {
+      changeSelections(burnSelections, upgradeSelections.filter((n) => n.mint !== nft.mint));
+    } else if (upgradeSelections.length < upgradeCount) {
+      changeSelections(burnSelections, [...upgradeSelections, nft]);
+    }
+  };
+
+  const pairBurn = (burnedMint: string, targetMint: string) => {
+    if (burning || !burnByMint.has(burnedMint)) return;
+    setPairings((prev) => assignBurn(prev, burnedMint, targetMint, burnsPerUpgrade));
+  };
+
+  // Simulate before the review step can confirm — nothing is signed yet
+  const openReview = () => {
+    setStep(3);
+    simulateBurns(burnSelections, pairings);
   };
 
   const handleConfirm = async () => {
+    if (!simulation?.ok) return;
     const confirmed = window.confirm(
       `You are about to permanently burn ${burnSelections.length} NFT${burnSelections.length > 1 ? "s" : ""}. This action is IRREVERSIBLE.\n\nAre you sure you want to continue?`,
     );
     if (!confirmed) return;
-    const result = await burnMultipleNFTs(burnSelections, upgradeSelections);
+    const result = await burnMultipleNFTs(
+      burnSelections,
+      upgradeSelections,
+      pairings,
+    );
     if (result.success) {
       // setStep(step + 1);
       setBurnComplete(true);
+    } else if (result.burnedMints.length > 0) {
+      // Re-simulating would fail on the burned NFTs — show them instead
+      setBurnedMints(new Set(result.burnedMints));
+    } else {
+      // Nothing went through — check the selection against the chain again
+      simulateBurns(burnSelections, pairings);
     }
   };
 
   const handleStartOver = () => {
     setBurnSelections([]);
     setUpgradeSelections([]);
+    setPairings({});
     setBurnComplete(false);
+    setBurnedMints(new Set());
     setStep(1);
     refetch(); // reload NFTs + locked mints from chain & DB
+    refetchRules(); // upgrades used counts towards the per-wallet cap
   };
 
   const handleBack = () => {
     if (step === 2) {
-      setUpgradeSelections([]);
+      changeSelections(burnSelections, []);
       setStep(1);
-    } else if (step === 3 && !burning && !burnComplete) {
+    } else if (step === 3 && !burning && !burnComplete && burnedMints.size === 0) {
       setStep(2);
     }
   };
@@ -208,6 +309,30 @@ export default function Home() {
             Choose up to <span className="red">{maxBurnCount}</span> NFTs. This
             action is <span className="red">permanent and irreversible.</span>
           </h3>
+          {campaign === null && (
+            <h3 className="helvetica">
+              <span className="red">No burn campaign is open right now.</span>
+            </h3>
+          )}
+          {campaign && (
+            <h3 className="helvetica">
+              {campaign.name} closes{" "}
+              {new Date(campaign.closesAt).toLocaleString()}.
+            </h3>
+          )}
+          {pendingCount > 0 && (
+            <h3 className="helvetica">
+              Recording <span className="highlight">{pendingCount}</span>{" "}
+              earlier burn batch{pendingCount === 1 ? "" : "es"}…
+            </h3>
+          )}
+          {burnsPerUpgrade > 1 && (
+            <h3 className="helvetica">
+              {recipe.name}: every{" "}
+              <span className="highlight">{burnsPerUpgrade}</span> burns
+              upgrade 1 NFT.
+            </h3>
+          )}
           {loading ? (
             <div className="loadingState flex">
               <div className="spinner"></div>
@@ -222,39 +347,30 @@ export default function Home() {
               <div className="selectionCount">
                 {burnSelections.length} / {maxBurnCount} selected
               </div>
-              <div className="nftGrid flex">
-                {nfts.map((nft) => {
-                  const isLocked = lockedMints.has(nft.mint);
-                  const isSelected = burnSelections.some(
-                    (n) => n.mint === nft.mint,
-                  );
-                  const isFull =
-                    isLocked ||
-                    (!isSelected && burnSelections.length >= maxBurnCount);
-                  return (
-                    <div
-                      key={nft.mint}
-                      className={`nftCard flex ${isSelected ? "toBurn" : ""} ${isFull ? "full" : ""}`}
-                      onClick={() => !isFull && toggleBurnSelection(nft)}
-                    >
-                      <div className="nftCardBoderBox flex">
-                        {isLocked && (
-                          <div className="lockBadge flex">
-                            🔒 Upgrade pending
-                          </div>
-                        )}
-                        <img
-                          src={nft.image || "/images/nftPlaceholder.png"}
-                          alt={nft.name}
-                        />
-                        <span className="nftName">{nft.name}</span>
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
+              {loadingMore && (
+                <h3 className="helvetica">
+                  Loaded {nfts.length} NFTs so far — loading the rest…
+                </h3>
+              )}
+              <NFTGrid
+                nfts={nfts}
+                selectedMints={burnMints}
+                selectedClassName="toBurn"
+                isDisabled={(nft) =>
+                  lockedMints.has(nft.mint) ||
+                  !isEligibleBurn(recipe, nft) ||
+                  burnSelections.length >= maxBurnCount
+                }
+                onToggle={toggleBurnSelection}
+                onSelectMatching={selectMatchingBurns}
+                badge={(nft) =>
+                  lockedMints.has(nft.mint) && (
+                    <div className="lockBadge flex">🔒 Upgrade pending</div>
+                  )
+                }
+              />
               <button
-                className={`burnGradBG burnButton ${burnSelections.length === 0 ? "hidden" : ""}`}
+                className={`burnGradBG burnButton ${burnSelections.length === 0 || burnSelections.length % burnsPerUpgrade !== 0 ? "hidden" : ""}`}
                 onClick={() => setStep(2)}
               >
                 Burn
@@ -267,43 +383,96 @@ export default function Home() {
         <div className={`tab tab3 flex ${step === 2 ? "" : "hidden"}`}>
           <h2>Select NFTs to Upgrade</h2>
           <h3 className="helvetica">
-            Choose <span className="highlight">{burnSelections.length}</span>{" "}
-            NFTs from your remaining collection to upgrade.
+            Choose <span className="highlight">{upgradeCount}</span> NFTs
+            from your remaining collection to upgrade.
           </h3>
           <div className="selectionCount">
-            {upgradeSelections.length} / {burnSelections.length} selected
+            {upgradeSelections.length} / {upgradeCount} selected
           </div>
-          <div className="nftGrid flex">
-            {remainingNFTs.map((nft) => {
-              const isSelected = upgradeSelections.some(
-                (n) => n.mint === nft.mint,
-              );
-              const isFull =
-                !isSelected &&
-                upgradeSelections.length >= burnSelections.length;
-              return (
-                <div
-                  key={nft.mint}
-                  className={`nftCard flex ${isSelected ? "toUpgrade" : ""} ${isFull ? "full" : ""}`}
-                  onClick={() => !isFull && toggleUpgradeSelection(nft)}
-                >
-                  <div className="nftCardBoderBox flex">
-                    <img
-                      src={nft.image || "/images/nftPlaceholder.png"}
-                      alt={nft.name}
-                    />
-                    <span className="nftName">{nft.name}</span>
+          <NFTGrid
+            nfts={remainingNFTs}
+            collection={nfts}
+            selectedMints={upgradeMints}
+            selectedClassName="toUpgrade"
+            isDisabled={() => upgradeSelections.length >= upgradeCount}
+            onToggle={toggleUpgradeSelection}
+          />
+          {upgradeCount > 0 && upgradeSelections.length === upgradeCount && (
+            <div className="pairingBoard flex">
+              <h3 className="helvetica">
+                Drag each burn onto the NFT it should upgrade
+                {burnsPerUpgrade > 1 && (
+                  <>
+                    {" "}
+                    — <span className="highlight">{burnsPerUpgrade}</span> per
+                    upgrade
+                  </>
+                )}
+                .
+              </h3>
+              {upgradeSelections.map((target) => {
+                const paired = pairedBurns.get(target.mint) ?? [];
+                return (
+                  <div
+                    key={target.mint}
+                    className={`pairingTarget flex ${dragOverTarget === target.mint ? "dragOver" : ""}`}
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDragOverTarget(target.mint);
+                    }}
+                    onDragLeave={() => setDragOverTarget(null)}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      pairBurn(e.dataTransfer.getData("text/plain"), target.mint);
+                      setDragOverTarget(null);
+                    }}
+                  >
+                    <div className="pairingTargetInfo flex">
+                      <Thumbnail nft={target} sizes="2.5rem" />
+                      <span className="violet">⬆ {target.name}</span>
+                      <span className="gray">
+                        {paired.length} / {burnsPerUpgrade}
+                      </span>
+                    </div>
+                    <div className="pairingBurns flex">
+                      {paired.map((mint) => {
+                        const burn = burnByMint.get(mint)!;
+                        return (
+                          <div
+                            key={mint}
+                            className="pairingChip flex"
+                            draggable
+                            onDragStart={(e) =>
+                              e.dataTransfer.setData("text/plain", mint)
+                            }
+                          >
+                            <Thumbnail nft={burn} sizes="1.75rem" />
+                            <span className="red">🔥 {burn.name}</span>
+                            {upgradeSelections.length > 1 && (
+                              <select
+                                value={target.mint}
+                                aria-label={`Upgrade target for ${burn.name}`}
+                                onChange={(e) => pairBurn(mint, e.target.value)}
+                              >
+                                {upgradeSelections.map((t) => (
+                                  <option key={t.mint} value={t.mint}>
+                                    {t.name}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
                   </div>
-                </div>
-              );
-            })}
-          </div>
-          {/* <button className="backButton" onClick={handleBack}>
-            ← Back
-          </button> */}
+                );
+              })}
+            </div>
+          )}
           <button
-            className={`upgradeGradBG upgradeButton ${upgradeSelections.length !== burnSelections.length ? "hidden" : ""}`}
-            onClick={() => setStep(3)}
+            className={`upgradeGradBG upgradeButton ${!pairingComplete ? "hidden" : ""}`}
+            onClick={openReview}
           >
             Upgrade
           </button>
@@ -316,8 +485,8 @@ export default function Home() {
               <h1>✓</h1>
               <h2>Upgrade Recorded</h2>
               <h3 className="helvetica">
-                Your selections have been saved. The team will apply upgrades
-                offline.
+                Your selections have been saved and are pending review. Upgrades
+                are applied once the team approves them.
               </h3>
               <div className="NFTSummaryBox flex">
                 <h3 className="title">UPGRADE SUMMARY</h3>
@@ -343,14 +512,32 @@ export default function Home() {
                       Upgrade Target{" "}
                       {upgradeSelections.length > 1 ? `#${i + 1}` : ""}
                     </h3>
-                    <h3 className="violet">{nft.name}</h3>
+                    <h3 className="violet">
+                      {nft.name}
+                      <span className="gray">
+                        {" ← "}
+                        {(pairedBurns.get(nft.mint) ?? [])
+                          .map((m) => burnByMint.get(m)?.name)
+                          .join(", ")}
+                      </span>
+                    </h3>
                   </span>
                 ))}
                 <span className="NFTSummaryLine flex">
                   <h3>Timestamp</h3>
-                  <h3 className="gray">{new Date().toLocaleString()}</h3>
+                  <h3 className="gray">
+                    {recordedAt ? new Date(recordedAt).toLocaleString() : "—"}
+                  </h3>
                 </span>
               </div>
+              <div className="navButtons flex">
+                <Link href="/history" className="backButton">
+                  View my burns
+                </Link>
+                <button className="confirmButton" onClick={handleStartOver}>
+                  Burn more
+                </button>
+              </div>
             </>
           ) : (
             <>
@@ -392,6 +579,100 @@ export default function Home() {
                       Transaction IDs: {txSignatures.join(", ")}
                     </span>
                   )}
+                  {recordResults.length > 0 && (
+                    <div className="recordResults flex">
+                      {recordResults.map((r) => {
+                        const name =
+                          burnSelections.find((n) => n.mint === r.mint)?.name ??
+                          `${r.mint.slice(0, 8)}…`;
+                        const ok =
+                          r.status === "recorded" ||
+                          r.status === "already_recorded";
+                        return (
+                          <span key={r.mint} className={ok ? "recorded" : ""}>
+                            {ok ? "✓" : "✗"} {name}
+                            {ok ? " — recorded" : ` — ${r.error ?? r.code}`}
+                          </span>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {burnedMints.size > 0 && (
+                <div className="preflightBox failed flex">
+                  <span>
+                    {burnedMints.size} of {burnSelections.length} NFTs were
+                    burned on-chain:
+                  </span>
+                  <span>
+                    {burnSelections
+                      .filter((n) => burnedMints.has(n.mint))
+                      .map((n) => n.name)
+                      .join(", ")}
+                  </span>
+                  <span className="gray">
+                    Start over to continue with what is left in your wallet.
+                  </span>
+                </div>
+              )}
+
+              {!burning && burnedMints.size === 0 && (simulating || simulation) && (
+                <div
+                  className={`preflightBox flex ${simulation && !simulation.ok ? "failed" : ""}`}
+                >
+                  {simulating ? (
+                    <>
+                      <div className="spinner"></div>
+                      <span>Simulating your burn transactions…</span>
+                    </>
+                  ) : simulation?.ok ? (
+                    <>
+                      <span>
+                        Estimated network fee:{" "}
+                        <span className="highlight">
+                          {formatSol(simulation.feeLamports)} SOL
+                        </span>{" "}
+                        across {simulation.chunks.length} transaction
+                        {simulation.chunks.length === 1 ? "" : "s"}
+                      </span>
+                      {simulation.rentReclaimedLamports > 0 && (
+                        <span>
+                          Rent returned to your wallet:{" "}
+                          <span className="highlight">
+                            {formatSol(simulation.rentReclaimedLamports)} SOL
+                          </span>
+                        </span>
+                      )}
+                    </>
+                  ) : (
+                    simulation && (
+                      <>
+                        <span>⚠️ {simulation.error}</span>
+                        {simulation.chunks
+                          .filter((c) => c.error)
+                          .map((c) => (
+                            <span key={c.mints.join()}>
+                              {c.mints
+                                .map((m) => burnByMint.get(m)?.name ?? m)
+                                .join(", ")}
+                              : {c.error}
+                            </span>
+                          ))}
+                        <span className="gray">
+                          Nothing has been signed. Fix the problem, then check
+                          again.
+                        </span>
+                        <button
+                          className="backButton"
+                          onClick={() => simulateBurns(burnSelections, pairings)}
+                        >
+                          Check again
+                        </button>
+                      </>
+                    )
+                  )}
                 </div>
               )}
 
@@ -404,9 +685,9 @@ export default function Home() {
                     {burnSelections.map((nft) => (
                       <div key={nft.mint} className="reviewCard toBurn flex">
                         <div className="reviewCardBorderContainer flex">
-                          <img
-                            src={nft.image || "/images/nftPlaceholder.png"}
-                            alt={nft.name}
+                          <Thumbnail
+                            nft={nft}
+                            sizes="(max-width: 768px) 35vw, 14vw"
                           />
                           <span className="reviewCardName">{nft.name}</span>
                         </div>
@@ -422,11 +703,17 @@ export default function Home() {
                     {upgradeSelections.map((nft) => (
                       <div key={nft.mint} className="reviewCard toUpgrade flex">
                         <div className="reviewCardBorderContainer flex">
-                          <img
-                            src={nft.image || "/images/nftPlaceholder.png"}
-                            alt={nft.name}
+                          <Thumbnail
+                            nft={nft}
+                            sizes="(max-width: 768px) 35vw, 14vw"
                           />
                           <span className="reviewCardName">{nft.name}</span>
+                          <span className="reviewCardPairs">
+                            🔥{" "}
+                            {(pairedBurns.get(nft.mint) ?? [])
+                              .map((m) => burnByMint.get(m)?.name)
+                              .join(", ")}
+                          </span>
                         </div>
                       </div>
                     ))}
@@ -439,17 +726,23 @@ export default function Home() {
                   <button
                     className="backButton"
                     onClick={handleBack}
-                    disabled={burning}
+                    disabled={burning || burnedMints.size > 0}
                   >
                     ← Back
                   </button>
-                  <button
-                    className="confirmButton"
-                    onClick={handleConfirm}
-                    disabled={burning}
-                  >
-                    {burning ? "Burning…" : "🔥 Confirm & Burn"}
-                  </button>
+                  {burnedMints.size > 0 ? (
+                    <button className="confirmButton" onClick={handleStartOver}>
+                      Start over
+                    </button>
+                  ) : (
+                    <button
+                      className="confirmButton"
+                      onClick={handleConfirm}
+                      disabled={burning || simulating || !simulation?.ok}
+                    >
+                      {burning ? "Burning…" : "🔥 Confirm & Burn"}
+                    </button>
+                  )}
                 </div>
               )}
             </>
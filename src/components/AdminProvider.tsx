@@ -0,0 +1,89 @@
+'use client';
+
+import { FC, FormEvent, ReactNode, createContext, useCallback, useState, useSyncExternalStore } from 'react';
+
+const STORAGE_KEY = 'devils_admin_key';
+
+const readStoredKey = () =>
+  typeof window === 'undefined' ? null : sessionStorage.getItem(STORAGE_KEY);
+
+// False on the server and while hydrating, true from then on
+const subscribeNever = () => () => {};
+const useHydrated = () => useSyncExternalStore(subscribeNever, () => true, () => false);
+
+export interface AdminApi {
+  adminFetch: (input: string, init?: RequestInit) => Promise<Response>;
+  signOut: () => void;
+}
+
+export const AdminContext = createContext<AdminApi | null>(null);
+
+interface Props {
+  children: ReactNode;
+}
+
+/**
+ * Gate for the /admin area. Asks for an admin API key (see ADMIN_API_KEYS),
+ * keeps it in sessionStorage so it is dropped when the tab closes, and sends
+ * it as a Bearer token. A 401 from any admin route signs the operator out.
+ */
+export const AdminProvider: FC<Props> = ({ children }) => {
+  const [apiKey, setApiKey] = useState<string | null>(readStoredKey);
+  const [draft, setDraft] = useState('');
+  // The server has no sessionStorage, so it cannot know which of the two to render
+  const hydrated = useHydrated();
+
+  const signOut = useCallback(() => {
+    sessionStorage.removeItem(STORAGE_KEY);
+    setApiKey(null);
+  }, []);
+
+  const adminFetch = useCallback(
+    async (input: string, init?: RequestInit): Promise<Response> => {
+      const res = await fetch(input, {
+        ...init,
+        headers: { ...init?.headers, Authorization: `Bearer ${apiKey}` },
+      });
+      if (res.status === 401) signOut();
+      return res;
+    },
+    [apiKey, signOut],
+  );
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const key = draft.trim();
+    if (!key) return;
+    sessionStorage.setItem(STORAGE_KEY, key);
+    setApiKey(key);
+    setDraft('');
+  };
+
+  if (!hydrated) return null;
+
+  if (!apiKey) {
+    return (
+      <main className="admin flex">
+        <form className="adminLogin flex" onSubmit={handleSubmit}>
+          <h2>Admin</h2>
+          <input
+            type="password"
+            placeholder="Admin API key"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            autoFocus
+          />
+          <button type="submit">Sign in</button>
+        </form>
+      </main>
+    );
+  }
+
+  return (
+    <AdminContext.Provider value={{ adminFetch, signOut }}>
+      {children}
+    </AdminContext.Provider>
+  );
+};
+
+export default AdminProvider;
@@ -1,12 +1,16 @@
 'use client';
 
 import { FC } from 'react';
+import { ApiErrorCode } from '@/types';
 
 interface BurnModalProps {
   isOpen: boolean;
   nftName: string;
   status: string;
+  // From useBurnNFT — `complete` once every burn is recorded
+  complete: boolean;
   error: string | null;
+  errorCode?: ApiErrorCode | null;
   onClose: () => void;
 }
 
@@ -14,13 +18,17 @@ export const BurnModal: FC<BurnModalProps> = ({
   isOpen, 
   nftName, 
   status, 
+  complete,
   error,
+  errorCode,
   onClose 
 }) => {
   if (!isOpen) return null;
 
-  const isComplete = status.includes('✅') || status.includes('successfully');
+  const isComplete = complete && !error;
   const canClose = isComplete || error;
+  // Burned on-chain, but only some of the batch is recorded
+  const isPartial = errorCode === 'partially_recorded';
 
   return (
     <div className="fixed inset-0 bg-black/95 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
@@ -47,7 +55,7 @@ export const BurnModal: FC<BurnModalProps> = ({
             </div>
             <div className="flex-1">
               <h2 className="text-2xl font-bold text-white mb-1">
-                {isComplete ? 'Burn Complete!' : error ? 'Burn Failed' : 'Burning NFT'}
+                {isComplete ? 'Burn Complete!' : isPartial ? 'Partly Recorded' : error ? 'Burn Failed' : 'Burning NFT'}
               </h2>
               <p className="text-sm text-zinc-400">NFT Destruction</p>
             </div>
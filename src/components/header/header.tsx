@@ -50,6 +50,10 @@ export default function Header() {
             <div className="tagline">Upgrade Portal · Solana</div>
           </h1>
         </Link>
+        <nav className="headerNav flex">
+          <Link href="/history">My burns</Link>
+          <Link href="/leaderboard">Leaderboard</Link>
+        </nav>
         <button className="wallet-button" disabled>
           Loading...
         </button>
@@ -68,6 +72,11 @@ export default function Header() {
           </h1>
         </Link>
 
+        <nav className="headerNav flex">
+          <Link href="/history">My burns</Link>
+          <Link href="/leaderboard">Leaderboard</Link>
+        </nav>
+
         {connected && publicKey ? (
           <div className="wallet-address-container">
             <div className="wallet-status-indicator"></div>
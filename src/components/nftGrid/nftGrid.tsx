@@ -0,0 +1,378 @@
+"use client";
+import "./nftGrid.scss";
+import Image from "next/image";
+import { useState, useEffect, useMemo, useRef, ReactNode } from "react";
+import { explorerAddressUrl, shortAddress } from "@/lib/explorer";
+import { isOptimizableImage } from "@/lib/imageHosts";
+import {
+  NFTSort,
+  TraitFilters,
+  matchesSearch,
+  matchesTraits,
+  rarityScores,
+  sortNFTs,
+  traitFacets,
+} from "@/lib/nftTraits";
+import { NFT } from "@/types";
+
+interface NFTGridProps {
+  nfts: NFT[];
+  // Rarity and trait frequencies are measured against these; defaults to `nfts`
+  collection?: NFT[];
+  selectedMints: Set<string>;
+  selectedClassName: "toBurn" | "toUpgrade";
+  isDisabled: (nft: NFT) => boolean;
+  onToggle: (nft: NFT) => void;
+  // Shows "Select all matching" and receives the visible NFTs in display order
+  onSelectMatching?: (nfts: NFT[]) => void;
+  badge?: (nft: NFT) => ReactNode;
+}
+
+interface GridLayout {
+  columns: number;
+  rowStride: number; // card height + row gap
+  rowGap: number;
+  viewport: number;
+}
+
+// Only rows near the viewport are rendered; these bound the rest
+const OVERSCAN_ROWS = 2;
+const INITIAL_CARDS = 24;
+
+const PLACEHOLDER = "/images/nftPlaceholder.png";
+
+export function Thumbnail({ nft, sizes }: { nft: NFT; sizes: string }) {
+  const src = nft.image || PLACEHOLDER;
+  return (
+    <Image
+      src={src}
+      alt={nft.name}
+      width={400}
+      height={400}
+      sizes={sizes}
+      // Hosts outside next.config's remotePatterns are loaded as-is
+      unoptimized={!isOptimizableImage(src)}
+    />
+  );
+}
+
+const SORT_LABELS: Record<NFTSort, string> = {
+  wallet: "Wallet order",
+  name: "Name",
+  number: "Number",
+  rarity: "Rarity",
+};
+
+export default function NFTGrid({
+  nfts,
+  collection = nfts,
+  selectedMints,
+  selectedClassName,
+  isDisabled,
+  onToggle,
+  onSelectMatching,
+  badge,
+}: NFTGridProps) {
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<NFTSort>("wallet");
+  const [filters, setFilters] = useState<TraitFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [detail, setDetail] = useState<NFT | null>(null);
+  const [layout, setLayout] = useState<GridLayout | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const rowsRef = useRef<HTMLDivElement>(null);
+
+  const scores = useMemo(() => rarityScores(collection), [collection]);
+  // 1 = rarest; equal scores share a rank
+  const ranks = useMemo(() => {
+    const rankOf = new Map<number, number>();
+    [...scores.values()]
+      .sort((a, b) => b - a)
+      .forEach((score, i) => !rankOf.has(score) && rankOf.set(score, i + 1));
+    return new Map([...scores.entries()].map(([mint, score]) => [mint, rankOf.get(score)!]));
+  }, [scores]);
+  const frequency = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const facet of traitFacets(collection)) {
+      for (const v of facet.values) counts.set(`${facet.trait_type}:${v.value}`, v.count);
+    }
+    return counts;
+  }, [collection]);
+  const facets = useMemo(() => traitFacets(nfts), [nfts]);
+
+  const visible = useMemo(
+    () =>
+      sortNFTs(
+        nfts.filter((n) => matchesSearch(n, query) && matchesTraits(n, filters)),
+        sort,
+        scores,
+      ),
+    [nfts, query, filters, sort, scores],
+  );
+
+  const activeFilters = Object.entries(filters).flatMap(([trait_type, values]) =>
+    values.map((value) => ({ trait_type, value })),
+  );
+  const isFiltered = query.trim() !== "" || activeFilters.length > 0;
+
+  // A new search, filter or sort starts from the top
+  const scrollToTop = () => {
+    gridRef.current?.scrollTo({ top: 0 });
+    setScrollTop(0);
+  };
+
+  const changeQuery = (value: string) => {
+    setQuery(value);
+    scrollToTop();
+  };
+
+  const changeSort = (value: NFTSort) => {
+    setSort(value);
+    scrollToTop();
+  };
+
+  const toggleFilter = (trait_type: string, value: string) => {
+    scrollToTop();
+    setFilters((prev) => {
+      const values = prev[trait_type] ?? [];
+      const next = {
+        ...prev,
+        [trait_type]: values.includes(value)
+          ? values.filter((v) => v !== value)
+          : [...values, value],
+      };
+      if (next[trait_type].length === 0) delete next[trait_type];
+      return next;
+    });
+  };
+
+  const clearFilters = () => {
+    setQuery("");
+    setFilters({});
+    scrollToTop();
+  };
+
+  // Columns and row height come from the first rendered card. Cards are a
+  // fixed size per breakpoint, so one card stands for all of them. The
+  // observer also reports the grid's size as soon as it starts observing.
+  const hasCards = visible.length > 0;
+  useEffect(() => {
+    const grid = gridRef.current;
+    if (!grid || !hasCards) return;
+    const measure = () => {
+      const rows = rowsRef.current;
+      const card = rows?.firstElementChild as HTMLElement | null;
+      // Nothing to measure while the step is hidden
+      if (!rows || !card || card.offsetHeight === 0) return;
+      const style = getComputedStyle(rows);
+      const columnGap = parseFloat(style.columnGap) || 0;
+      const rowGap = parseFloat(style.rowGap) || 0;
+      setLayout({
+        columns: Math.max(
+          Math.floor((rows.clientWidth + columnGap) / (card.offsetWidth + columnGap)),
+          1,
+        ),
+        rowStride: card.offsetHeight + rowGap,
+        rowGap,
+        viewport: grid.clientHeight,
+      });
+    };
+    const observer = new ResizeObserver(measure);
+    observer.observe(grid);
+    return () => observer.disconnect();
+  }, [hasCards]);
+
+  const rowCount = layout ? Math.ceil(visible.length / layout.columns) : 0;
+  const firstRow = layout
+    ? Math.max(Math.floor(scrollTop / layout.rowStride) - OVERSCAN_ROWS, 0)
+    : 0;
+  const lastRow = layout
+    ? Math.min(
+        Math.ceil((scrollTop + layout.viewport) / layout.rowStride) + OVERSCAN_ROWS,
+        rowCount,
+      )
+    : 0;
+  const rendered = layout
+    ? visible.slice(firstRow * layout.columns, lastRow * layout.columns)
+    : visible.slice(0, INITIAL_CARDS);
+
+  // Escape closes the drawer
+  useEffect(() => {
+    if (!detail) return;
+    const onKey = (e: KeyboardEvent) => e.key === "Escape" && setDetail(null);
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [detail]);
+
+  return (
+    <>
+      <div className="nftToolbar flex">
+        <input
+          type="search"
+          className="nftSearch"
+          placeholder="Search name or trait…"
+          value={query}
+          onChange={(e) => changeQuery(e.target.value)}
+        />
+        <select value={sort} onChange={(e) => changeSort(e.target.value as NFTSort)}>
+          {(Object.keys(SORT_LABELS) as NFTSort[]).map((s) => (
+            <option key={s} value={s}>
+              Sort: {SORT_LABELS[s]}
+            </option>
+          ))}
+        </select>
+        {facets.length > 0 && (
+          <button
+            className={`filterToggle ${showFilters ? "open" : ""}`}
+            onClick={() => setShowFilters((s) => !s)}
+          >
+            Traits{activeFilters.length > 0 && ` (${activeFilters.length})`}
+          </button>
+        )}
+        {onSelectMatching && isFiltered && visible.length > 0 && (
+          <button className="selectMatching" onClick={() => onSelectMatching(visible)}>
+            Select all matching
+          </button>
+        )}
+        <span className="matchCount">
+          {visible.length} / {nfts.length}
+        </span>
+      </div>
+
+      {showFilters && (
+        <div className="traitFilters flex">
+          {facets.map((facet) => (
+            <details key={facet.trait_type} open={!!filters[facet.trait_type]}>
+              <summary>{facet.trait_type}</summary>
+              {facet.values.map((v) => (
+                <label key={v.value} className="flex">
+                  <input
+                    type="checkbox"
+                    checked={filters[facet.trait_type]?.includes(v.value) ?? false}
+                    onChange={() => toggleFilter(facet.trait_type, v.value)}
+                  />
+                  <span>{v.value}</span>
+                  <span className="gray">{v.count}</span>
+                </label>
+              ))}
+            </details>
+          ))}
+        </div>
+      )}
+
+      {isFiltered && (
+        <div className="activeFilters flex">
+          {activeFilters.map((f) => (
+            <button
+              key={`${f.trait_type}:${f.value}`}
+              className="filterChip"
+              onClick={() => toggleFilter(f.trait_type, f.value)}
+            >
+              {f.trait_type}: {f.value} ✕
+            </button>
+          ))}
+          <button className="clearFilters" onClick={clearFilters}>
+            Clear all
+          </button>
+        </div>
+      )}
+
+      <div
+        ref={gridRef}
+        className="nftGrid flex"
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        {visible.length === 0 && (
+          <div className="emptyState flex">
+            <span>No NFTs match these filters.</span>
+          </div>
+        )}
+        <div
+          className="nftGridWindow"
+          style={layout ? { height: rowCount * layout.rowStride - layout.rowGap } : undefined}
+        >
+          <div
+            ref={rowsRef}
+            className="nftGridRows flex"
+            style={
+              layout
+                ? { transform: `translateY(${firstRow * layout.rowStride}px)` }
+                : undefined
+            }
+          >
+            {rendered.map((nft) => {
+              const isSelected = selectedMints.has(nft.mint);
+              const isFull = !isSelected && isDisabled(nft);
+              return (
+                <div
+                  key={nft.mint}
+                  className={`nftCard flex ${isSelected ? selectedClassName : ""} ${isFull ? "full" : ""}`}
+                  onClick={() => !isFull && onToggle(nft)}
+                >
+                  <div className="nftCardBoderBox flex">
+                    {badge?.(nft)}
+                    {(nft.attributes?.length ?? 0) > 0 && (
+                      <span className="rarityRank">#{ranks.get(nft.mint)}</span>
+                    )}
+                    <button
+                      className="nftInfoButton"
+                      title="Details"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setDetail(nft);
+                      }}
+                    >
+                      ⓘ
+                    </button>
+                    <Thumbnail nft={nft} sizes="(max-width: 768px) 45vw, 22vw" />
+                    <span className="nftName">{nft.name}</span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {detail && (
+        <div className="nftDrawerOverlay" onClick={() => setDetail(null)}>
+          <aside className="nftDrawer flex" onClick={(e) => e.stopPropagation()}>
+            <button className="nftDrawerClose" onClick={() => setDetail(null)}>
+              ✕
+            </button>
+            <Thumbnail nft={detail} sizes="26rem" />
+            <h3>{detail.name}</h3>
+            <a href={explorerAddressUrl(detail.mint)} target="_blank" rel="noopener noreferrer">
+              {shortAddress(detail.mint)} ↗
+            </a>
+            {(detail.attributes?.length ?? 0) > 0 && (
+              <span className="gray">
+                Rarity rank {ranks.get(detail.mint)} of {collection.length} in
+                your wallet
+              </span>
+            )}
+            {detail.description && <p className="gray">{detail.description}</p>}
+            <ul className="nftAttributes">
+              {(detail.attributes ?? []).map((a) => {
+                const count = frequency.get(`${a.trait_type}:${a.value}`) ?? 0;
+                return (
+                  <li key={a.trait_type} className="flex">
+                    <span className="gray">{a.trait_type}</span>
+                    <span>{a.value}</span>
+                    <span className="gray">
+                      {Math.round((count / collection.length) * 100)}%
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+            {!detail.attributes?.length && (
+              <span className="gray">This NFT has no attributes.</span>
+            )}
+          </aside>
+        </div>
+      )}
+    </>
+  );
+}
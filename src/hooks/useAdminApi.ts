@@ -0,0 +1,11 @@
+'use client';
+
+import { useContext } from 'react';
+import { AdminContext } from '@/components/AdminProvider';
+
+/** Authenticated fetch for admin routes; only usable below <AdminProvider>. */
+export const useAdminApi = () => {
+  const api = useContext(AdminContext);
+  if (!api) throw new Error('useAdminApi must be used inside <AdminProvider>');
+  return api;
+};
@@ -0,0 +1,128 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { ApiErrorCode, BurnRecordResult, JournalEntry } from '@/types';
+import { useWalletSession } from '@/hooks/useWalletSession';
+import { createApiClient } from '@/lib/apiClient';
+import { deleteJournalEntry, listJournalEntries, putJournalEntry } from '@/lib/burnJournal';
+
+const RECORD_ATTEMPTS = 3;
+
+// Failures that may clear up on their own; any other code is final
+const RETRYABLE: ApiErrorCode[] = [
+  'network_error',
+  'invalid_response',
+  'internal_error',
+  'not_configured',
+  'rate_limited',
+  'sign_in_required',
+  'idempotency_in_progress', // our own earlier attempt is still running
+];
+
+export type JournalOutcome =
+  | { status: 'recorded'; results: BurnRecordResult[] }
+  // Some burns were recorded; the rest carry a code in `results`
+  | { status: 'partial'; code: ApiErrorCode; error: string; results: BurnRecordResult[] }
+  // The server will never accept this batch — reconciliation picks it up
+  | { status: 'rejected'; code: ApiErrorCode; error: string; results: BurnRecordResult[] }
+  // Still journaled; retried on the next visit and by the server sweeper
+  | { status: 'queued'; code: ApiErrorCode; error: string };
+
+// Shared across hook instances so a batch is never submitted twice at once
+const inFlight = new Set<string>();
+
+/**
+ * Records journaled burn batches. `recordEntry` hands a batch to the server
+ * intake (`pending_burns`), then records it, and drops it from IndexedDB once
+ * it is settled. Batches left over from an earlier visit are resubmitted
+ * whenever their wallet connects.
+ */
+export const useBurnJournal = () => {
+  const { publicKey } = useWallet();
+  const { authFetch } = useWalletSession();
+  const api = useMemo(() => createApiClient(authFetch), [authFetch]);
+  const [pendingCount, setPendingCount] = useState(0);
+
+  const recordEntry = useCallback(
+    async (entry: JournalEntry): Promise<JournalOutcome> => {
+      if (inFlight.has(entry.id)) {
+        return { status: 'queued', code: 'idempotency_in_progress', error: 'Already being recorded' };
+      }
+      inFlight.add(entry.id);
+
+      try {
+        // 1. Server-side copy first, so the sweeper can finish the job
+        // (if it fails, recording below may still succeed; otherwise we retry next visit)
+        if (!entry.intakeAt) {
+          const intake = await api.intakePendingBurn(entry.request);
+          if (intake.ok) {
+            entry = { ...entry, intakeAt: new Date().toISOString() };
+            await putJournalEntry(entry);
+          }
+        }
+
+        // 2. Record, retrying transient failures
+        let lastCode: ApiErrorCode = 'network_error';
+        let lastError = 'Failed to record';
+        for (let attempt = 1; attempt <= RECORD_ATTEMPTS; attempt++) {
+          // Same key on every attempt — a replay returns the original response
+          const result = await api.recordBurns(entry.request, entry.id);
+          if (result.ok) {
+            await deleteJournalEntry(entry.id);
+            return { status: 'recorded', results: result.data.results ?? [] };
+          }
+          lastCode = result.code;
+          lastError = result.error;
+
+          if (!RETRYABLE.includes(result.code)) {
+            await deleteJournalEntry(entry.id);
+            return {
+              // The valid subset is in; the rest will not change on retry
+              status: result.code === 'partially_recorded' ? 'partial' : 'rejected',
+              code: result.code,
+              error: result.error,
+              results: result.data?.results ?? [],
+            };
+          }
+          if (attempt < RECORD_ATTEMPTS) await new Promise((r) => setTimeout(r, 1000));
+        }
+
+        await putJournalEntry({ ...entry, lastError });
+        return { status: 'queued', code: lastCode, error: lastError };
+      } finally {
+        inFlight.delete(entry.id);
+      }
+    },
+    [api],
+  );
+
+  // Resubmit anything left over from an earlier visit for this wallet
+  useEffect(() => {
+    if (!publicKey) {
+      setPendingCount(0);
+      return;
+    }
+    let cancelled = false;
+
+    (async () => {
+      const entries = await listJournalEntries(publicKey.toBase58());
+      if (cancelled) return;
+      setPendingCount(entries.length);
+
+      for (const entry of entries) {
+        if (cancelled) return;
+        const outcome = await recordEntry(entry).catch(() => null);
+        if (outcome && outcome.status !== 'queued') {
+          setPendingCount((n) => Math.max(n - 1, 0));
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [publicKey, recordEntry]);
+
+  return { recordEntry, pendingCount };
+};
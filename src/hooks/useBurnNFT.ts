@@ -2,11 +2,17 @@
 
 import { useState, useCallback } from 'react';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { PublicKey, TransactionError } from '@solana/web3.js';
 import { createUmi } from '@metaplex-foundation/umi-bundle-defaults';
 import { mplCore, burnV1, fetchAssetV1 } from '@metaplex-foundation/mpl-core';
-import { publicKey, transactionBuilder } from '@metaplex-foundation/umi';
+import { Umi, publicKey, transactionBuilder } from '@metaplex-foundation/umi';
 import { walletAdapterIdentity } from '@metaplex-foundation/umi-signer-wallet-adapters';
-import { NFT } from '@/types';
+import { toWeb3JsTransaction } from '@metaplex-foundation/umi-web3js-adapters';
+import { ApiErrorCode, BurnRecordResult, JournalEntry, NFT } from '@/types';
+import { useWalletSession } from '@/hooks/useWalletSession';
+import { useBurnJournal } from '@/hooks/useBurnJournal';
+import { buildBurnBatch, putJournalEntry } from '@/lib/burnJournal';
+import { BurnPairings } from '@/lib/upgradeRules';
 import bs58 from 'bs58';
 
 const COLLECTION_ADDRESS = process.env.NEXT_PUBLIC_COLLECTION_ADDRESS || '';
@@ -18,117 +24,275 @@ interface MultiBurnResult {
   success: boolean;
   signatures: string[];
   burnedCount: number;
+  // Burned on-chain, recorded or not — these can no longer be burned or simulated
+  burnedMints: string[];
   error?: string;
+  // Set when recording failed; `partially_recorded` means some NFTs are in
+  code?: ApiErrorCode;
+  // Per-NFT recording outcome, once the server has answered
+  recordResults?: BurnRecordResult[];
+}
+
+/** "2 of 3 NFTs were recorded" style summary of a partly recorded batch. */
+function describePartial(results: BurnRecordResult[]): string {
+  const settled = results.filter((r) => r.status === 'recorded' || r.status === 'already_recorded');
+  return `${settled.length} of ${results.length} NFTs were recorded; ${results.length - settled.length} need attention`;
+}
+
+export interface ChunkSimulation {
+  mints: string[];
+  feeLamports: number;
+  // Lamports the burned asset accounts hand back to the wallet
+  rentReclaimedLamports: number;
+  error?: string;
+}
+
+export interface BurnSimulation {
+  ok: boolean;
+  chunks: ChunkSimulation[];
+  feeLamports: number;
+  rentReclaimedLamports: number;
+  balanceLamports: number;
+  error?: string;
+}
+
+interface BurnItem {
+  nft: NFT;
+  params: { asset: ReturnType<typeof publicKey>; collection?: ReturnType<typeof publicKey> };
+}
+
+/** Burn params for each NFT, after checking the asset still exists on-chain. */
+async function prepareBurnItems(umi: Umi, nftsToBurn: NFT[]): Promise<BurnItem[]> {
+  const burnItems: BurnItem[] = [];
+
+  for (const nft of nftsToBurn) {
+    const mintPk = publicKey(nft.mint);
+
+    // Verify the asset exists on-chain
+    try {
+      await fetchAssetV1(umi, mintPk);
+    } catch {
+      throw new Error(`NFT "${nft.name}" not found — it may have already been burned.`);
+    }
+
+    const params: BurnItem['params'] = {
+      asset: mintPk,
+    };
+
+    // If collection address is set, include it for collection-level burns
+    if (COLLECTION_ADDRESS) {
+      params.collection = publicKey(COLLECTION_ADDRESS);
+    }
+
+    burnItems.push({ nft, params });
+  }
+
+  return burnItems;
+}
+
+/**
+ * Batch burns into transactions. Burns feeding the same target share a
+ * transaction where they fit, so a failed transaction does not split an
+ * upgrade's group.
+ */
+function chunkBurnItems(burnItems: BurnItem[], pairings: BurnPairings): BurnItem[][] {
+  const groups = new Map<string, BurnItem[]>();
+  for (const item of burnItems) {
+    const key = pairings[item.nft.mint] ?? '';
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+  const chunks: BurnItem[][] = [];
+  for (const group of groups.values()) {
+    for (let i = 0; i < group.length; i += BURNS_PER_TX) {
+      const part = group.slice(i, i + BURNS_PER_TX);
+      const last = chunks[chunks.length - 1];
+      if (last && last.length + part.length <= BURNS_PER_TX) last.push(...part);
+      else chunks.push(part);
+    }
+  }
+  return chunks;
+}
+
+function burnChunkBuilder(umi: Umi, chunk: BurnItem[]) {
+  let builder = transactionBuilder();
+  for (const { params } of chunk) {
+    builder = builder.add(burnV1(umi, params));
+  }
+  return builder;
+}
+
+/** A readable reason for a failed simulation, preferring the program's own log line. */
+function describeSimulationError(err: TransactionError, logs: string[] | null): string {
+  if (err === 'AccountNotFound') return 'Your wallet has no SOL to pay network fees';
+  if (err === 'InsufficientFundsForFee') return 'Not enough SOL to pay the network fee';
+  const reason = [...(logs ?? [])].reverse().find((l) => /error|failed/i.test(l));
+  return reason?.replace(/^Program log: /, '') ?? JSON.stringify(err);
 }
 
 export const useBurnNFT = () => {
   const { connection } = useConnection();
   const wallet = useWallet();
+  const { ensureSession } = useWalletSession();
+  const { recordEntry, pendingCount } = useBurnJournal();
   const [burning, setBurning] = useState(false);
   const [status, setStatus] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [errorCode, setErrorCode] = useState<ApiErrorCode | null>(null);
+  const [complete, setComplete] = useState(false);
   const [progress, setProgress] = useState({ current: 0, total: 0 });
   const [txSignatures, setTxSignatures] = useState<string[]>([]);
-
-  /** Record burns + upgrade selections to the database (with retries). */
-  async function recordBurns(
-    walletAddress: string,
-    burned: NFT[],
-    upgradeTargets: NFT[],
-    burnToSig: Map<string, string>,
-    allSigs: string[],
-  ): Promise<boolean> {
-    const burns = burned.map((nft) => ({
-      mintAddress: nft.mint,
-      transactionSignature: burnToSig.get(nft.mint) || allSigs[0],
-      name: nft.name,
-    }));
-
-    // Match each burned NFT to its upgrade target by index
-    const upgrades = burned.map((burnNft, i) => ({
-      burnedMint: burnNft.mint,
-      upgradeMint: upgradeTargets[i]?.mint || '',
-      upgradeName: upgradeTargets[i]?.name || '',
-    }));
-
-    let retries = 3;
-    while (retries > 0) {
+  const [recordResults, setRecordResults] = useState<BurnRecordResult[]>([]);
+  const [simulating, setSimulating] = useState(false);
+  const [simulation, setSimulation] = useState<BurnSimulation | null>(null);
+
+  /**
+   * Build each transaction `burnMultipleNFTs` would send and simulate it, so
+   * failures (wrong authority, frozen asset, low SOL) show before the wallet
+   * is asked to sign. Nothing is signed or sent.
+   */
+  const simulateBurns = useCallback(
+    async (nftsToBurn: NFT[], pairings: BurnPairings): Promise<BurnSimulation> => {
+      const failed = (error: string): BurnSimulation => ({
+        ok: false,
+        chunks: [],
+        feeLamports: 0,
+        rentReclaimedLamports: 0,
+        balanceLamports: 0,
+        error,
+      });
+      if (!wallet.publicKey) return failed('Wallet not connected');
+
+      setSimulating(true);
+      setSimulation(null);
+
+      let result: BurnSimulation;
       try {
-        const res = await fetch('/api/burn-and-upgrade', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ walletAddress, burns, upgrades }),
-        });
-        const result = await res.json();
-        if (result.success) return true;
-        throw new Error(result.error || 'Failed to record');
-      } catch (e) {
-        retries--;
-        if (retries > 0) await new Promise((r) => setTimeout(r, 1000));
+        const umi = createUmi(connection.rpcEndpoint)
+          .use(mplCore())
+          .use(walletAdapterIdentity(wallet));
+
+        const chunks = chunkBurnItems(await prepareBurnItems(umi, nftsToBurn), pairings);
+        const simulated: ChunkSimulation[] = [];
+
+        for (const chunk of chunks) {
+          const tx = toWeb3JsTransaction(await burnChunkBuilder(umi, chunk).buildWithLatestBlockhash(umi));
+          const mints = chunk.map(({ nft }) => nft.mint);
+
+          const [fee, before, sim] = await Promise.all([
+            connection.getFeeForMessage(tx.message, 'confirmed'),
+            connection.getMultipleAccountsInfo(mints.map((m) => new PublicKey(m)), 'confirmed'),
+            connection.simulateTransaction(tx, {
+              sigVerify: false,
+              replaceRecentBlockhash: true,
+              commitment: 'confirmed',
+              accounts: { encoding: 'base64', addresses: mints },
+            }),
+          ]);
+
+          // What the asset accounts hold before minus after is paid back to the wallet
+          const reclaimed = sim.value.err
+            ? 0
+            : mints.reduce(
+                (sum, _, i) => sum + (before[i]?.lamports ?? 0) - (sim.value.accounts?.[i]?.lamports ?? 0),
+                0,
+              );
+
+          simulated.push({
+            mints,
+            feeLamports: fee.value ?? 0,
+            rentReclaimedLamports: Math.max(reclaimed, 0),
+            ...(sim.value.err && { error: describeSimulationError(sim.value.err, sim.value.logs) }),
+          });
+        }
+
+        const feeLamports = simulated.reduce((sum, c) => sum + c.feeLamports, 0);
+        const balanceLamports = await connection.getBalance(wallet.publicKey, 'confirmed');
+        const failedAt = simulated.findIndex((c) => c.error);
+
+        let error: string | undefined;
+        if (failedAt >= 0) {
+          error = `Batch ${failedAt + 1} of ${simulated.length} would fail: ${simulated[failedAt].error}`;
+        } else if (balanceLamports < feeLamports) {
+          error = 'Not enough SOL in your wallet to pay the network fees';
+        }
+
+        result = {
+          ok: !error,
+          chunks: simulated,
+          feeLamports,
+          rentReclaimedLamports: simulated.reduce((sum, c) => sum + c.rentReclaimedLamports, 0),
+          balanceLamports,
+          ...(error && { error }),
+        };
+      } catch (err: any) {
+        result = failed(err.message || 'Could not simulate the burn');
       }
-    }
-    return false;
-  }
+
+      setSimulation(result);
+      setSimulating(false);
+      return result;
+    },
+    [wallet, connection],
+  );
 
   const burnMultipleNFTs = useCallback(
     async (
       nftsToBurn: NFT[],
       upgradeTargets: NFT[],
+      pairings: BurnPairings,
     ): Promise<MultiBurnResult> => {
       if (!wallet.publicKey || !wallet.signTransaction) {
-        return { success: false, signatures: [], burnedCount: 0, error: 'Wallet not connected' };
+        return { success: false, signatures: [], burnedCount: 0, burnedMints: [], error: 'Wallet not connected' };
       }
 
       setBurning(true);
       setError(null);
+      setErrorCode(null);
+      setComplete(false);
+      setRecordResults([]);
       setProgress({ current: 0, total: nftsToBurn.length });
 
+      const signatures: string[] = [];
+      const successfullyBurned: NFT[] = [];
       try {
+        // Sign in before burning so recording never waits on a wallet prompt
+        setStatus('Sign the message in your wallet to verify ownership…');
+        await ensureSession();
+
         const umi = createUmi(connection.rpcEndpoint)
           .use(mplCore())
           .use(walletAdapterIdentity(wallet));
 
         // ── 1. Prepare burn params for MPL Core Assets ──
         setStatus(`Preparing ${nftsToBurn.length} NFTs for burning…`);
-
-        const burnItems: Array<{
-          nft: NFT;
-          params: { asset: ReturnType<typeof publicKey>; collection?: ReturnType<typeof publicKey> };
-        }> = [];
-
-        for (const nft of nftsToBurn) {
-          const mintPk = publicKey(nft.mint);
-
-          // Verify the asset exists on-chain
-          try {
-            await fetchAssetV1(umi, mintPk);
-          } catch {
-            throw new Error(`NFT "${nft.name}" not found — it may have already been burned.`);
-          }
-
-          const params: any = {
-            asset: mintPk,
-          };
-
-          // If collection address is set, include it for collection-level burns
-          if (COLLECTION_ADDRESS) {
-            params.collection = publicKey(COLLECTION_ADDRESS);
-          }
-
-          burnItems.push({ nft, params });
-        }
+        const burnItems = await prepareBurnItems(umi, nftsToBurn);
 
         // ── 2. Batch burns into transactions ──
-        const chunks: typeof burnItems[] = [];
-        for (let i = 0; i < burnItems.length; i += BURNS_PER_TX) {
-          chunks.push(burnItems.slice(i, i + BURNS_PER_TX));
-        }
+        const chunks = chunkBurnItems(burnItems, pairings);
 
-        const signatures: string[] = [];
         const burnToSignature = new Map<string, string>();
-        const successfullyBurned: NFT[] = [];
         let burnedSoFar = 0;
 
+        // Journal every confirmed batch before anything else can fail
+        const walletAddress = wallet.publicKey.toBase58();
+        const journal: JournalEntry = {
+          id: crypto.randomUUID(),
+          walletAddress,
+          request: { walletAddress, burns: [], upgrades: [] },
+          createdAt: new Date().toISOString(),
+        };
+        const updateJournal = async () => {
+          journal.request = buildBurnBatch(
+            journal.id,
+            walletAddress,
+            successfullyBurned,
+            upgradeTargets,
+            pairings,
+            burnToSignature,
+          );
+          await putJournalEntry(journal);
+        };
+
         for (let ci = 0; ci < chunks.length; ci++) {
           const chunk = chunks[ci];
           setStatus(
@@ -136,12 +300,7 @@ export const useBurnNFT = () => {
           );
 
           try {
-            let builder = transactionBuilder();
-            for (const { params } of chunk) {
-              builder = builder.add(burnV1(umi, params));
-            }
-
-            const { signature: sig } = await builder.sendAndConfirm(umi, {
+            const { signature: sig } = await burnChunkBuilder(umi, chunk).sendAndConfirm(umi, {
               confirm: { commitment: 'confirmed' },
             });
             const signature = bs58.encode(sig);
@@ -154,22 +313,24 @@ export const useBurnNFT = () => {
 
             burnedSoFar += chunk.length;
             setProgress({ current: burnedSoFar, total: nftsToBurn.length });
+            await updateJournal();
           } catch (batchErr: any) {
             // If some batches already succeeded, record them before surfacing the error
             if (successfullyBurned.length > 0) {
               setStatus(`Batch ${ci + 1} failed — recording ${successfullyBurned.length} already-burned NFTs…`);
-              await recordBurns(
-                wallet.publicKey!.toBase58(),
-                successfullyBurned,
-                upgradeTargets,
-                burnToSignature,
-                signatures,
+              const outcome = await recordEntry(journal);
+              const remaining = `${nftsToBurn.length - successfullyBurned.length} remaining NFTs were NOT burned.`;
+              if (outcome.status !== 'queued') setRecordResults(outcome.results);
+              if (outcome.status !== 'recorded') setErrorCode(outcome.code);
+              throw new Error(
+                outcome.status === 'recorded'
+                  ? `${successfullyBurned.length} NFTs were burned and recorded. ${remaining}`
+                  : outcome.status === 'partial'
+                    ? `${successfullyBurned.length} NFTs were burned; ${describePartial(outcome.results)}. ${remaining}`
+                    : `${successfullyBurned.length} NFTs were burned but not yet recorded (${outcome.error}). ${remaining}`,
               );
             }
-            const partial = successfullyBurned.length > 0
-              ? `${successfullyBurned.length} NFTs were burned and recorded. ${nftsToBurn.length - successfullyBurned.length} remaining NFTs were NOT burned.`
-              : batchErr.message || 'Transaction failed';
-            throw new Error(partial);
+            throw new Error(batchErr.message || 'Transaction failed');
           }
         }
 
@@ -186,40 +347,71 @@ export const useBurnNFT = () => {
         // ── 4. Record burns + upgrades in database ──
         setStatus('Recording burns and upgrade selections…');
 
-        const recorded = await recordBurns(
-          wallet.publicKey.toBase58(),
-          successfullyBurned,
-          upgradeTargets,
-          burnToSignature,
-          signatures,
-        );
+        const outcome = await recordEntry(journal);
 
         setTxSignatures(signatures);
-
-        if (!recorded) {
-          console.error('Failed to record burns after retries');
-          const recordingError = `NFTs burned on-chain but recording failed. Your transaction IDs: ${signatures.join(', ')}. Please contact support with these IDs.`;
+        const results = outcome.status === 'queued' ? undefined : outcome.results;
+        setRecordResults(results ?? []);
+
+        if (outcome.status !== 'recorded') {
+          console.error('Failed to record burns:', outcome.error);
+          const recordingError = outcome.status === 'queued'
+            ? `NFTs burned on-chain but recording is delayed (${outcome.error}). They are saved and will be recorded automatically — no need to burn again. Transaction IDs: ${signatures.join(', ')}`
+            : outcome.status === 'partial'
+              ? `NFTs burned on-chain, but ${describePartial(outcome.results)} — see below. Please contact support with these transaction IDs: ${signatures.join(', ')}`
+              : `NFTs burned on-chain but the burn was rejected: ${outcome.error}. Please contact support with these transaction IDs: ${signatures.join(', ')}`;
           setError(recordingError);
+          setErrorCode(outcome.code);
           return {
             success: false,
             signatures,
             burnedCount: successfullyBurned.length,
+            burnedMints: successfullyBurned.map((n) => n.mint),
             error: recordingError,
+            code: outcome.code,
+            recordResults: results,
           };
         }
 
         setStatus('✅ All NFTs burned and recorded successfully!');
-        return { success: true, signatures, burnedCount: successfullyBurned.length };
+        setComplete(true);
+        return {
+          success: true,
+          signatures,
+          burnedCount: successfullyBurned.length,
+          burnedMints: successfullyBurned.map((n) => n.mint),
+          recordResults: results,
+        };
       } catch (err: any) {
         const msg = err.message || 'Failed to burn NFTs';
         setError(msg);
-        return { success: false, signatures: [], burnedCount: 0, error: msg };
+        return {
+          success: false,
+          signatures,
+          burnedCount: successfullyBurned.length,
+          burnedMints: successfullyBurned.map((n) => n.mint),
+          error: msg,
+        };
       } finally {
         setBurning(false);
       }
     },
-    [wallet, connection],
+    [wallet, connection, ensureSession, recordEntry],
   );
 
-  return { burnMultipleNFTs, burning, status, error, progress, txSignatures };
+  return {
+    burnMultipleNFTs,
+    simulateBurns,
+    simulating,
+    simulation,
+    burning,
+    status,
+    error,
+    errorCode,
+    complete,
+    progress,
+    txSignatures,
+    recordResults,
+    pendingCount,
+  };
 };
@@ -1,26 +1,36 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { useConnection, useWallet } from '@solana/wallet-adapter-react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
 import { NFT } from '@/types';
-
-const COLLECTION_ADDRESS = process.env.NEXT_PUBLIC_COLLECTION_ADDRESS || '';
+import { useWalletSession } from '@/hooks/useWalletSession';
+import { createApiClient } from '@/lib/apiClient';
 
 /**
- * Fetch NFTs via Helius DAS API (getAssetsByOwner).
- * Works with ALL asset types including MPL Core Assets.
+ * Fetch the wallet's NFTs via /api/inventory, which queries the Helius DAS
+ * API (searchAssets) server-side. Works with ALL asset types including MPL
+ * Core Assets.
+ *
+ * Pages are streamed in: `loading` clears once the first page is shown and
+ * `loadingMore` stays set while later pages arrive.
  */
 export const useNFTs = () => {
-  const { connection } = useConnection();
   const { publicKey: walletPublicKey, connected } = useWallet();
   const [nfts, setNfts] = useState<NFT[]>([]);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lockedMints, setLockedMints] = useState<Set<string>>(new Set());
+  const { authFetch } = useWalletSession();
+  const api = useMemo(() => createApiClient(authFetch), [authFetch]);
+  // Bumped per load so a superseded load stops writing state
+  const loadId = useRef(0);
 
-  const fetchNFTs = useCallback(async () => {
+  const fetchNFTs = useCallback(async (refresh = false) => {
+    const id = ++loadId.current;
     if (!walletPublicKey || !connected) {
       setNfts([]);
+      setLoadingMore(false);
       return;
     }
 
@@ -28,115 +38,40 @@ export const useNFTs = () => {
     setError(null);
 
     try {
-      // Fetch mints that are locked (already selected as upgrade targets)
-      try {
-        const res = await fetch(`/api/locked-mints?wallet=${walletPublicKey.toBase58()}`);
-        if (res.ok) {
-          const data = await res.json();
-          if (data.success && Array.isArray(data.lockedMints)) {
-            setLockedMints(new Set(data.lockedMints));
-          }
-        }
-      } catch {
-        // Non-critical — continue without locked mints info
-      }
-
-      // Use the Helius DAS API via the RPC endpoint
-      const rpcEndpoint = connection.rpcEndpoint;
-      let page = 1;
-      let allItems: any[] = [];
-
-      // Paginate through all assets
-      while (true) {
-        const response = await fetch(rpcEndpoint, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            jsonrpc: '2.0',
-            id: 1,
-            method: 'getAssetsByOwner',
-            params: {
-              ownerAddress: walletPublicKey.toBase58(),
-              page,
-              limit: 1000,
-              displayOptions: {
-                showCollectionMetadata: false,
-              },
-            },
-          }),
-        });
-
-        const data = await response.json();
-
-        if (data.error) {
-          throw new Error(data.error.message || 'DAS API error');
-        }
-
-        const items = data.result?.items || [];
-        allItems = allItems.concat(items);
-
-        // If we got fewer than the limit, we've fetched everything
-        if (items.length < 1000) break;
-        page++;
+      // NFTs in the collection and the mints locked as upgrade targets, a
+      // page per call — the server reads DAS and caches each page briefly
+      const wallet = walletPublicKey.toBase58();
+      const loaded = new Map<string, NFT>();
+      for (let page = 1; ; page++) {
+        const result = await api.inventory(wallet, page, refresh);
+        if (id !== loadId.current) return;
+        if (!result.ok) throw new Error(result.error);
+
+        for (const nft of result.data.nfts ?? []) loaded.set(nft.mint, nft);
+        setNfts([...loaded.values()]);
+        setLockedMints(new Set(result.data.lockedMints ?? []));
+        setLoading(false);
+        setLoadingMore(!!result.data.hasMore);
+        if (!result.data.hasMore) break;
       }
-
-      console.log(`[useNFTs] Total assets from DAS API: ${allItems.length}`);
-
-      const nftList: NFT[] = [];
-
-      for (const item of allItems) {
-        try {
-          // Skip burned assets
-          if (item.burnt) continue;
-
-          // Filter by collection if specified
-          if (COLLECTION_ADDRESS) {
-            const grouping = item.grouping || [];
-            const collectionGroup = grouping.find(
-              (g: any) => g.group_key === 'collection'
-            );
-
-            if (!collectionGroup || collectionGroup.group_value !== COLLECTION_ADDRESS) {
-              continue;
-            }
-          }
-
-          const metadata = item.content?.metadata || {};
-          const name = metadata.name || `NFT ${item.id.slice(0, 8)}`;
-          const image =
-            item.content?.links?.image ||
-            item.content?.files?.[0]?.cdn_uri ||
-            item.content?.files?.[0]?.uri ||
-            '';
-          const description = metadata.description || '';
-          const attributes = metadata.attributes || [];
-
-          nftList.push({
-            mint: item.id,
-            name: name.trim(),
-            image,
-            description,
-            attributes,
-          });
-        } catch (err) {
-          // Skip this individual NFT if there's an error
-          console.warn('[useNFTs] Skipping asset:', item.id, err);
-        }
-      }
-
-      console.log(`[useNFTs] Matched NFTs: ${nftList.length}`);
-      setNfts(nftList);
+      console.log(`[useNFTs] Matched NFTs: ${loaded.size}`);
     } catch (err: any) {
       console.error('[useNFTs] Error:', err);
       setError(err.message || 'Failed to fetch NFTs');
     } finally {
-      setLoading(false);
+      if (id === loadId.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
     }
-  }, [walletPublicKey, connected, connection.rpcEndpoint]);
+  }, [walletPublicKey, connected, api]);
 
   useEffect(() => {
     fetchNFTs();
   }, [fetchNFTs]);
 
-  return { nfts, loading, lockedMints, refetch: fetchNFTs };
-};
\ No newline at end of file
+  // After a burn the cached inventory may predate it — skip the cache
+  const refetch = useCallback(() => fetchNFTs(true), [fetchNFTs]);
+
+  return { nfts, loading, loadingMore, lockedMints, refetch };
+};
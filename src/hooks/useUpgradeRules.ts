@@ -0,0 +1,51 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { BurnRecipe, Campaign, UpgradeRulesResponse } from '@/types';
+import { DEFAULT_RECIPE } from '@/lib/upgradeRules';
+import { ApiResult, createApiClient } from '@/lib/apiClient';
+import { useWalletSession } from '@/hooks/useWalletSession';
+
+/**
+ * The upgrade recipe and campaign the server is enforcing, plus how many
+ * upgrades the connected wallet has already used under the recipe.
+ */
+export const useUpgradeRules = () => {
+  const { publicKey, connected } = useWallet();
+  const { authFetch } = useWalletSession();
+  const api = useMemo(() => createApiClient(authFetch), [authFetch]);
+  const [recipe, setRecipe] = useState<BurnRecipe>(DEFAULT_RECIPE);
+  const [upgradesUsed, setUpgradesUsed] = useState(0);
+  // undefined until loaded; null when no campaign is open
+  const [campaign, setCampaign] = useState<Campaign | null | undefined>(undefined);
+
+  const applyRules = useCallback((result: ApiResult<UpgradeRulesResponse>) => {
+    if (!result.ok || !result.data.recipe) {
+      console.warn('[useUpgradeRules] Falling back to default recipe:', result.ok ? 'no recipe' : result.error);
+      return;
+    }
+    setRecipe(result.data.recipe);
+    setUpgradesUsed(result.data.upgradesUsed ?? 0);
+    setCampaign(result.data.campaign ?? null);
+  }, []);
+
+  const fetchRules = useCallback(async () => {
+    if (!publicKey || !connected) return;
+    applyRules(await api.upgradeRules());
+  }, [publicKey, connected, api, applyRules]);
+
+  useEffect(() => {
+    if (!publicKey || !connected) return;
+    // A reply for the previous wallet must not overwrite this one's rules
+    let cancelled = false;
+    api.upgradeRules().then((result) => {
+      if (!cancelled) applyRules(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [publicKey, connected, api, applyRules]);
+
+  return { recipe, campaign, upgradesUsed, refetch: fetchRules };
+};
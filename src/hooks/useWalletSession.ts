@@ -0,0 +1,117 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import bs58 from 'bs58';
+import { AuthNonceResponse, AuthSessionResponse } from '@/types';
+
+/** Re-sign when the session has less than this left. */
+const RENEW_MARGIN_MS = 60_000;
+
+// Shared across hook instances so useNFTs and useBurnNFT never prompt twice
+let knownSession: { walletAddress: string; expiresAt: number } | null = null;
+let signInInFlight: { walletAddress: string; promise: Promise<void> } | null = null;
+
+async function fetchCurrentSession(): Promise<AuthSessionResponse | null> {
+  const res = await fetch('/api/auth/session');
+  if (!res.ok) return null;
+  return res.json();
+}
+
+async function signIn(
+  walletAddress: string,
+  signMessage: (message: Uint8Array) => Promise<Uint8Array>,
+) {
+  const nonceRes = await fetch('/api/auth/nonce', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ walletAddress }),
+  });
+  const challenge: AuthNonceResponse = await nonceRes.json();
+  if (!challenge.success || !challenge.nonce || !challenge.message) {
+    throw new Error(challenge.error || 'Could not start sign-in');
+  }
+
+  const signature = await signMessage(new TextEncoder().encode(challenge.message));
+
+  const sessionRes = await fetch('/api/auth/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      walletAddress,
+      nonce: challenge.nonce,
+      signature: bs58.encode(signature),
+    }),
+  });
+  const session: AuthSessionResponse = await sessionRes.json();
+  if (!session.success || !session.expiresAt) {
+    throw new Error(session.error || 'Sign-in failed');
+  }
+
+  knownSession = { walletAddress, expiresAt: Date.parse(session.expiresAt) };
+}
+
+/**
+ * Wallet sign-in for the burn APIs. `authFetch` makes sure a session exists
+ * for the connected wallet (asking it to sign a message if not), and signs in
+ * again once if the server answers 401.
+ */
+export const useWalletSession = () => {
+  const { publicKey, signMessage } = useWallet();
+
+  const ensureSession = useCallback(async () => {
+    if (!publicKey) throw new Error('Wallet not connected');
+    const walletAddress = publicKey.toBase58();
+
+    if (
+      knownSession?.walletAddress === walletAddress
+      && knownSession.expiresAt - RENEW_MARGIN_MS > Date.now()
+    ) {
+      return;
+    }
+
+    if (signInInFlight?.walletAddress === walletAddress) {
+      return signInInFlight.promise;
+    }
+
+    const promise = (async () => {
+      // A cookie from an earlier visit may still be valid
+      const current = await fetchCurrentSession().catch(() => null);
+      if (
+        current?.success
+        && current.walletAddress === walletAddress
+        && current.expiresAt
+        && Date.parse(current.expiresAt) - RENEW_MARGIN_MS > Date.now()
+      ) {
+        knownSession = { walletAddress, expiresAt: Date.parse(current.expiresAt) };
+        return;
+      }
+
+      if (!signMessage) throw new Error('This wallet does not support message signing');
+      await signIn(walletAddress, signMessage);
+    })();
+
+    signInInFlight = { walletAddress, promise };
+    try {
+      await promise;
+    } finally {
+      if (signInInFlight?.promise === promise) signInInFlight = null;
+    }
+  }, [publicKey, signMessage]);
+
+  const authFetch = useCallback(
+    async (input: string, init?: RequestInit): Promise<Response> => {
+      await ensureSession();
+      const res = await fetch(input, init);
+      if (res.status !== 401) return res;
+
+      // Session expired or was revoked server-side — sign in again once
+      knownSession = null;
+      await ensureSession();
+      return fetch(input, init);
+    },
+    [ensureSession],
+  );
+
+  return { ensureSession, authFetch };
+};
@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server';
+import { createHash, timingSafeEqual } from 'crypto';
+
+/**
+ * Admin API keys are configured as comma-separated `operator:key` pairs, e.g.
+ *   ADMIN_API_KEYS=alice:4f1c…,bob:9ab2…
+ * The operator id is recorded against every status change made with that key.
+ */
+function loadAdminKeys(): Array<{ operator: string; digest: Buffer }> {
+  return (process.env.ADMIN_API_KEYS || '')
+    .split(',')
+    .map((pair) => pair.trim())
+    .filter(Boolean)
+    .map((pair) => {
+      const sep = pair.indexOf(':');
+      return sep === -1
+        ? null
+        : { operator: pair.slice(0, sep).trim(), key: pair.slice(sep + 1).trim() };
+    })
+    .filter((k): k is { operator: string; key: string } => !!k && !!k.operator && !!k.key)
+    .map(({ operator, key }) => ({ operator, digest: sha256(key) }));
+}
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Resolve the operator id for an admin request (`Authorization: Bearer <key>`).
+ * Returns null when the key is missing or unknown.
+ */
+export function getAdminOperator(request: NextRequest): string | null {
+  const header = request.headers.get('authorization') || '';
+  if (!header.startsWith('Bearer ')) return null;
+  const presented = sha256(header.slice('Bearer '.length).trim());
+
+  let operator: string | null = null;
+  // Compare against every key so timing doesn't reveal which one matched
+  for (const key of loadAdminKeys()) {
+    if (timingSafeEqual(key.digest, presented)) operator = key.operator;
+  }
+  return operator;
+}
+
+/**
+ * Scheduled jobs (Vercel Cron) authenticate with `Authorization: Bearer $CRON_SECRET`.
+ * Always false when CRON_SECRET is unset.
+ */
+export function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const header = request.headers.get('authorization') || '';
+  if (!secret || !header.startsWith('Bearer ')) return false;
+  return timingSafeEqual(sha256(secret), sha256(header.slice('Bearer '.length).trim()));
+}
@@ -0,0 +1,125 @@
+import {
+  ApiEnvelope,
+  ApiErrorCode,
+  BurnBatchRequest,
+  BurnBatchResponse,
+  HistoryResponse,
+  InventoryResponse,
+  LeaderboardProfileRequest,
+  LeaderboardProfileResponse,
+  LeaderboardResponse,
+  StatsResponse,
+  UpgradeRulesResponse,
+} from '@/types';
+
+export type ApiResult<T extends ApiEnvelope> =
+  | { ok: true; status: number; data: T }
+  // `data` is the parsed body when the server sent one (e.g. per-burn results)
+  | { ok: false; status: number; code: ApiErrorCode; error: string; data?: T };
+
+// `fetch`, or a wrapper such as useWalletSession's `authFetch`
+export type Fetcher = (input: string, init?: RequestInit) => Promise<Response>;
+
+// For responses that carry no envelope, e.g. a proxy's HTML error page
+function codeForStatus(status: number): ApiErrorCode {
+  if (status === 401) return 'sign_in_required';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 413) return 'payload_too_large';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'internal_error';
+  return 'invalid_request';
+}
+
+/**
+ * Call one of our API routes. `ok` mirrors the envelope's `success`, and
+ * every failure carries an ApiErrorCode — including network errors and
+ * bodies that are not JSON.
+ */
+export async function apiRequest<T extends ApiEnvelope>(
+  fetcher: Fetcher,
+  url: string,
+  init?: RequestInit,
+): Promise<ApiResult<T>> {
+  let res: Response;
+  try {
+    res = await fetcher(url, init);
+  } catch (e: any) {
+    return { ok: false, status: 0, code: 'network_error', error: e?.message || 'Network error' };
+  }
+
+  let data: T;
+  try {
+    data = await res.json();
+  } catch {
+    return {
+      ok: false,
+      status: res.status,
+      code: res.ok ? 'invalid_response' : codeForStatus(res.status),
+      error: `Unexpected response (HTTP ${res.status})`,
+    };
+  }
+
+  if (data?.success) return { ok: true, status: res.status, data };
+  return {
+    ok: false,
+    status: res.status,
+    code: data?.code ?? codeForStatus(res.status),
+    error: data?.error || `HTTP ${res.status}`,
+    data,
+  };
+}
+
+const json = (body: unknown, headers: Record<string, string> = {}): RequestInit => ({
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', ...headers },
+  body: JSON.stringify(body),
+});
+
+/** Typed calls to the wallet-facing and public routes, sent through `fetcher`. */
+export function createApiClient(fetcher: Fetcher) {
+  return {
+    recordBurns: (body: BurnBatchRequest, idempotencyKey?: string) =>
+      apiRequest<BurnBatchResponse>(
+        fetcher,
+        '/api/burn-and-upgrade',
+        json(body, idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+      ),
+
+    intakePendingBurn: (body: BurnBatchRequest) =>
+      apiRequest<ApiEnvelope>(fetcher, '/api/pending-burns', json(body)),
+
+    inventory: (wallet: string, page = 1, refresh = false) =>
+      apiRequest<InventoryResponse>(
+        fetcher,
+        `/api/inventory?wallet=${encodeURIComponent(wallet)}&page=${page}${refresh ? '&refresh=1' : ''}`,
+      ),
+
+    history: (wallet: string, page = 1, limit = 10) =>
+      apiRequest<HistoryResponse>(
+        fetcher,
+        `/api/history?wallet=${encodeURIComponent(wallet)}&page=${page}&limit=${limit}`,
+      ),
+
+    stats: (days = 30) =>
+      apiRequest<StatsResponse>(fetcher, `/api/stats?days=${days}`),
+
+    upgradeRules: () =>
+      apiRequest<UpgradeRulesResponse>(fetcher, '/api/upgrade-rules'),
+
+    leaderboard: (limit = 25) =>
+      apiRequest<LeaderboardResponse>(fetcher, `/api/leaderboard?limit=${limit}`),
+
+    leaderboardProfile: () =>
+      apiRequest<LeaderboardProfileResponse>(fetcher, '/api/leaderboard/profile'),
+
+    saveLeaderboardProfile: (body: LeaderboardProfileRequest) =>
+      apiRequest<LeaderboardProfileResponse>(
+        fetcher,
+        '/api/leaderboard/profile',
+        { ...json(body), method: 'PUT' },
+      ),
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
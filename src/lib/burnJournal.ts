@@ -0,0 +1,105 @@
+/**
+ * Client-side journal of burn batches that are confirmed on-chain but not yet
+ * recorded, kept in IndexedDB so it survives reloads, closed tabs and wallet
+ * reconnects. Every function degrades to a no-op where IndexedDB is missing
+ * (e.g. some private windows) — the server-side pending_burns copy still
+ * covers those.
+ */
+
+import { BurnBatchRequest, JournalEntry, NFT } from '@/types';
+import { BurnPairings } from '@/lib/upgradeRules';
+
+const DB_NAME    = 'devils';
+const DB_VERSION = 1;
+const STORE      = 'pending_burns';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('walletAddress', 'walletAddress');
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Let a later call try again instead of caching the failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T | undefined> {
+  try {
+    const db = await openDb();
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const req = fn(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } catch (err) {
+    console.warn('Burn journal unavailable:', err);
+    return undefined;
+  }
+}
+
+export async function putJournalEntry(entry: JournalEntry): Promise<void> {
+  await withStore('readwrite', (store) => store.put(entry));
+}
+
+export async function deleteJournalEntry(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+/** Unrecorded batches for one wallet, oldest first. */
+export async function listJournalEntries(walletAddress: string): Promise<JournalEntry[]> {
+  const entries = await withStore<JournalEntry[]>(
+    'readonly',
+    (store) => store.index('walletAddress').getAll(walletAddress),
+  );
+  return (entries ?? []).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * The POST /api/burn-and-upgrade body for the NFTs burned so far. Each burn
+ * is sent with the target the user paired it with in the wizard.
+ */
+export function buildBurnBatch(
+  journalId: string,
+  walletAddress: string,
+  burned: NFT[],
+  upgradeTargets: NFT[],
+  pairings: BurnPairings,
+  burnToSig: Map<string, string>,
+): BurnBatchRequest {
+  const targetsByMint = new Map(upgradeTargets.map((t) => [t.mint, t]));
+  return {
+    journalId,
+    walletAddress,
+    burns: burned.map((nft) => ({
+      mintAddress: nft.mint,
+      transactionSignature: burnToSig.get(nft.mint)!,
+      name: nft.name,
+    })),
+    upgrades: burned.map((burnNft) => {
+      const target = targetsByMint.get(pairings[burnNft.mint]);
+      return {
+        burnedMint: burnNft.mint,
+        upgradeMint: target?.mint || '',
+        upgradeName: target?.name || '',
+      };
+    }),
+  };
+}
@@ -0,0 +1,252 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import bs58 from 'bs58';
+import { BurnBatchRequest, BurnRecipe, BurntNFT, Campaign } from '@/types';
+import { memoryDb } from '@/test/memoryMongo';
+import { recordBurnBatch } from '@/lib/burnRecording';
+import { burnBatchRequestSchema } from '@/lib/schemas';
+
+vi.mock('@/lib/mongodb', async () => (await import('@/test/memoryMongo')).mongodbModule);
+vi.mock('@/lib/webhooks', () => ({ emitWebhookEvent: vi.fn() }));
+
+const WALLET = '8SFqwqnq4whPhs8icwHA2hQg3hUoN1qrCLK1SBx3WKwe';
+
+// Every transaction is a successful burn signed by WALLET, and every asset
+// was WALLET's — the on-chain checks are covered by burnVerification.test.ts
+vi.mock('@/lib/rpcPool', () => ({
+  getTransaction: vi.fn(async () => ({
+    meta: { err: null },
+    transaction: { message: { staticAccountKeys: [{ toBase58: () => WALLET }] } },
+  })),
+}));
+vi.mock('@/lib/burnVerification', () => ({ verifyBurnTransaction: () => ({ ok: true }) }));
+vi.mock('@/lib/das', () => ({
+  getAssetBatch: vi.fn(async (mints: string[]) =>
+    mints.map(() => ({ ownership: { owner: WALLET }, content: { metadata: { attributes: [] } } })),
+  ),
+}));
+
+const BURNS = [
+  'EdmxWPmx2WH6WgFfTdu9xfkYf3k1g5wD1zccTVySEEh1',
+  'AKkzLhjhyFtM9j7WAhbaqYpFe49cXeJBg2kzLRC2PnNa',
+];
+const TARGETS = [
+  'GmaDrppBC7P5ARKV8g3djiwP89vz1jLK23V2GBjuAEGB',
+  '2KW2XRd9kwqet15Aha2oK3tYvd3nWbTFH1MBiRAv1BE1',
+];
+const signature = (n: number) => bs58.encode(new Uint8Array(64).fill(n));
+
+const CAMPAIGN: Campaign = {
+  id: 's1',
+  name: 'Season 1',
+  opensAt: '2026-01-01T00:00:00.000Z',
+  closesAt: '2027-01-01T00:00:00.000Z',
+};
+const RECIPE: BurnRecipe = { id: 'capped', name: 'One per wallet', burnsPerUpgrade: 1, maxUpgradesPerWallet: 1, active: true };
+const AT = new Date('2026-06-01T00:00:00.000Z');
+
+/** A batch burning `BURNS[i]` into `TARGETS[i]` for each index. */
+function batch(...indexes: number[]): BurnBatchRequest {
+  return {
+    walletAddress: WALLET,
+    burns: indexes.map((i) => ({ mintAddress: BURNS[i], transactionSignature: signature(i + 1), name: `Devil #${i}` })),
+    upgrades: indexes.map((i) => ({ burnedMint: BURNS[i], upgradeMint: TARGETS[i], upgradeName: `Target #${i}` })),
+  };
+}
+
+// What a batch committed by another request looks like once it has landed
+function committedElsewhere(i: number, fields: Partial<BurntNFT> = {}): BurntNFT {
+  return {
+    mint: BURNS[i],
+    name: `Devil #${i}`,
+    burntBy: WALLET,
+    transactionSignature: signature(i + 1),
+    burntAt: AT.toISOString(),
+    recipeId: RECIPE.id,
+    campaignId: CAMPAIGN.id,
+    upgradeTargetMint: TARGETS[i],
+    upgradeClaimSlot: `${TARGETS[i]}#0`,
+    ...fields,
+  };
+}
+
+const records = () => memoryDb.collection('burnt_nfts');
+
+beforeEach(async () => {
+  memoryDb.reset();
+  await memoryDb.collection('campaigns').insertOne({ ...CAMPAIGN });
+  await memoryDb.collection('upgrade_recipes').insertOne({ ...RECIPE });
+});
+
+describe('recordBurnBatch — recipe per-wallet cap', () => {
+  it('records a batch within the cap and writes the wallet guard', async () => {
+    const { status, response } = await recordBurnBatch(batch(0), AT);
+
+    expect(status).toBe(200);
+    expect(response.recorded).toBe(1);
+    expect(await memoryDb.collection('commit_guards').findOne({ key: `wallet:${WALLET}` }))
+      .toMatchObject({ version: 1 });
+  });
+
+  it('rejects a batch that would take the wallet past the cap', async () => {
+    const { status, response } = await recordBurnBatch(batch(0, 1), AT);
+
+    expect(status).toBe(422);
+    expect(response.violations).toEqual([{ code: 'wallet_cap_exceeded', message: 'Limit of 1 upgrade(s) per wallet' }]);
+    expect(response.results?.map((r) => r.code)).toEqual(['wallet_cap_exceeded', 'wallet_cap_exceeded']);
+    expect(await records().countDocuments()).toBe(0);
+  });
+
+  it('counts upgrades committed after the pre-checks, inside the transaction', async () => {
+    // A concurrent batch from the same wallet lands between our checks and our commit
+    memoryDb.beforeTransaction = async () => {
+      await records().insertOne(committedElsewhere(0));
+    };
+
+    const { status, response } = await recordBurnBatch(batch(1), AT);
+
+    expect(status).toBe(422);
+    expect(response.results).toMatchObject([{ mint: BURNS[1], status: 'rejected', code: 'wallet_cap_exceeded' }]);
+    expect(await records().countDocuments()).toBe(1);
+  });
+
+  it('does not count upgrades claimed under another recipe', async () => {
+    await records().insertOne(committedElsewhere(0, { recipeId: 'other' }));
+
+    const { status } = await recordBurnBatch(batch(1), AT);
+
+    expect(status).toBe(200);
+  });
+
+  it('leaves uncapped recipes without a guard', async () => {
+    await memoryDb.collection('upgrade_recipes').updateOne({ id: RECIPE.id }, { $unset: { maxUpgradesPerWallet: '' } });
+
+    const { status } = await recordBurnBatch(batch(0, 1), AT);
+
+    expect(status).toBe(200);
+    expect(await memoryDb.collection('commit_guards').countDocuments()).toBe(0);
+  });
+});
+
+describe('recordBurnBatch — campaign caps', () => {
+  const OTHER_WALLET = '9hSR6S7WPtxmTojgo6GG3k4yDPecgJY292j7xrsUGWBu';
+
+  beforeEach(async () => {
+    await memoryDb.collection('upgrade_recipes').deleteMany({});
+  });
+
+  async function capCampaign(caps: Partial<Campaign>) {
+    await memoryDb.collection('campaigns').updateOne({ id: CAMPAIGN.id }, { $set: caps });
+  }
+
+  it('writes the campaign guard and records a batch within the caps', async () => {
+    await capCampaign({ maxBurns: 2 });
+
+    const { status } = await recordBurnBatch(batch(0), AT);
+
+    expect(status).toBe(200);
+    expect(await memoryDb.collection('commit_guards').distinct('key')).toEqual([`campaign:${CAMPAIGN.id}`]);
+  });
+
+  it('rejects a batch when a concurrent commit fills the campaign first', async () => {
+    await capCampaign({ maxBurns: 1 });
+    memoryDb.beforeTransaction = async () => {
+      await records().insertOne(committedElsewhere(0, { burntBy: OTHER_WALLET }));
+    };
+
+    const { status, response } = await recordBurnBatch(batch(1), AT);
+
+    expect(status).toBe(400);
+    expect(response.results).toMatchObject([{
+      mint: BURNS[1],
+      status: 'rejected',
+      code: 'campaign_limit',
+      error: 'Season 1 has reached its limit of 1 burns',
+    }]);
+    expect(await records().countDocuments({ mint: BURNS[1] })).toBe(0);
+    expect(await memoryDb.collection('upgrade_claims').countDocuments()).toBe(0);
+  });
+
+  it('counts the per-wallet upgrade limit inside the transaction', async () => {
+    await capCampaign({ perWalletUpgradeLimit: 1 });
+    memoryDb.beforeTransaction = async () => {
+      await records().insertOne(committedElsewhere(0));
+    };
+
+    const { response } = await recordBurnBatch(batch(1), AT);
+
+    expect(response.results?.[0]).toMatchObject({
+      code: 'campaign_limit',
+      error: 'Limit of 1 upgrades per wallet in Season 1',
+    });
+    expect(await memoryDb.collection('commit_guards').distinct('key')).toEqual([`wallet:${WALLET}`]);
+  });
+
+  it('counts every cap on the transaction session one at a time', async () => {
+    await capCampaign({ maxBurns: 10, maxUpgrades: 10, perWalletBurnLimit: 10, perWalletUpgradeLimit: 10 });
+
+    const { status } = await recordBurnBatch(batch(0, 1), AT);
+
+    expect(status).toBe(200);
+  });
+
+  it('does not count a webhook record the batch replaces twice', async () => {
+    await capCampaign({ maxBurns: 1 });
+    await records().insertOne({
+      mint: BURNS[0],
+      name: 'Devil #0',
+      burntBy: WALLET,
+      transactionSignature: signature(1),
+      burntAt: AT.toISOString(),
+      campaignId: CAMPAIGN.id,
+      source: 'webhook',
+    });
+    const { status } = await recordBurnBatch(batch(0), AT);
+
+    expect(status).toBe(200);
+    expect(await records().findOne({ mint: BURNS[0] })).toMatchObject({ upgradeTargetMint: TARGETS[0] });
+  });
+});
+
+describe('recordBurnBatch — malformed entries', () => {
+  beforeEach(async () => {
+    await memoryDb.collection('upgrade_recipes').deleteMany({});
+  });
+
+  it('passes the request schema and fails only the bad entries', async () => {
+    const body = {
+      ...batch(0),
+      burns: [
+        ...batch(0).burns,
+        { mintAddress: 'not-a-mint', transactionSignature: signature(2), name: 'Devil #1' },
+        { mintAddress: BURNS[1], name: 'Devil #1' },
+      ],
+      upgrades: [
+        ...batch(0).upgrades,
+        { burnedMint: 'not-a-mint', upgradeMint: TARGETS[1], upgradeName: 'Target #1' },
+        { burnedMint: BURNS[1], upgradeMint: '', upgradeName: '' },
+      ],
+    };
+    const parsed = burnBatchRequestSchema.safeParse(body);
+    expect(parsed.success).toBe(true);
+
+    const { status, response } = await recordBurnBatch(parsed.data!, AT);
+
+    expect(status).toBe(207);
+    expect(response.results).toMatchObject([
+      { mint: BURNS[0], status: 'recorded' },
+      { mint: 'not-a-mint', status: 'rejected', code: 'invalid_mint' },
+      {
+        mint: BURNS[1],
+        status: 'rejected',
+        code: 'invalid_entry',
+        error: 'Invalid burn entry — transactionSignature: Invalid input: expected string, received undefined',
+      },
+    ]);
+    expect(await records().distinct('mint')).toEqual([BURNS[0]]);
+  });
+
+  it('still rejects a malformed batch as a whole', () => {
+    expect(burnBatchRequestSchema.safeParse({ ...batch(0), burns: [] }).success).toBe(false);
+    expect(burnBatchRequestSchema.safeParse({ ...batch(0), walletAddress: 'nope' }).success).toBe(false);
+  });
+});
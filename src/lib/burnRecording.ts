@@ -0,0 +1,607 @@
+import { PublicKey } from '@solana/web3.js';
+import { ClientSession } from 'mongodb';
+import {
+  ApiErrorCode,
+  BurntNFT,
+  BurnBatchBody,
+  BurnEntry,
+  BurnBatchResponse,
+  BurnRecipe,
+  BurnRecordErrorCode,
+  BurnRecordResult,
+  BurnRecordStatus,
+  Campaign,
+  RuleViolation,
+  UpgradeClaim,
+} from '@/types';
+import {
+  getBurntNFTsCollection,
+  getCommitGuardsCollection,
+  getUpgradeClaimsCollection,
+  withTransaction,
+} from '@/lib/mongodb';
+import { verifyBurnTransaction } from '@/lib/burnVerification';
+import { getAssetBatch } from '@/lib/das';
+import { getTransaction } from '@/lib/rpcPool';
+import { evaluateBatch, remainingUpgrades } from '@/lib/upgradeRules';
+import { countUpgradesUsed, getActiveRecipe } from '@/lib/recipes';
+import { checkCampaignLimits, getActiveCampaign } from '@/lib/campaigns';
+import { invalidateInventory } from '@/lib/inventory';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import { burnEntrySchema, parseWith } from '@/lib/schemas';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+const MAX_STRING_LEN     = 512;
+const COLLECTION_ADDRESS = process.env.NEXT_PUBLIC_COLLECTION_ADDRESS || '';
+
+export interface RecordOutcome {
+  status: number;
+  response: BurnBatchResponse;
+}
+
+// One submitted burn on its way through the checks. `result` is set once the
+// burn is decided; only undecided ("live") burns go on to the next step.
+interface BatchItem {
+  burn: BurnEntry;
+  upgradeMint: string;
+  upgradeName: string;
+  result?: BurnRecordResult;
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+export function sanitizeString(value: unknown, maxLen = MAX_STRING_LEN): string {
+  if (typeof value !== 'string') return '';
+  return value
+    .replace(/<[^>]*>/g, '')
+    .replace(/[^\x20-\x7E\u00A0-\uFFFF]/g, '')
+    .trim()
+    .slice(0, maxLen);
+}
+
+function reject(
+  status: number,
+  code: ApiErrorCode,
+  error: string,
+  extra?: Partial<BurnBatchResponse>,
+): RecordOutcome {
+  return { status, response: { success: false, code, error, ...extra } };
+}
+
+function decide(item: BatchItem, status: BurnRecordStatus, code?: BurnRecordErrorCode, error?: string) {
+  item.result = {
+    mint: item.burn.mintAddress,
+    status,
+    ...(code && { code }),
+    ...(error && { error }),
+  };
+}
+
+/**
+ * A submitted entry as a batch item. A malformed entry is rejected on the
+ * spot and keeps only its mint (if it has one as a string), for its result.
+ */
+function toBatchItem(entry: unknown): BatchItem {
+  const parsed = parseWith(burnEntrySchema, entry);
+  if (parsed.ok) return { burn: parsed.data, upgradeMint: '', upgradeName: '' };
+
+  const mintAddress = (entry as Partial<Record<keyof BurnEntry, unknown>> | null)?.mintAddress;
+  const item: BatchItem = {
+    burn: { mintAddress: typeof mintAddress === 'string' ? mintAddress : '', transactionSignature: '', name: '' },
+    upgradeMint: '',
+    upgradeName: '',
+  };
+  if (item.burn.mintAddress && parsed.issues.every((i) => i.path === 'mintAddress')) {
+    decide(item, 'rejected', 'invalid_mint', `Invalid mint address: ${item.burn.mintAddress}`);
+  } else {
+    decide(item, 'rejected', 'invalid_entry', `Invalid burn entry — ${parsed.error}`);
+  }
+  return item;
+}
+
+/**
+ * A target needs every burn paired with it, so once one burn of a group has
+ * failed the rest of that group cannot be recorded either.
+ */
+function failIncompleteGroups(items: BatchItem[]) {
+  const broken = new Set(
+    items
+      .filter((i) => i.upgradeMint && i.result && i.result.status !== 'already_recorded')
+      .map((i) => i.upgradeMint),
+  );
+  for (const item of items) {
+    if (!item.result && broken.has(item.upgradeMint)) {
+      decide(item, 'rejected', 'incomplete_group', 'Another burn for the same upgrade could not be recorded');
+    }
+  }
+}
+
+/**
+ * The response once every item is decided: 200 when nothing failed, 207 when
+ * part of the batch is recorded, otherwise 409 for pure conflicts, 422 for
+ * rule violations and 400 for everything else.
+ */
+function summarize(items: BatchItem[], violations: RuleViolation[]): RecordOutcome {
+  const results = items.map((i) => i.result!);
+  const recorded = results.filter((r) => r.status === 'recorded').length;
+  const failed = results.filter((r) => r.status === 'conflict' || r.status === 'rejected');
+
+  if (failed.length === 0) {
+    return {
+      status: 200,
+      response: {
+        success: true,
+        message: recorded > 0
+          ? `${recorded} burns recorded with upgrade selections`
+          : `${results.length} burns were already recorded`,
+        recorded,
+        results,
+      },
+    };
+  }
+
+  const status = failed.length < results.length
+    ? 207
+    : failed.every((r) => r.status === 'conflict')
+      ? 409
+      : violations.length > 0
+        ? 422
+        : 400;
+
+  return reject(
+    status,
+    status === 207 ? 'partially_recorded' : 'burns_rejected',
+    `${failed.length} of ${results.length} burns could not be recorded: ${failed[0].error}`,
+    { recorded, results, ...(violations.length > 0 && { violations }) },
+  );
+}
+
+/**
+ * Validate a burn batch, verify every burn on-chain and insert the records.
+ * Shared by POST /api/burn-and-upgrade and the pending-burn sweeper; callers
+ * are responsible for authenticating `body.walletAddress`.
+ *
+ * Burns are judged one by one and the valid subset is recorded — `results`
+ * holds one entry per submitted burn, in order, with a `code` on every
+ * failure. Only a malformed body or a closed campaign fails the whole batch;
+ * malformed `burns` entries fail only themselves.
+ *
+ * `at` is when the burns happened — the campaign, recipe and season checks
+ * are made as of that time, so a swept batch is judged by the rules it was
+ * burned under.
+ */
+export async function recordBurnBatch(body: BurnBatchBody, at = new Date()): Promise<RecordOutcome> {
+  const { walletAddress, burns, upgrades } = body;
+
+  // 1. Presence check
+  if (!walletAddress || !Array.isArray(burns) || burns.length === 0 || !Array.isArray(upgrades)) {
+    return reject(400, 'invalid_request', 'Missing required fields');
+  }
+
+  // 2. Validate wallet
+  try {
+    new PublicKey(walletAddress);
+  } catch {
+    return reject(400, 'invalid_wallet', 'Invalid wallet address');
+  }
+
+  // 2b. Each entry is checked on its own — a malformed one fails only itself
+  const items = burns.map(toBatchItem);
+  const live = () => items.filter((i) => !i.result);
+
+  // 2c. Every pairing must refer to a submitted burn
+  const submitted = new Set(items.map((i) => i.burn.mintAddress));
+  if (upgrades.some((u) => !submitted.has(u?.burnedMint))) {
+    return reject(400, 'invalid_request', 'Each burned NFT must be paired exactly once');
+  }
+
+  // 3. Burns are only accepted inside an open campaign
+  const campaign = await getActiveCampaign(at);
+  if (!campaign) {
+    for (const item of items) decide(item, 'rejected', 'campaign_closed', 'No burn campaign is currently open');
+    return reject(403, 'campaign_closed', 'No burn campaign is currently open', {
+      recorded: 0,
+      results: items.map((i) => i.result!),
+    });
+  }
+
+  // 4. Each mint once per batch
+  const burnMintSet = new Set<string>();
+  for (const item of live()) {
+    if (burnMintSet.has(item.burn.mintAddress)) {
+      decide(item, 'rejected', 'duplicate_in_batch', 'Mint appears more than once in the batch');
+      continue;
+    }
+    burnMintSet.add(item.burn.mintAddress);
+  }
+
+  // 4b. Each burn is paired exactly once, never with another burned mint
+  //     (targets may repeat — see recipe)
+  for (const item of live()) {
+    const pairings = upgrades.filter((u) => u.burnedMint === item.burn.mintAddress);
+    if (pairings.length !== 1) {
+      decide(item, 'rejected', 'invalid_pairing', 'Each burned NFT must be paired exactly once');
+    } else if (pairings[0].upgradeMint && burnMintSet.has(pairings[0].upgradeMint)) {
+      decide(item, 'rejected', 'invalid_pairing', 'An upgrade target cannot also be a burned NFT');
+    } else {
+      item.upgradeMint = sanitizeString(pairings[0].upgradeMint);
+      item.upgradeName = sanitizeString(pairings[0].upgradeName);
+    }
+  }
+
+  // 5. Already-recorded mints — a replay of our own burn is not an error
+  const collection = await getBurntNFTsCollection();
+  const existing = await collection
+    .find(
+      { mint: { $in: live().map((i) => i.burn.mintAddress) } },
+      { projection: { mint: 1, burntBy: 1, transactionSignature: 1, burntAt: 1, source: 1 } },
+    )
+    .toArray();
+  const existingByMint = new Map(existing.map((e) => [e.mint, e]));
+  // Webhook records this batch replaces — already counted by the campaign caps
+  const adoptable = new Set<string>();
+
+  for (const item of live()) {
+    const e = existingByMint.get(item.burn.mintAddress);
+    if (!e) continue;
+    if (isAdoptable(e, walletAddress, item)) {
+      adoptable.add(e.mint);
+      continue;
+    }
+    if (e.burntBy === walletAddress && e.transactionSignature === item.burn.transactionSignature) {
+      decide(item, 'already_recorded');
+      item.result!.burntAt = e.burntAt;
+    } else if (e.burntBy === walletAddress) {
+      decide(item, 'conflict', 'recorded_with_other_transaction', 'Recorded with a different transaction');
+    } else {
+      decide(item, 'conflict', 'recorded_by_other_wallet', 'Recorded by another wallet');
+    }
+  }
+
+  // 5b. Upgrade targets must not already be claimed by another burn
+  const pendingTargets = [...new Set(live().map((i) => i.upgradeMint).filter(Boolean))];
+  if (pendingTargets.length > 0) {
+    const lockedTargets = await collection
+      .find(
+        { upgradeTargetMint: { $in: pendingTargets } },
+        { projection: { upgradeTargetMint: 1 } },
+      )
+      .toArray();
+    const claimed = new Set(lockedTargets.map((t) => t.upgradeTargetMint));
+    for (const item of live()) {
+      if (claimed.has(item.upgradeMint)) {
+        decide(item, 'conflict', 'target_claimed', 'Upgrade target already claimed');
+      }
+    }
+  }
+  failIncompleteGroups(items);
+
+  // 6. Verify transactions on-chain (through the RPC pool, with failover)
+  // Group burns by transaction signature (batched burns share a signature)
+  const txGroups = new Map<string, BatchItem[]>();
+  for (const item of live()) {
+    const sig = item.burn.transactionSignature;
+    if (!txGroups.has(sig)) txGroups.set(sig, []);
+    txGroups.get(sig)!.push(item);
+  }
+
+  for (const [sig, group] of txGroups) {
+    const tx = await getTransaction(sig);
+
+    if (!tx) {
+      for (const item of group) decide(item, 'rejected', 'tx_not_found', `Transaction not found: ${sig.slice(0, 16)}…`);
+      continue;
+    }
+
+    if (tx.meta?.err) {
+      for (const item of group) decide(item, 'rejected', 'tx_failed', `Transaction failed on-chain: ${sig.slice(0, 16)}…`);
+      continue;
+    }
+
+    // Fee payer must be the claimed wallet
+    const feePayer = tx.transaction.message.staticAccountKeys[0]?.toBase58();
+    if (feePayer !== walletAddress) {
+      for (const item of group) decide(item, 'rejected', 'not_signed_by_wallet', 'Transaction not signed by claimed wallet');
+      continue;
+    }
+
+    // Every claimed mint must be burned by a decoded MPL Core BurnV1
+    for (const item of group) {
+      const check = verifyBurnTransaction(tx, walletAddress, [item.burn.mintAddress], COLLECTION_ADDRESS);
+      if (!check.ok) decide(item, 'rejected', check.code, check.error);
+    }
+  }
+
+  // 6b. The signer must have owned each asset (rules out burn delegates)
+  const mintAddresses = live().map((i) => i.burn.mintAddress);
+  const assets = await getAssetBatch(mintAddresses);
+  const assetByMint = new Map(mintAddresses.map((mint, i) => [mint, assets[i]]));
+  for (const item of live()) {
+    if (assetByMint.get(item.burn.mintAddress)?.ownership?.owner !== walletAddress) {
+      decide(item, 'rejected', 'not_owner', `Mint ${item.burn.mintAddress.slice(0, 8)}… was not owned by the claimed wallet`);
+    }
+  }
+  failIncompleteGroups(items);
+
+  // 6c. Enforce the active upgrade recipe (attributes come from DAS, not the client)
+  const recipe = await getActiveRecipe(at);
+  let violations: RuleViolation[] = [];
+  if (live().length > 0) {
+    const targetMints = [...new Set(live().map((i) => i.upgradeMint).filter(Boolean))];
+    const targetAssets = await getAssetBatch(targetMints);
+    violations = evaluateBatch(recipe, {
+      burns: live().map((i) => ({
+        mint: i.burn.mintAddress,
+        attributes: assetByMint.get(i.burn.mintAddress)?.content?.metadata?.attributes,
+      })),
+      targets: targetMints.map((mint, i) => ({
+        mint,
+        attributes: targetAssets[i]?.content?.metadata?.attributes,
+      })),
+      pairings: live().map((i) => ({
+        burnedMint: i.burn.mintAddress,
+        upgradeMint: i.upgradeMint,
+        upgradeName: i.upgradeName,
+      })),
+      now: at,
+    });
+
+    // A violation names a burn, a target (failing its whole group) or
+    // neither — the season applies to every burn
+    for (const v of violations) {
+      for (const item of live()) {
+        if (!v.mint || v.mint === item.burn.mintAddress || v.mint === item.upgradeMint) {
+          decide(item, 'rejected', v.code, v.message);
+        }
+      }
+    }
+    failIncompleteGroups(items);
+  }
+
+  // 6d. Campaign caps apply to the burns still standing (counted again at commit)
+  if (live().length > 0) {
+    const campaignError = await checkCampaignLimits(
+      campaign,
+      walletAddress,
+      live().filter((i) => !adoptable.has(i.burn.mintAddress)).length,
+      live().map((i) => i.upgradeMint).filter(Boolean),
+    );
+    if (campaignError) {
+      for (const item of live()) decide(item, 'rejected', 'campaign_limit', campaignError);
+    }
+  }
+
+  // 7. Check-and-insert in one transaction — a batch racing ours either
+  //    commits first and is named below, or sees our records and claims.
+  //    The recipe's and campaign's caps are counted in there too.
+  const candidates = live();
+  if (candidates.length > 0) {
+    const lost = await withTransaction((session) =>
+      commitBatch(session, walletAddress, candidates, recipe, campaign, at.toISOString()),
+    );
+    const capped = [...lost.values()].find((l) => l.code === 'wallet_cap_exceeded');
+    if (capped) violations.push({ code: 'wallet_cap_exceeded', message: capped.error! });
+    for (const item of candidates) {
+      const loss = lost.get(item);
+      if (loss) {
+        decide(item, loss.status, loss.code, loss.error);
+      } else {
+        decide(item, 'recorded');
+        item.result!.burntAt = at.toISOString();
+      }
+    }
+    const committed = candidates.filter((i) => !lost.has(i));
+    if (committed.length > 0) {
+      // Burnt NFTs and newly locked targets must not be served from cache
+      await invalidateInventory([walletAddress]);
+      await emitWebhookEvent('burn.recorded', {
+        walletAddress,
+        recipeId: recipe.id,
+        campaignId: campaign.id,
+        burns: committed.map(({ burn, upgradeMint }) => ({
+          mint: burn.mintAddress,
+          name: sanitizeString(burn.name) || 'Unknown',
+          transactionSignature: burn.transactionSignature,
+          ...(upgradeMint && { upgradeTargetMint: upgradeMint }),
+        })),
+      });
+    }
+  }
+
+  return summarize(items, violations);
+}
+
+type Loss = { status: BurnRecordStatus; code?: BurnRecordErrorCode; error?: string };
+
+// A record the chain-event webhook made for this very burn, before the
+// wallet got to record it — the wallet's record (with its pairing) replaces it
+function isAdoptable(
+  record: Pick<BurntNFT, 'burntBy' | 'transactionSignature' | 'source'>,
+  walletAddress: string,
+  item: BatchItem,
+): boolean {
+  return record.source === 'webhook'
+    && record.burntBy === walletAddress
+    && record.transactionSignature === item.burn.transactionSignature;
+}
+
+/** Write the commit guard for `key` inside the transaction — see CommitGuard. */
+async function bumpCommitGuard(session: ClientSession, key: string) {
+  const guards = await getCommitGuardsCollection();
+  await guards.updateOne(
+    { key },
+    { $inc: { version: 1 }, $set: { updatedAt: new Date().toISOString() } },
+    { upsert: true, session },
+  );
+}
+
+/**
+ * Transaction body for step 7: re-check the burns and their targets inside
+ * the transaction, count the recipe's and campaign's caps, then insert the
+ * upgrade claims and burn records for every group that is still whole.
+ * Returns the items that lost a race or hit the cap; recomputed from
+ * scratch on every attempt, as the driver may rerun it.
+ */
+async function commitBatch(
+  session: ClientSession,
+  walletAddress: string,
+  candidates: BatchItem[],
+  recipe: BurnRecipe,
+  campaign: Campaign,
+  now: string,
+): Promise<Map<BatchItem, Loss>> {
+  const collection = await getBurntNFTsCollection();
+  const claims = await getUpgradeClaimsCollection();
+  const lost = new Map<BatchItem, Loss>();
+  const short = (mint: string) => `${mint.slice(0, 8)}…`;
+
+  // Mints recorded since step 5 — by a replay of this batch or someone else
+  const taken = new Map(
+    (await collection
+      .find(
+        { mint: { $in: candidates.map((i) => i.burn.mintAddress) } },
+        { session, projection: { mint: 1, burntBy: 1, transactionSignature: 1, source: 1 } },
+      )
+      .toArray()).map((r) => [r.mint, r]),
+  );
+  const adopted: string[] = [];
+  for (const item of candidates) {
+    const r = taken.get(item.burn.mintAddress);
+    if (!r) continue;
+    if (isAdoptable(r, walletAddress, item)) {
+      adopted.push(r.mint);
+      continue;
+    }
+    lost.set(item, r.burntBy === walletAddress && r.transactionSignature === item.burn.transactionSignature
+      ? { status: 'already_recorded' }
+      : {
+        status: 'conflict',
+        code: 'recorded_concurrently',
+        error: `Mint ${short(item.burn.mintAddress)} was recorded by a concurrent request`,
+      });
+  }
+
+  // Targets claimed since step 5b (claims, or records from before upgrade_claims)
+  const targets = [...new Set(candidates.filter((i) => !lost.has(i) && i.upgradeMint).map((i) => i.upgradeMint))];
+  if (targets.length > 0) {
+    const claimed = new Set([
+      ...(await claims.distinct('targetMint', { targetMint: { $in: targets } }, { session })),
+      ...(await collection.distinct('upgradeTargetMint', { upgradeTargetMint: { $in: targets } }, { session })),
+    ]);
+    for (const item of candidates) {
+      if (!lost.has(item) && claimed.has(item.upgradeMint)) {
+        lost.set(item, {
+          status: 'conflict',
+          code: 'target_claimed',
+          error: `Upgrade target ${short(item.upgradeMint)} was claimed by a concurrent request`,
+        });
+      }
+    }
+  }
+
+  // A group is recorded whole or not at all
+  const broken = new Set(
+    [...lost].filter(([i, l]) => i.upgradeMint && l.status !== 'already_recorded').map(([i]) => i.upgradeMint),
+  );
+  for (const item of candidates) {
+    if (!lost.has(item) && broken.has(item.upgradeMint)) {
+      lost.set(item, {
+        status: 'rejected',
+        code: 'incomplete_group',
+        error: 'Another burn for the same upgrade could not be recorded',
+      });
+    }
+  }
+
+  const winners = candidates.filter((i) => !lost.has(i));
+  if (winners.length === 0) return lost;
+
+  // Caps count what is already recorded. A batch committing concurrently in
+  // the same scope writes the same guard, so one of the two aborts and is
+  // rerun against the other's records.
+  const guards = new Set<string>();
+  if (
+    recipe.maxUpgradesPerWallet !== undefined
+    || campaign.perWalletBurnLimit !== undefined
+    || campaign.perWalletUpgradeLimit !== undefined
+  ) {
+    guards.add(`wallet:${walletAddress}`);
+  }
+  if (campaign.maxBurns !== undefined || campaign.maxUpgrades !== undefined) {
+    guards.add(`campaign:${campaign.id}`);
+  }
+  for (const key of guards) await bumpCommitGuard(session, key);
+
+  const upgradeTargets = winners.map((i) => i.upgradeMint).filter(Boolean);
+  let capped: Loss | undefined;
+  if (recipe.maxUpgradesPerWallet !== undefined) {
+    const used = await countUpgradesUsed(walletAddress, recipe, session);
+    if (new Set(upgradeTargets).size > remainingUpgrades(recipe, used)) {
+      capped = {
+        status: 'rejected',
+        code: 'wallet_cap_exceeded',
+        error: `Limit of ${recipe.maxUpgradesPerWallet} upgrade(s) per wallet`,
+      };
+    }
+  }
+  if (!capped) {
+    // Adopted webhook records are already counted, as in step 6d
+    const newBurns = winners.filter((i) => !adopted.includes(i.burn.mintAddress)).length;
+    const campaignError = await checkCampaignLimits(campaign, walletAddress, newBurns, upgradeTargets, session);
+    if (campaignError) capped = { status: 'rejected', code: 'campaign_limit', error: campaignError };
+  }
+  if (capped) {
+    for (const item of winners) lost.set(item, capped);
+    return lost;
+  }
+
+  // One claim per target, listing the burns that pay for it
+  const groups = new Map<string, BatchItem[]>();
+  for (const item of winners) {
+    if (!item.upgradeMint) continue;
+    if (!groups.has(item.upgradeMint)) groups.set(item.upgradeMint, []);
+    groups.get(item.upgradeMint)!.push(item);
+  }
+  const claimDocs: UpgradeClaim[] = [...groups].map(([targetMint, group]) => ({
+    targetMint,
+    targetName: group[0].upgradeName,
+    walletAddress,
+    burnMints: group.map((i) => i.burn.mintAddress),
+    transactionSignatures: [...new Set(group.map((i) => i.burn.transactionSignature))],
+    recipeId: recipe.id,
+    campaignId: campaign.id,
+    claimedAt: now,
+  }));
+
+  const records: BurntNFT[] = winners.map(({ burn, upgradeMint, upgradeName }) => {
+    const safeName = sanitizeString(burn.name);
+    const slot = upgradeMint ? groups.get(upgradeMint)!.findIndex((i) => i.burn === burn) : 0;
+
+    return {
+      mint: burn.mintAddress,
+      name: safeName || 'Unknown',
+      burntBy: walletAddress,
+      transactionSignature: burn.transactionSignature,
+      burntAt: now,
+      recipeId: recipe.id,
+      campaignId: campaign.id,
+      ...(upgradeMint && {
+        upgradeTargetMint: upgradeMint,
+        upgradeTargetName: upgradeName,
+        upgradeClaimSlot: `${upgradeMint}#${slot}`,
+        upgradeStatus: 'pending' as const,
+        upgradeStatusUpdatedAt: now,
+      }),
+    };
+  });
+
+  if (claimDocs.length > 0) await claims.insertMany(claimDocs, { session });
+  // Webhook records of these burns give way to the wallet's own, which carry the pairing
+  const winnerMints = new Set(winners.map((i) => i.burn.mintAddress));
+  const replaced = adopted.filter((mint) => winnerMints.has(mint));
+  if (replaced.length > 0) {
+    await collection.deleteMany({ mint: { $in: replaced }, source: 'webhook' }, { session });
+  }
+  await collection.insertMany(records, { session });
+  return lost;
+}
@@ -0,0 +1,269 @@
+import { describe, expect, it } from 'vitest';
+import bs58 from 'bs58';
+import {
+  AddressLookupTableAccount,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransactionResponse,
+} from '@solana/web3.js';
+import {
+  MPL_CORE_PROGRAM_ID,
+  decodeBurnV1,
+  getSigners,
+  resolveInstructions,
+  verifyBurnTransaction,
+} from '@/lib/burnVerification';
+
+const key = (n: number) => Keypair.fromSeed(new Uint8Array(32).fill(n)).publicKey;
+
+const CORE = new PublicKey(MPL_CORE_PROGRAM_ID);
+const COLLECTION = key(1);
+const OTHER_COLLECTION = key(2);
+const OTHER_WALLET = key(3);
+const ASSET = key(4);
+const WALLET = key(5);
+const SECOND_ASSET = key(6);
+const WRAPPER_PROGRAM = key(7);
+const LOOKUP_TABLE = key(8);
+
+// MPL Core instruction data: the discriminator, then (for burns) the
+// Option<CompressionProof> tag — see mpl-core generated/instructions
+const BURN_DATA = [12, 0];
+const TRANSFER_DATA = [14, 0];
+const UPDATE_DATA = [15, 0, 0, 0];
+
+interface CoreCall {
+  data?: number[];
+  asset?: PublicKey;
+  collection?: PublicKey;
+  payer?: PublicKey;
+  // Omitted, as the program id, unless given
+  authority?: PublicKey;
+}
+
+/** A BurnV1 by default; accounts in the order the program expects. */
+function coreIx({ data = BURN_DATA, asset = ASSET, collection = COLLECTION, payer = WALLET, authority }: CoreCall) {
+  const signers = new Set([payer.toBase58(), authority?.toBase58()]);
+  return new TransactionInstruction({
+    programId: CORE,
+    keys: [asset, collection, payer, authority ?? CORE, CORE, CORE].map((pubkey) => ({
+      pubkey,
+      isSigner: signers.has(pubkey.toBase58()) && !pubkey.equals(CORE),
+      isWritable: !pubkey.equals(CORE),
+    })),
+    data: Buffer.from(data),
+  });
+}
+
+interface TxOptions {
+  payer?: PublicKey;
+  // Accounts to load through a lookup table instead of the message
+  lookup?: PublicKey[];
+  // Instructions some other program ran as CPIs of the first instruction
+  inner?: TransactionInstruction[];
+}
+
+/** A confirmed transaction as getTransaction returns it. */
+function confirmedTx(instructions: TransactionInstruction[], { payer = WALLET, lookup, inner }: TxOptions = {}) {
+  const table = lookup && new AddressLookupTableAccount({
+    key: LOOKUP_TABLE,
+    state: {
+      deactivationSlot: BigInt('18446744073709551615'),
+      lastExtendedSlot: 0,
+      lastExtendedSlotStartIndex: 0,
+      addresses: lookup,
+    },
+  });
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: bs58.encode(new Uint8Array(32).fill(9)),
+    instructions,
+  }).compileToV0Message(table ? [table] : []);
+
+  const loadedAddresses = {
+    writable: message.addressTableLookups.flatMap((l) => l.writableIndexes.map((i) => lookup![i])),
+    readonly: message.addressTableLookups.flatMap((l) => l.readonlyIndexes.map((i) => lookup![i])),
+  };
+  const keys = message.getAccountKeys({ accountKeysFromLookups: loadedAddresses });
+  const indexOf = (pubkey: PublicKey) => {
+    for (let i = 0; i < keys.length; i++) if (keys.get(i)!.equals(pubkey)) return i;
+    throw new Error(`${pubkey.toBase58()} is not in the transaction`);
+  };
+
+  return {
+    slot: 1,
+    blockTime: 1_780_315_200,
+    version: 0,
+    transaction: { message, signatures: [bs58.encode(new Uint8Array(64).fill(1))] },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [],
+      postBalances: [],
+      loadedAddresses,
+      innerInstructions: inner ? [{
+        index: 0,
+        instructions: inner.map((ix) => ({
+          programIdIndex: indexOf(ix.programId),
+          accounts: ix.keys.map((k) => indexOf(k.pubkey)),
+          data: bs58.encode(ix.data),
+          stackHeight: 2,
+        })),
+      }] : [],
+    },
+  } as VersionedTransactionResponse;
+}
+
+// A program that burns through CPI, passing on the accounts of the burn
+function wrapped(burn: TransactionInstruction) {
+  return new TransactionInstruction({
+    programId: WRAPPER_PROGRAM,
+    keys: [...burn.keys, { pubkey: CORE, isSigner: false, isWritable: false }],
+    data: Buffer.from([1]),
+  });
+}
+
+const verify = (tx: VersionedTransactionResponse, mints = [ASSET.toBase58()], wallet = WALLET) =>
+  verifyBurnTransaction(tx, wallet.toBase58(), mints, COLLECTION.toBase58());
+
+describe('decodeBurnV1', () => {
+  const resolved = (data: number[], programId = MPL_CORE_PROGRAM_ID) => ({
+    programId,
+    accounts: [ASSET, COLLECTION, WALLET, CORE, CORE, CORE].map((k) => k.toBase58()),
+    data: Uint8Array.from(data),
+  });
+
+  it('decodes a BurnV1, with the payer standing in for an omitted authority', () => {
+    expect(decodeBurnV1(resolved(BURN_DATA))).toEqual({
+      asset: ASSET.toBase58(),
+      collection: COLLECTION.toBase58(),
+      payer: WALLET.toBase58(),
+      authority: WALLET.toBase58(),
+    });
+  });
+
+  it('reads an omitted collection as null', () => {
+    const ix = resolved(BURN_DATA);
+    ix.accounts[1] = MPL_CORE_PROGRAM_ID;
+
+    expect(decodeBurnV1(ix)?.collection).toBeNull();
+  });
+
+  it('ignores other Core instructions', () => {
+    expect(decodeBurnV1(resolved(TRANSFER_DATA))).toBeNull();
+    expect(decodeBurnV1(resolved(UPDATE_DATA))).toBeNull();
+  });
+
+  it('ignores a wrong discriminator or truncated data', () => {
+    expect(decodeBurnV1(resolved([13, 0]))).toBeNull();
+    expect(decodeBurnV1(resolved([12]))).toBeNull();
+    expect(decodeBurnV1(resolved([]))).toBeNull();
+    expect(decodeBurnV1(resolved([12, 7]))).toBeNull();
+  });
+
+  it('ignores the burn discriminator under another program', () => {
+    expect(decodeBurnV1(resolved(BURN_DATA, WRAPPER_PROGRAM.toBase58()))).toBeNull();
+  });
+
+  it('ignores an instruction without its accounts', () => {
+    expect(decodeBurnV1({ ...resolved(BURN_DATA), accounts: [ASSET.toBase58()] })).toBeNull();
+  });
+});
+
+describe('resolveInstructions', () => {
+  it('resolves accounts loaded through an address lookup table', () => {
+    const tx = confirmedTx([coreIx({})], { lookup: [ASSET, COLLECTION] });
+    expect(tx.transaction.message.staticAccountKeys.map(String)).not.toContain(ASSET.toBase58());
+
+    const [ix] = resolveInstructions(tx);
+
+    expect(ix.programId).toBe(MPL_CORE_PROGRAM_ID);
+    expect(ix.accounts.slice(0, 3)).toEqual([ASSET, COLLECTION, WALLET].map(String));
+  });
+
+  it('includes inner instructions after the top-level ones', () => {
+    const burn = coreIx({});
+    const tx = confirmedTx([wrapped(burn)], { inner: [burn] });
+
+    expect(resolveInstructions(tx).map((ix) => ix.programId)).toEqual([
+      WRAPPER_PROGRAM.toBase58(),
+      MPL_CORE_PROGRAM_ID,
+    ]);
+  });
+
+  it('counts only message signers, never lookup-table accounts', () => {
+    const tx = confirmedTx([coreIx({ authority: OTHER_WALLET })], { lookup: [ASSET] });
+
+    expect(getSigners(tx)).toEqual(new Set([WALLET, OTHER_WALLET].map(String)));
+  });
+});
+
+describe('verifyBurnTransaction', () => {
+  it('accepts a burn of the asset in the collection by the signing wallet', () => {
+    expect(verify(confirmedTx([coreIx({})]))).toEqual({ ok: true });
+  });
+
+  it('accepts every burn of a batched transaction', () => {
+    const tx = confirmedTx([coreIx({}), coreIx({ asset: SECOND_ASSET })]);
+
+    expect(verify(tx, [ASSET, SECOND_ASSET].map(String))).toEqual({ ok: true });
+  });
+
+  it('rejects a transaction that only transfers or updates the asset', () => {
+    for (const data of [TRANSFER_DATA, UPDATE_DATA]) {
+      expect(verify(confirmedTx([coreIx({ data })]))).toMatchObject({ ok: false, code: 'not_burned_in_tx' });
+    }
+  });
+
+  it('rejects a mint the transaction did not burn', () => {
+    const tx = confirmedTx([coreIx({ asset: SECOND_ASSET })]);
+
+    expect(verify(tx)).toMatchObject({ ok: false, code: 'not_burned_in_tx' });
+  });
+
+  it('rejects a burn with a wrong discriminator or truncated data', () => {
+    for (const data of [[13, 0], [12]]) {
+      expect(verify(confirmedTx([coreIx({ data })]))).toMatchObject({ ok: false, code: 'not_burned_in_tx' });
+    }
+  });
+
+  it('rejects an asset from another collection, or none', () => {
+    expect(verify(confirmedTx([coreIx({ collection: OTHER_COLLECTION })])))
+      .toMatchObject({ ok: false, code: 'wrong_collection' });
+    expect(verify(confirmedTx([coreIx({ collection: CORE })])))
+      .toMatchObject({ ok: false, code: 'wrong_collection' });
+  });
+
+  it('rejects a burn whose authority is not the claimed wallet', () => {
+    // OTHER_WALLET burned (and signed); WALLET only paid the fees
+    const tx = confirmedTx([coreIx({ authority: OTHER_WALLET })]);
+
+    expect(verify(tx)).toMatchObject({ ok: false, code: 'wrong_authority' });
+    expect(verify(tx, [ASSET.toBase58()], OTHER_WALLET)).toEqual({ ok: true });
+  });
+
+  it('rejects a claimed authority that did not sign', () => {
+    // Names WALLET as authority, but only OTHER_WALLET signed
+    const burn = coreIx({ payer: OTHER_WALLET, authority: WALLET });
+    burn.keys[3].isSigner = false;
+    const tx = confirmedTx([burn], { payer: OTHER_WALLET });
+
+    expect(getSigners(tx).has(WALLET.toBase58())).toBe(false);
+    expect(verify(tx)).toMatchObject({ ok: false, code: 'wrong_authority' });
+  });
+
+  it('finds a burn made through a CPI, in the inner instructions', () => {
+    const burn = coreIx({});
+    const tx = confirmedTx([wrapped(burn)], { inner: [burn] });
+
+    expect(verify(tx)).toEqual({ ok: true });
+  });
+
+  it('finds a burn whose accounts come from a lookup table', () => {
+    const tx = confirmedTx([coreIx({})], { lookup: [ASSET, COLLECTION] });
+
+    expect(verify(tx)).toEqual({ ok: true });
+  });
+});
@@ -0,0 +1,122 @@
+import { VersionedTransactionResponse } from '@solana/web3.js';
+import bs58 from 'bs58';
+
+export const MPL_CORE_PROGRAM_ID = 'CoREENxT6tW1HoK8ypY1SxRMZTcVPm7R94rH4PZNhX7d';
+
+// First byte of MPL Core instruction data; see mpl-core generated/instructions/burnV1
+const BURN_V1_DISCRIMINATOR = 12;
+
+export interface DecodedBurn {
+  asset: string;
+  /** null when the burn did not pass a collection account */
+  collection: string | null;
+  payer: string;
+  /** Falls back to the payer when the optional authority account is omitted */
+  authority: string;
+}
+
+/** A single instruction with its account keys already resolved. */
+export interface ResolvedInstruction {
+  programId: string;
+  accounts: string[];
+  data: Uint8Array;
+}
+
+/**
+ * Decode an MPL Core BurnV1 instruction, or return null for anything else.
+ * Omitted optional accounts are encoded as the program id itself.
+ */
+export function decodeBurnV1(ix: ResolvedInstruction): DecodedBurn | null {
+  if (ix.programId !== MPL_CORE_PROGRAM_ID) return null;
+  // Discriminator, then the Option<CompressionProof> tag (0 = None, 1 = Some)
+  if (ix.data.length < 2 || ix.data[0] !== BURN_V1_DISCRIMINATOR || ix.data[1] > 1) return null;
+
+  // asset, collection, payer, authority, systemProgram, logWrapper
+  const [asset, collection, payer, authority] = ix.accounts;
+  if (!asset || !payer) return null;
+
+  return {
+    asset,
+    collection: collection && collection !== MPL_CORE_PROGRAM_ID ? collection : null,
+    payer,
+    authority: authority && authority !== MPL_CORE_PROGRAM_ID ? authority : payer,
+  };
+}
+
+/**
+ * Resolve every top-level and inner instruction of a confirmed transaction,
+ * including accounts loaded from address lookup tables (v0 messages).
+ */
+export function resolveInstructions(tx: VersionedTransactionResponse): ResolvedInstruction[] {
+  const message = tx.transaction.message;
+  const keys = message.getAccountKeys({
+    accountKeysFromLookups: tx.meta?.loadedAddresses,
+  });
+  const keyAt = (i: number) => keys.get(i)?.toBase58() ?? '';
+
+  const resolved: ResolvedInstruction[] = message.compiledInstructions.map((ix) => ({
+    programId: keyAt(ix.programIdIndex),
+    accounts: ix.accountKeyIndexes.map(keyAt),
+    data: ix.data,
+  }));
+
+  for (const inner of tx.meta?.innerInstructions ?? []) {
+    for (const ix of inner.instructions) {
+      resolved.push({
+        programId: keyAt(ix.programIdIndex),
+        accounts: ix.accounts.map(keyAt),
+        data: bs58.decode(ix.data),
+      });
+    }
+  }
+
+  return resolved;
+}
+
+/** Accounts that signed the transaction (lookup-table accounts can never sign). */
+export function getSigners(tx: VersionedTransactionResponse): Set<string> {
+  const message = tx.transaction.message;
+  return new Set(
+    message.staticAccountKeys
+      .slice(0, message.header.numRequiredSignatures)
+      .map((k) => k.toBase58()),
+  );
+}
+
+export type BurnCheckCode = 'not_burned_in_tx' | 'wrong_collection' | 'wrong_authority';
+
+export type BurnCheck = { ok: true } | { ok: false; code: BurnCheckCode; error: string };
+
+/**
+ * Confirm that every claimed mint was burned by a BurnV1 instruction in `tx`,
+ * inside the expected collection, with `walletAddress` signing as authority.
+ *
+ * The authority signing only proves ownership when no burn delegate is set,
+ * so callers should also check the pre-burn owner (see getAssetBatch).
+ */
+export function verifyBurnTransaction(
+  tx: VersionedTransactionResponse,
+  walletAddress: string,
+  mints: string[],
+  collectionAddress: string,
+): BurnCheck {
+  const signers = getSigners(tx);
+  const burns = resolveInstructions(tx)
+    .map(decodeBurnV1)
+    .filter((b): b is DecodedBurn => !!b);
+
+  for (const mint of mints) {
+    const burn = burns.find((b) => b.asset === mint);
+    if (!burn) {
+      return { ok: false, code: 'not_burned_in_tx', error: `Mint ${mint.slice(0, 8)}… was not burned in this transaction` };
+    }
+    if (collectionAddress && burn.collection !== collectionAddress) {
+      return { ok: false, code: 'wrong_collection', error: `Mint ${mint.slice(0, 8)}… is not in the expected collection` };
+    }
+    if (burn.authority !== walletAddress || !signers.has(burn.authority)) {
+      return { ok: false, code: 'wrong_authority', error: `Mint ${mint.slice(0, 8)}… was not burned by the claimed wallet` };
+    }
+  }
+
+  return { ok: true };
+}
@@ -0,0 +1,80 @@
+import { ClientSession } from 'mongodb';
+import { Campaign } from '@/types';
+import { getBurntNFTsCollection, getCampaignsCollection } from '@/lib/mongodb';
+import { Parsed, campaignPatchSchema, campaignSchema, parseWith } from '@/lib/schemas';
+
+/** The campaign open at `now` — the most recently opened if several overlap. */
+export async function getActiveCampaign(now = new Date()): Promise<Campaign | null> {
+  const campaigns = await getCampaignsCollection();
+  const iso = now.toISOString();
+  return campaigns.findOne(
+    { opensAt: { $lte: iso }, closesAt: { $gt: iso } },
+    { projection: { _id: 0 }, sort: { opensAt: -1 } },
+  );
+}
+
+/**
+ * Check a batch against the campaign's global and per-wallet caps.
+ * Returns an error message, or null when the batch fits. Pass the `session`
+ * to count inside a transaction.
+ */
+export async function checkCampaignLimits(
+  campaign: Campaign,
+  walletAddress: string,
+  burnCount: number,
+  upgradeTargets: string[],
+  session?: ClientSession,
+): Promise<string | null> {
+  const collection = await getBurntNFTsCollection();
+  const inCampaign = { campaignId: campaign.id };
+  const byWallet = { campaignId: campaign.id, burntBy: walletAddress };
+  const withTarget = { upgradeTargetMint: { $exists: true, $ne: '' } };
+
+  const counts: Array<() => Promise<number>> = [
+    async () => (campaign.maxBurns !== undefined ? collection.countDocuments(inCampaign, { session }) : 0),
+    async () => (campaign.perWalletBurnLimit !== undefined ? collection.countDocuments(byWallet, { session }) : 0),
+    async () => (campaign.maxUpgrades !== undefined
+      ? (await collection.distinct('upgradeTargetMint', { ...inCampaign, ...withTarget }, { session })).length
+      : 0),
+    async () => (campaign.perWalletUpgradeLimit !== undefined
+      ? (await collection.distinct('upgradeTargetMint', { ...byWallet, ...withTarget }, { session })).length
+      : 0),
+  ];
+
+  // A transaction runs one operation at a time on its session — MongoDB
+  // doesn't support parallel operations inside one — so count in turn there
+  const results: number[] = [];
+  if (session) {
+    for (const count of counts) results.push(await count());
+  } else {
+    results.push(...await Promise.all(counts.map((count) => count())));
+  }
+  const [burns, walletBurns, upgrades, walletUpgrades] = results;
+
+  const upgradeCount = new Set(upgradeTargets).size;
+
+  if (campaign.maxBurns !== undefined && burns + burnCount > campaign.maxBurns) {
+    return `${campaign.name} has reached its limit of ${campaign.maxBurns} burns`;
+  }
+  if (campaign.maxUpgrades !== undefined && upgrades + upgradeCount > campaign.maxUpgrades) {
+    return `${campaign.name} has reached its limit of ${campaign.maxUpgrades} upgrades`;
+  }
+  if (campaign.perWalletBurnLimit !== undefined && walletBurns + burnCount > campaign.perWalletBurnLimit) {
+    return `Limit of ${campaign.perWalletBurnLimit} burns per wallet in ${campaign.name}`;
+  }
+  if (
+    campaign.perWalletUpgradeLimit !== undefined
+    && walletUpgrades + upgradeCount > campaign.perWalletUpgradeLimit
+  ) {
+    return `Limit of ${campaign.perWalletUpgradeLimit} upgrades per wallet in ${campaign.name}`;
+  }
+  return null;
+}
+
+/**
+ * Validate an admin-supplied campaign against campaignSchema, or with
+ * `partial` against campaignPatchSchema (PATCH — only the fields present).
+ */
+export function parseCampaign(body: unknown, partial = false): Parsed<Partial<Campaign>> {
+  return partial ? parseWith(campaignPatchSchema, body) : parseWith(campaignSchema, body);
+}
@@ -0,0 +1,206 @@
+import { createHmac } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import bs58 from 'bs58';
+import { NextRequest } from 'next/server';
+import {
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransactionResponse,
+} from '@solana/web3.js';
+import { ChainEvent } from '@/types';
+import { memoryDb } from '@/test/memoryMongo';
+import { ingestChainEvents } from '@/lib/chainEvents';
+import { recordBurnBatch } from '@/lib/burnRecording';
+import { getTransaction } from '@/lib/rpcPool';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import { POST } from '@/app/api/webhooks/chain-events/route';
+// Helius enhanced-transaction webhook bodies, in the shape Helius posts them
+import burnInCollection from '@/test/fixtures/helius/burn-in-collection.json';
+import burnOtherCollection from '@/test/fixtures/helius/burn-other-collection.json';
+
+vi.mock('@/lib/mongodb', async () => (await import('@/test/memoryMongo')).mongodbModule);
+vi.mock('@/lib/webhooks', () => ({ emitWebhookEvent: vi.fn() }));
+
+// The chain as the RPC pool sees it, by signature
+const chain = vi.hoisted(() => ({ transactions: new Map<string, unknown>() }));
+vi.mock('@/lib/rpcPool', () => ({
+  getTransaction: vi.fn(async (signature: string) => chain.transactions.get(signature) ?? null),
+}));
+
+const WALLET = '8SFqwqnq4whPhs8icwHA2hQg3hUoN1qrCLK1SBx3WKwe';
+const TARGET = 'GmaDrppBC7P5ARKV8g3djiwP89vz1jLK23V2GBjuAEGB';
+const SECRET = 'chain-webhook-secret';
+
+vi.mock('@/lib/das', () => ({
+  getAssetBatch: vi.fn(async (mints: string[]) =>
+    mints.map((mint) => ({
+      id: mint,
+      ownership: { owner: WALLET },
+      content: { metadata: { name: 'Devil #4', attributes: [] } },
+    })),
+  ),
+}));
+
+const [BURN] = burnInCollection as ChainEvent[];
+const [FOREIGN_BURN] = burnOtherCollection as ChainEvent[];
+const MINT = BURN.instructions[1].accounts[0];
+
+/**
+ * What getTransaction returns for `event` once it has landed: the same
+ * instructions compiled into a v0 message, signed by the fee payer.
+ */
+function landed(event: ChainEvent): VersionedTransactionResponse {
+  const payer = new PublicKey(event.feePayer as string);
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: bs58.encode(new Uint8Array(32).fill(7)),
+    instructions: event.instructions.map((ix) => new TransactionInstruction({
+      programId: new PublicKey(ix.programId),
+      keys: ix.accounts.map((account) => ({
+        pubkey: new PublicKey(account),
+        isSigner: account === payer.toBase58(),
+        isWritable: true,
+      })),
+      data: Buffer.from(bs58.decode(ix.data)),
+    })),
+  }).compileToV0Message();
+
+  return {
+    slot: event.slot as number,
+    blockTime: event.timestamp,
+    version: 0,
+    transaction: { message, signatures: [event.signature] },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [],
+      postBalances: [],
+      innerInstructions: [],
+      loadedAddresses: { writable: [], readonly: [] },
+    },
+  } as VersionedTransactionResponse;
+}
+
+function post(body: string, signature: string | null) {
+  return POST(new NextRequest('https://burn.example/api/webhooks/chain-events', {
+    method: 'POST',
+    body,
+    headers: signature ? { 'x-webhook-signature': signature } : {},
+  }));
+}
+
+const sign = (body: string) => createHmac('sha256', SECRET).update(body).digest('hex');
+const records = () => memoryDb.collection('burnt_nfts');
+
+beforeEach(async () => {
+  memoryDb.reset();
+  vi.clearAllMocks();
+  vi.stubEnv('CHAIN_WEBHOOK_SECRET', SECRET);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  chain.transactions = new Map([[BURN.signature, landed(BURN)], [FOREIGN_BURN.signature, landed(FOREIGN_BURN)]]);
+  await memoryDb.collection('campaigns').insertOne({
+    id: 's1',
+    name: 'Season 1',
+    opensAt: '2026-01-01T00:00:00.000Z',
+    closesAt: '2027-01-01T00:00:00.000Z',
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('POST /api/webhooks/chain-events', () => {
+  const body = JSON.stringify(burnInCollection);
+
+  it('refuses a body that does not match X-Webhook-Signature', async () => {
+    for (const signature of [null, 'not-hex', sign(`${body} `), createHmac('sha256', 'other').update(body).digest('hex')]) {
+      const response = await post(body, signature);
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toMatchObject({ success: false, code: 'signature_invalid' });
+    }
+    expect(getTransaction).not.toHaveBeenCalled();
+    expect(await records().countDocuments()).toBe(0);
+  });
+
+  it('records the burns in a signed body', async () => {
+    for (const signature of [sign(body), `sha256=${sign(body)}`]) {
+      const response = await post(body, signature);
+
+      expect(response.status).toBe(200);
+    }
+    expect(await records().countDocuments()).toBe(1);
+  });
+});
+
+describe('ingestChainEvents', () => {
+  it('ignores burns outside the collection', async () => {
+    const summary = await ingestChainEvents([FOREIGN_BURN]);
+
+    expect(summary).toEqual({ transactions: 1, burns: 0, recorded: 0 });
+    expect(getTransaction).not.toHaveBeenCalled();
+    expect(await records().countDocuments()).toBe(0);
+  });
+
+  it('records a BurnV1 confirmed on-chain as a webhook record', async () => {
+    const summary = await ingestChainEvents([BURN, FOREIGN_BURN]);
+
+    expect(summary).toEqual({ transactions: 2, burns: 1, recorded: 1 });
+    expect(getTransaction).toHaveBeenCalledWith(BURN.signature);
+    const record = await records().findOne({ mint: MINT }, { projection: { _id: 0 } });
+    expect(record).toEqual({
+      mint: MINT,
+      name: 'Devil #4',
+      burntBy: WALLET,
+      transactionSignature: BURN.signature,
+      burntAt: '2026-06-01T12:00:00.000Z',
+      campaignId: 's1',
+      source: 'webhook',
+    });
+    expect(emitWebhookEvent).toHaveBeenCalledWith('burn.recorded', {
+      walletAddress: WALLET,
+      source: 'webhook',
+      burns: [{ mint: MINT, name: 'Devil #4', transactionSignature: BURN.signature }],
+    });
+  });
+
+  it('trusts the chain, not the payload', async () => {
+    chain.transactions.set(BURN.signature, landed(FOREIGN_BURN));
+
+    expect(await ingestChainEvents([BURN])).toMatchObject({ burns: 0, recorded: 0 });
+
+    chain.transactions.delete(BURN.signature);
+    expect(await ingestChainEvents([BURN])).toMatchObject({ burns: 0, recorded: 0 });
+    expect(await records().countDocuments()).toBe(0);
+  });
+
+  it('records a redelivered burn once', async () => {
+    await ingestChainEvents([BURN]);
+    const summary = await ingestChainEvents([BURN]);
+
+    expect(summary).toEqual({ transactions: 1, burns: 1, recorded: 0 });
+    expect(await records().countDocuments({ mint: MINT })).toBe(1);
+    expect(emitWebhookEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives way to the wallet recording the same burn with its upgrade', async () => {
+    await ingestChainEvents([BURN]);
+
+    const { status, response } = await recordBurnBatch({
+      walletAddress: WALLET,
+      burns: [{ mintAddress: MINT, transactionSignature: BURN.signature, name: 'Devil #4' }],
+      upgrades: [{ burnedMint: MINT, upgradeMint: TARGET, upgradeName: 'Devil #7' }],
+    }, new Date('2026-06-01T12:00:30.000Z'));
+
+    expect(status).toBe(200);
+    expect(response.results).toMatchObject([{ mint: MINT, status: 'recorded' }]);
+    const [record] = await records().find({ mint: MINT }).toArray();
+    expect(record).toMatchObject({ burntBy: WALLET, transactionSignature: BURN.signature, upgradeTargetMint: TARGET });
+    expect(record.source).toBeUndefined();
+    expect(await records().countDocuments()).toBe(1);
+  });
+});
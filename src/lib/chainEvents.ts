@@ -0,0 +1,134 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import bs58 from 'bs58';
+import { BurntNFT, ChainEvent } from '@/types';
+import { getBurntNFTsCollection } from '@/lib/mongodb';
+import { DecodedBurn, decodeBurnV1, resolveInstructions } from '@/lib/burnVerification';
+import { getAssetBatch } from '@/lib/das';
+import { getTransaction } from '@/lib/rpcPool';
+import { getActiveCampaign } from '@/lib/campaigns';
+import { invalidateInventory } from '@/lib/inventory';
+import { emitWebhookEvent } from '@/lib/webhooks';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+const COLLECTION_ADDRESS = process.env.NEXT_PUBLIC_COLLECTION_ADDRESS || '';
+
+export interface ChainEventsSummary {
+  transactions: number;
+  // Burns in our collection confirmed on-chain
+  burns: number;
+  // …of which were not yet recorded and now are
+  recorded: number;
+}
+
+/**
+ * Check the `X-Webhook-Signature` header: hex HMAC-SHA256 of the raw body
+ * keyed with CHAIN_WEBHOOK_SECRET, optionally prefixed `sha256=`.
+ */
+export function verifyWebhookSignature(rawBody: string, header: string | null, secret: string): boolean {
+  if (!header) return false;
+  const given = Buffer.from(header.trim().replace(/^sha256=/, ''), 'hex');
+  const expected = createHmac('sha256', secret).update(rawBody).digest();
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// MPL Core burns in our collection named by the payload — only a hint; the
+// transaction is re-read on-chain before anything is recorded
+function payloadBurns(event: ChainEvent): DecodedBurn[] {
+  const instructions = event.instructions.flatMap((ix) => [ix, ...(ix.innerInstructions ?? [])]);
+  const burns: DecodedBurn[] = [];
+  for (const ix of instructions) {
+    let data: Uint8Array;
+    try {
+      data = bs58.decode(ix.data);
+    } catch {
+      continue;
+    }
+    const burn = decodeBurnV1({ programId: ix.programId, accounts: ix.accounts, data });
+    if (burn && burn.collection === COLLECTION_ADDRESS) burns.push(burn);
+  }
+  return burns;
+}
+
+/**
+ * Record the collection burns in a batch of webhook transactions. Each
+ * transaction that mentions one is fetched through the RPC pool and decoded
+ * again, and only burns confirmed there are stored — as `source: 'webhook'`
+ * records with no upgrade target, never overwriting an existing record.
+ */
+export async function ingestChainEvents(events: ChainEvent[]): Promise<ChainEventsSummary> {
+  const summary: ChainEventsSummary = { transactions: events.length, burns: 0, recorded: 0 };
+  if (!COLLECTION_ADDRESS) throw new Error('NEXT_PUBLIC_COLLECTION_ADDRESS is not set');
+
+  const confirmed: Array<{ burn: DecodedBurn; signature: string; burntAt: string }> = [];
+  for (const event of events) {
+    if (event.transactionError || payloadBurns(event).length === 0) continue;
+
+    const tx = await getTransaction(event.signature);
+    if (!tx || tx.meta?.err) {
+      console.warn('[chainEvents] Transaction not confirmed on-chain:', event.signature);
+      continue;
+    }
+    const burntAt = new Date(
+      tx.blockTime ? tx.blockTime * 1000 : (event.timestamp ?? Date.now() / 1000) * 1000,
+    ).toISOString();
+
+    for (const ix of resolveInstructions(tx)) {
+      const burn = decodeBurnV1(ix);
+      if (burn && burn.collection === COLLECTION_ADDRESS) {
+        confirmed.push({ burn, signature: event.signature, burntAt });
+      }
+    }
+  }
+  summary.burns = confirmed.length;
+  if (confirmed.length === 0) return summary;
+
+  const records = await getBurntNFTsCollection();
+  const recorded = new Set(await records.distinct('mint', {
+    mint: { $in: confirmed.map((c) => c.burn.asset) },
+  }));
+  const fresh = confirmed.filter((c) => !recorded.has(c.burn.asset));
+  if (fresh.length === 0) return summary;
+
+  // DAS still returns burnt assets, with their name and last owner
+  const assets = await getAssetBatch(fresh.map((c) => c.burn.asset));
+  const byOwner = new Map<string, BurntNFT[]>();
+
+  for (const [i, { burn, signature, burntAt }] of fresh.entries()) {
+    const asset = assets[i];
+    const campaign = await getActiveCampaign(new Date(burntAt));
+    const record: BurntNFT = {
+      mint: burn.asset,
+      name: asset?.content?.metadata?.name || '',
+      burntBy: asset?.ownership?.owner || burn.authority,
+      transactionSignature: signature,
+      burntAt,
+      ...(campaign && { campaignId: campaign.id }),
+      source: 'webhook',
+    };
+
+    try {
+      const result = await records.updateOne(
+        { mint: record.mint },
+        { $setOnInsert: record },
+        { upsert: true },
+      );
+      if (result.upsertedCount > 0) {
+        summary.recorded++;
+        byOwner.set(record.burntBy, [...(byOwner.get(record.burntBy) ?? []), record]);
+      }
+    } catch (error: any) {
+      // Recorded concurrently, by the wallet or a redelivery
+      if (error?.code !== 11000) throw error;
+    }
+  }
+
+  await invalidateInventory([...byOwner.keys()]);
+  for (const [walletAddress, burns] of byOwner) {
+    await emitWebhookEvent('burn.recorded', {
+      walletAddress,
+      source: 'webhook',
+      burns: burns.map(({ mint, name, transactionSignature }) => ({ mint, name, transactionSignature })),
+    });
+  }
+  return summary;
+}
@@ -0,0 +1,92 @@
+import { withRpc } from '@/lib/rpcPool';
+
+/**
+ * Minimal Helius DAS (Digital Asset Standard) client used by the server.
+ * Requests go through the RPC pool and fail over like any other RPC call.
+ */
+
+export interface DASAsset {
+  id: string;
+  burnt: boolean;
+  content?: {
+    metadata?: {
+      name?: string;
+      description?: string;
+      attributes?: Array<{ trait_type: string; value: string }>;
+    };
+    links?: { image?: string };
+    files?: Array<{ uri?: string; cdn_uri?: string }>;
+  };
+  grouping?: Array<{ group_key: string; group_value: string }>;
+  ownership?: { owner?: string };
+}
+
+export function dasRequest<T>(method: string, params: unknown): Promise<T> {
+  return withRpc(async ({ url }) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+      signal: AbortSignal.timeout(15_000),
+    });
+    if (!response.ok) {
+      throw new Error(`DAS ${method} HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (data.error) {
+      throw new Error(data.error.message || `DAS ${method} error`);
+    }
+    return data.result as T;
+  });
+}
+
+/** Fetch up to 1000 assets by id; burnt assets are still returned with their last owner. */
+export async function getAssetBatch(ids: string[]): Promise<Array<DASAsset | null>> {
+  if (ids.length === 0) return [];
+  return dasRequest<Array<DASAsset | null>>('getAssetBatch', { ids });
+}
+
+/**
+ * One page of the unburnt assets `owner` holds — only those in
+ * `collectionAddress` when one is given. `hasMore` is set while DAS returns
+ * full pages.
+ */
+export async function searchOwnerAssetsPage(
+  owner: string,
+  collectionAddress: string | undefined,
+  page: number,
+  limit = 1000,
+): Promise<{ items: DASAsset[]; hasMore: boolean }> {
+  const result = await dasRequest<{ items?: DASAsset[] }>('searchAssets', {
+    ownerAddress: owner,
+    ...(collectionAddress && { grouping: ['collection', collectionAddress] }),
+    burnt: false,
+    page,
+    limit,
+  });
+  const items = result?.items ?? [];
+  return { items, hasMore: items.length === limit };
+}
+
+export function getAssetCollection(asset: DASAsset): string | null {
+  return asset.grouping?.find((g) => g.group_key === 'collection')?.group_value ?? null;
+}
+
+/** Every burnt asset in a collection, following DAS pagination. */
+export async function searchBurntAssets(collectionAddress: string): Promise<DASAsset[]> {
+  const PAGE_LIMIT = 1000;
+  const assets: DASAsset[] = [];
+
+  for (let page = 1; ; page++) {
+    const result = await dasRequest<{ items?: DASAsset[] }>('searchAssets', {
+      grouping: ['collection', collectionAddress],
+      burnt: true,
+      page,
+      limit: PAGE_LIMIT,
+    });
+    const items = result?.items ?? [];
+    assets.push(...items);
+    if (items.length < PAGE_LIMIT) return assets;
+  }
+}
@@ -0,0 +1,14 @@
+const network = process.env.NEXT_PUBLIC_SOLANA_NETWORK || 'devnet';
+const clusterParam = network === 'mainnet-beta' ? '' : `?cluster=${network}`;
+
+export function explorerTxUrl(signature: string): string {
+  return `https://explorer.solana.com/tx/${signature}${clusterParam}`;
+}
+
+export function explorerAddressUrl(address: string): string {
+  return `https://explorer.solana.com/address/${address}${clusterParam}`;
+}
+
+export function shortAddress(address: string, head = 4, tail = 4): string {
+  return address.length > head + tail ? `${address.slice(0, head)}…${address.slice(-tail)}` : address;
+}
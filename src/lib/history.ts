@@ -0,0 +1,113 @@
+import { BurnHistoryGroup, BurnHistoryTarget, BurntNFT } from '@/types';
+import { getBurntNFTsCollection } from '@/lib/mongodb';
+import { DASAsset, getAssetBatch } from '@/lib/das';
+import { toNFT } from '@/lib/inventory';
+
+export interface BurnHistoryPage {
+  groups: BurnHistoryGroup[];
+  total: number;
+}
+
+type HistoryRecord = Pick<
+  BurntNFT,
+  | 'mint'
+  | 'name'
+  | 'campaignId'
+  | 'source'
+  | 'upgradeTargetMint'
+  | 'upgradeTargetName'
+  | 'upgradeStatus'
+  | 'upgradeStatusUpdatedAt'
+  | 'upgradeSignature'
+>;
+
+/**
+ * The wallet's burn records grouped by burn transaction, newest first, with
+ * the current name and image of each upgrade target.
+ */
+export async function getBurnHistory(walletAddress: string, page: number, limit: number): Promise<BurnHistoryPage> {
+  const collection = await getBurntNFTsCollection();
+  const [result] = await collection
+    .aggregate<{
+      groups: Array<{ _id: string; burntAt: string; records: HistoryRecord[] }>;
+      total: Array<{ n: number }>;
+    }>([
+      { $match: { burntBy: walletAddress } },
+      { $sort: { burntAt: -1, mint: 1 } },
+      {
+        $group: {
+          _id: '$transactionSignature',
+          burntAt: { $max: '$burntAt' },
+          records: {
+            $push: {
+              mint: '$mint',
+              name: '$name',
+              campaignId: '$campaignId',
+              source: '$source',
+              upgradeTargetMint: '$upgradeTargetMint',
+              upgradeTargetName: '$upgradeTargetName',
+              upgradeStatus: '$upgradeStatus',
+              upgradeStatusUpdatedAt: '$upgradeStatusUpdatedAt',
+              upgradeSignature: '$upgradeSignature',
+            },
+          },
+        },
+      },
+      { $sort: { burntAt: -1, _id: 1 } },
+      {
+        $facet: {
+          groups: [{ $skip: (page - 1) * limit }, { $limit: limit }],
+          total: [{ $count: 'n' }],
+        },
+      },
+    ])
+    .toArray();
+
+  const groups = result?.groups ?? [];
+  const targetMints = [...new Set(
+    groups.flatMap((g) => g.records.map((r) => r.upgradeTargetMint).filter((m): m is string => !!m)),
+  )];
+
+  // Names and images are a nicety — the history is still useful without them
+  const assets = new Map<string, DASAsset>();
+  try {
+    for (const asset of await getAssetBatch(targetMints)) {
+      if (asset) assets.set(asset.id, asset);
+    }
+  } catch (error: any) {
+    console.warn('[history] Could not load upgrade targets from DAS:', error?.message);
+  }
+
+  return {
+    total: result?.total[0]?.n ?? 0,
+    groups: groups.map(({ _id, burntAt, records }) => {
+      const targets = new Map<string, BurnHistoryTarget>();
+      for (const r of records) {
+        if (!r.upgradeTargetMint || targets.has(r.upgradeTargetMint)) continue;
+        const asset = assets.get(r.upgradeTargetMint);
+        const nft = asset ? toNFT(asset) : null;
+        targets.set(r.upgradeTargetMint, {
+          mint: r.upgradeTargetMint,
+          name: nft?.name || r.upgradeTargetName || 'Unknown',
+          image: nft?.image ?? '',
+          upgradeStatus: r.upgradeStatus ?? 'pending',
+          ...(r.upgradeStatusUpdatedAt && { upgradeStatusUpdatedAt: r.upgradeStatusUpdatedAt }),
+          ...(r.upgradeSignature && { upgradeSignature: r.upgradeSignature }),
+        });
+      }
+
+      return {
+        transactionSignature: _id,
+        burntAt,
+        burns: records.map(({ mint, name, upgradeTargetMint, campaignId, source }) => ({
+          mint,
+          name,
+          ...(upgradeTargetMint && { upgradeTargetMint }),
+          ...(campaignId && { campaignId }),
+          ...(source && { source }),
+        })),
+        targets: [...targets.values()],
+      };
+    }),
+  };
+}
@@ -0,0 +1,87 @@
+import { createHash } from 'crypto';
+import { BurnBatchBody, BurnBatchResponse } from '@/types';
+import { getIdempotencyCollection } from '@/lib/mongodb';
+
+const KEY_TTL_MS = 24 * 60 * 60_000; // replays are honoured for a day
+const LOCK_MS    = 2 * 60_000;       // a crashed request frees its key after this
+
+export const IDEMPOTENCY_KEY_RE = /^[A-Za-z0-9_-]{8,128}$/;
+
+export type IdempotencyClaim =
+  | { kind: 'new' }
+  | { kind: 'replay'; status: number; response: BurnBatchResponse }
+  | { kind: 'mismatch' }
+  | { kind: 'in_progress' };
+
+/** Hash of the fields that make two batches "the same request". */
+export function hashBurnBatch(body: BurnBatchBody): string {
+  const { walletAddress, burns, upgrades } = body;
+  return createHash('sha256')
+    .update(JSON.stringify({ walletAddress, burns, upgrades }))
+    .digest('hex');
+}
+
+/**
+ * Claim `key` for this wallet before processing a request. A completed key
+ * returns its stored response, a key reused for a different body is a
+ * mismatch, and a key still being processed (lock not yet expired) is
+ * reported as in progress.
+ */
+export async function claimIdempotencyKey(
+  key: string,
+  walletAddress: string,
+  requestHash: string,
+): Promise<IdempotencyClaim> {
+  const collection = await getIdempotencyCollection();
+  const now = new Date();
+  const lockedUntil = new Date(now.getTime() + LOCK_MS).toISOString();
+
+  try {
+    await collection.insertOne({
+      key,
+      walletAddress,
+      requestHash,
+      state: 'processing',
+      lockedUntil,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + KEY_TTL_MS),
+    });
+    return { kind: 'new' };
+  } catch (error: any) {
+    if (error?.code !== 11000) throw error;
+  }
+
+  const existing = await collection.findOne({ key, walletAddress });
+  if (!existing) return { kind: 'in_progress' }; // expired between insert and read
+  if (existing.requestHash !== requestHash) return { kind: 'mismatch' };
+  if (existing.state === 'completed' && existing.response && existing.status) {
+    return { kind: 'replay', status: existing.status, response: existing.response };
+  }
+
+  // Take over a lock left behind by a request that never finished
+  const taken = await collection.findOneAndUpdate(
+    { key, walletAddress, state: 'processing', lockedUntil: { $lt: now.toISOString() } },
+    { $set: { lockedUntil } },
+  );
+  return taken ? { kind: 'new' } : { kind: 'in_progress' };
+}
+
+/** Store a successful response so replays of `key` return it unchanged. */
+export async function completeIdempotencyKey(
+  key: string,
+  walletAddress: string,
+  status: number,
+  response: BurnBatchResponse,
+): Promise<void> {
+  const collection = await getIdempotencyCollection();
+  await collection.updateOne(
+    { key, walletAddress },
+    { $set: { state: 'completed', status, response } },
+  );
+}
+
+/** Free `key` after a failed attempt so the client can retry with it. */
+export async function releaseIdempotencyKey(key: string, walletAddress: string): Promise<void> {
+  const collection = await getIdempotencyCollection();
+  await collection.deleteOne({ key, walletAddress, state: 'processing' });
+}
@@ -0,0 +1,38 @@
+/**
+ * Image hosts Next may optimise, shared by `images.remotePatterns` in
+ * next.config.ts and the grid, which loads anything else unoptimised rather
+ * than letting the image loader reject it. Covers the Helius CDN (`cdn_uri`)
+ * and the storage gateways DAS metadata usually points at.
+ *
+ * `**.` matches any subdomain, as in remotePatterns.
+ */
+export const IMAGE_HOSTS = [
+  'cdn.helius-rpc.com',
+  'arweave.net',
+  '**.arweave.net',
+  '**.irys.xyz',
+  'ipfs.io',
+  '**.ipfs.io',
+  '**.dweb.link',
+  'nftstorage.link',
+  '**.nftstorage.link',
+  '**.pinata.cloud',
+  '**.mypinata.cloud',
+  'shdw-drive.genesysgo.net',
+];
+
+export function isOptimizableImage(src: string): boolean {
+  // Local assets such as the placeholder
+  if (src.startsWith('/')) return true;
+
+  let url: URL;
+  try {
+    url = new URL(src);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:') return false;
+  return IMAGE_HOSTS.some((host) =>
+    host.startsWith('**.') ? url.hostname.endsWith(host.slice(2)) : url.hostname === host,
+  );
+}
@@ -0,0 +1,99 @@
+import { NFT } from '@/types';
+import { getBurntNFTsCollection, getInventoryCacheCollection } from '@/lib/mongodb';
+import { DASAsset, searchOwnerAssetsPage } from '@/lib/das';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+const CACHE_TTL_MS       = 60_000;
+// Small enough that the first page renders quickly in a large wallet
+const PAGE_SIZE          = 250;
+const COLLECTION_ADDRESS = process.env.NEXT_PUBLIC_COLLECTION_ADDRESS || '';
+
+export interface Inventory {
+  nfts: NFT[];
+  lockedMints: string[];
+  page: number;
+  hasMore: boolean;
+  cachedAt: string;
+}
+
+export function toNFT(asset: DASAsset): NFT {
+  const metadata = asset.content?.metadata ?? {};
+  return {
+    mint: asset.id,
+    name: (metadata.name || `NFT ${asset.id.slice(0, 8)}`).trim(),
+    image:
+      asset.content?.links?.image
+      || asset.content?.files?.[0]?.cdn_uri
+      || asset.content?.files?.[0]?.uri
+      || '',
+    description: metadata.description || '',
+    attributes: metadata.attributes || [],
+  };
+}
+
+/**
+ * Mints recorded as upgrade targets for this wallet's burns. They must not
+ * be offered for burning.
+ */
+export async function getLockedMints(walletAddress: string): Promise<string[]> {
+  const collection = await getBurntNFTsCollection();
+  const records = await collection
+    .find(
+      { burntBy: walletAddress, upgradeTargetMint: { $exists: true, $ne: '' } },
+      { projection: { upgradeTargetMint: 1, _id: 0 } },
+    )
+    .toArray();
+
+  // Several burns can share one target under multi-burn recipes
+  return [...new Set(
+    records
+      .map((r) => r.upgradeTargetMint)
+      .filter((m): m is string => !!m),
+  )];
+}
+
+/**
+ * One page of the wallet's NFTs in the collection (all of them if no
+ * collection is configured) with its locked mints. Pages follow DAS
+ * pagination; `hasMore` says whether to ask for the next one. Each page is
+ * served from `inventory_cache` for up to CACHE_TTL_MS unless `refresh` is set.
+ */
+export async function getInventory(walletAddress: string, page = 1, refresh = false): Promise<Inventory> {
+  const cache = await getInventoryCacheCollection();
+
+  if (!refresh) {
+    const cached = await cache.findOne(
+      { walletAddress, page, expiresAt: { $gt: new Date() } },
+      { projection: { _id: 0, nfts: 1, lockedMints: 1, page: 1, hasMore: 1, cachedAt: 1 } },
+    );
+    if (cached) return cached;
+  }
+
+  const [{ items, hasMore }, lockedMints] = await Promise.all([
+    searchOwnerAssetsPage(walletAddress, COLLECTION_ADDRESS || undefined, page, PAGE_SIZE),
+    getLockedMints(walletAddress),
+  ]);
+
+  const now = Date.now();
+  const inventory: Inventory = {
+    nfts: items.filter((a) => !a.burnt).map(toNFT),
+    lockedMints,
+    page,
+    hasMore,
+    cachedAt: new Date(now).toISOString(),
+  };
+
+  await cache.updateOne(
+    { walletAddress, page },
+    { $set: { ...inventory, expiresAt: new Date(now + CACHE_TTL_MS) } },
+    { upsert: true },
+  );
+  return inventory;
+}
+
+/** Drop cached inventories, e.g. once a wallet's burns are recorded. */
+export async function invalidateInventory(walletAddresses: string[]): Promise<void> {
+  if (walletAddresses.length === 0) return;
+  const cache = await getInventoryCacheCollection();
+  await cache.deleteMany({ walletAddress: { $in: walletAddresses } });
+}
@@ -1,5 +1,21 @@
-import { MongoClient, Db, Collection } from 'mongodb';
-import { BurntNFT } from '@/types';
+import { MongoClient, Db, Collection, ClientSession } from 'mongodb';
+import {
+  BurntNFT,
+  AuthNonce,
+  AuthSession,
+  BurnRecipe,
+  Campaign,
+  CommitGuard,
+  IdempotencyRecord,
+  InventoryCacheEntry,
+  LeaderboardProfile,
+  PendingBurn,
+  RateLimitHit,
+  ReconciliationFinding,
+  UpgradeClaim,
+  WebhookDelivery,
+  WebhookEndpoint,
+} from '@/types';
 
 const MONGODB_URI = process.env.MONGODB_URI;
 const DB_NAME = 'de_evils_burn';
@@ -35,7 +51,7 @@ export async function getDb(): Promise<Db> {
 
 // Version bump this whenever index definitions change — forces re-run even if
 // the global flag was cached from a previous HMR cycle.
-const INDEX_VERSION = 3;
+const INDEX_VERSION = 17;
 
 // Create all indexes once per process lifecycle (idempotent, no-op after first run)
 async function ensureIndexes(db: Db) {
@@ -51,32 +67,189 @@ async function ensureIndexes(db: Db) {
   await Promise.all([
     // Unique constraints — primary defence against duplicates
     col.createIndex({ mint: 1 }, { unique: true }),
-    // Unique sparse — each upgrade target can only be claimed by one burn
-    col.createIndex({ upgradeTargetMint: 1 }, { unique: true, sparse: true }),
+    // Several burns may feed one target (recipes), so targets are non-unique…
+    col.createIndex({ upgradeTargetMint: 1 }, { sparse: true }),
+    // …but each `<target>#<n>` slot can only be claimed once
+    col.createIndex({ upgradeClaimSlot: 1 }, { unique: true, sparse: true }),
     // Non-unique — allows multiple mints per transaction (batched burns)
     col.createIndex({ transactionSignature: 1 }),
     col.createIndex({ burntAt: -1 }),
     col.createIndex({ burntBy: 1 }),
+    // Campaign caps and per-wallet limits
+    col.createIndex({ campaignId: 1, burntBy: 1 }),
+    // Admin fulfilment queue — list by status, oldest first
+    col.createIndex({ upgradeStatus: 1, burntAt: 1 }),
   ]);
 
-  // Rate-limit collection with TTL
+  // Rate-limit hits — sliding windows per key, each hit expires with its window
   const rl = db.collection('rate_limits');
-  try {
-    await rl.createIndex({ createdAt: 1 }, { expireAfterSeconds: 60 });
-    await rl.createIndex({ ip: 1 });
-  } catch { /* already exists */ }
+  for (const idx of ['createdAt_1', 'ip_1']) {
+    try { await rl.dropIndex(idx); } catch { /* may not exist */ }
+  }
+  await rl.createIndex({ key: 1, createdAt: 1 });
+  await rl.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+  // Wallet sign-in — nonces and sessions expire via TTL on `expiresAt`
+  await Promise.all([
+    db.collection('auth_nonces').createIndex({ nonce: 1 }, { unique: true }),
+    db.collection('auth_nonces').createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+    db.collection('auth_sessions').createIndex({ tokenHash: 1 }, { unique: true }),
+    db.collection('auth_sessions').createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+  ]);
+
+  await db.collection('upgrade_recipes').createIndex({ id: 1 }, { unique: true });
+  await db.collection('campaigns').createIndex({ id: 1 }, { unique: true });
+  await db.collection('campaigns').createIndex({ opensAt: 1, closesAt: 1 });
+
+  const findings = db.collection('reconciliation_findings');
+  await findings.createIndex({ id: 1 }, { unique: true });
+  await findings.createIndex({ status: 1, kind: 1, lastSeenAt: -1 });
+
+  const pending = db.collection('pending_burns');
+  await pending.createIndex({ id: 1 }, { unique: true });
+  // Sweeper picks the oldest pending entries first
+  await pending.createIndex({ status: 1, createdAt: 1 });
+
+  // Idempotency keys are scoped per wallet and expire via TTL on `expiresAt`
+  const idem = db.collection('idempotency_keys');
+  await idem.createIndex({ walletAddress: 1, key: 1 }, { unique: true });
+  await idem.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+  // One claim per upgrade target — the unique index makes racing claims conflict
+  const claims = db.collection('upgrade_claims');
+  await claims.createIndex({ targetMint: 1 }, { unique: true });
+  await claims.createIndex({ walletAddress: 1, claimedAt: -1 });
+  await db.collection('commit_guards').createIndex({ key: 1 }, { unique: true });
+
+  // Wallet inventories read from DAS, one entry per page, kept briefly
+  const inventory = db.collection('inventory_cache');
+  // Was unique per wallet before inventories were paged
+  try { await inventory.dropIndex('walletAddress_1'); } catch { /* may not exist */ }
+  await inventory.createIndex({ walletAddress: 1, page: 1 }, { unique: true });
+  await inventory.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+  // Outbound webhooks — endpoints by subscribed event, deliveries by due time
+  const hooks = db.collection('webhook_endpoints');
+  await hooks.createIndex({ id: 1 }, { unique: true });
+  await hooks.createIndex({ active: 1, events: 1 });
+  const deliveries = db.collection('webhook_deliveries');
+  await deliveries.createIndex({ id: 1 }, { unique: true });
+  await deliveries.createIndex({ status: 1, nextAttemptAt: 1 });
+  await deliveries.createIndex({ endpointId: 1, createdAt: -1 });
+  await deliveries.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+  // Leaderboard consent — the leaderboard reads visible wallets only
+  const profiles = db.collection('leaderboard_profiles');
+  await profiles.createIndex({ walletAddress: 1 }, { unique: true });
+  await profiles.createIndex({ visible: 1 });
 
   global._indexesEnsured = INDEX_VERSION;
 }
 
+/**
+ * Run `fn` in a multi-document transaction (needs a replica set; Atlas
+ * clusters are one). The driver reruns `fn` on transient errors such as write
+ * conflicts, so it must not carry state over from an earlier attempt.
+ */
+export async function withTransaction<T>(fn: (session: ClientSession) => Promise<T>): Promise<T> {
+  const client = await clientPromise;
+  const session = client.startSession();
+  try {
+    return await session.withTransaction(fn, {
+      readConcern: { level: 'snapshot' },
+      writeConcern: { w: 'majority' },
+    });
+  } finally {
+    await session.endSession();
+  }
+}
+
 export async function getBurntNFTsCollection(): Promise<Collection<BurntNFT>> {
   const db = await getDb();
   await ensureIndexes(db);
   return db.collection<BurntNFT>('burnt_nfts');
 }
 
-export async function getRateLimitCollection(): Promise<Collection<{ ip: string; createdAt: Date }>> {
+export async function getRateLimitCollection(): Promise<Collection<RateLimitHit>> {
+  const db = await getDb();
+  await ensureIndexes(db);
+  return db.collection<RateLimitHit>('rate_limits');
+}
+
+export async function getAuthNoncesCollection(): Promise<Collection<AuthNonce>> {
+  const db = await getDb();
+  await ensureIndexes(db);
+  return db.collection<AuthNonce>('auth_nonces');
+}
+
+export async function getAuthSessionsCollection(): Promise<Collection<AuthSession>> {
+  const db = await getDb();
+  await ensureIndexes(db);
+  return db.collection<AuthSession>('auth_sessions');
+}
+
+export async function getRecipesCollection(): Promise<Collection<BurnRecipe>> {
+  const db = await getDb();
+  await ensureIndexes(db);
+  return db.collection<BurnRecipe>('upgrade_recipes');
+}
+
+export async function getCampaignsCollection(): Promise<Collection<Campaign>> {
+  const db = await getDb();
+  await ensureIndexes(db);
+  return db.collection<Campaign>('campaigns');
+}
+
+export async function getReconciliationFindingsCollection(): Promise<Collection<ReconciliationFinding>> {
+  const db = await getDb();
+  await ensureIndexes(db);
+  return db.collection<ReconciliationFinding>('reconciliation_findings');
+}
+
+export async function getPendingBurnsCollection(): Promise<Collection<PendingBurn>> {
+  const db = await getDb();
+  await ensureIndexes(db);
+  return db.collection<PendingBurn>('pending_burns');
+}
+
+export async function getIdempotencyCollection(): Promise<Collection<IdempotencyRecord>> {
+  const db = await getDb();
+  await ensureIndexes(db);
+  return db.collection<IdempotencyRecord>('idempotency_keys');
+}
+
+export async function getUpgradeClaimsCollection(): Promise<Collection<UpgradeClaim>> {
+  const db = await getDb();
+  await ensureIndexes(db);
+  return db.collection<UpgradeClaim>('upgrade_claims');
+}
+
+export async function getCommitGuardsCollection(): Promise<Collection<CommitGuard>> {
+  const db = await getDb();
+  await ensureIndexes(db);
+  return db.collection<CommitGuard>('commit_guards');
+}
+
+export async function getInventoryCacheCollection(): Promise<Collection<InventoryCacheEntry>> {
+  const db = await getDb();
+  await ensureIndexes(db);
+  return db.collection<InventoryCacheEntry>('inventory_cache');
+}
+
+export async function getWebhookEndpointsCollection(): Promise<Collection<WebhookEndpoint>> {
+  const db = await getDb();
+  await ensureIndexes(db);
+  return db.collection<WebhookEndpoint>('webhook_endpoints');
+}
+
+export async function getWebhookDeliveriesCollection(): Promise<Collection<WebhookDelivery>> {
+  const db = await getDb();
+  await ensureIndexes(db);
+  return db.collection<WebhookDelivery>('webhook_deliveries');
+}
+
+export async function getLeaderboardProfilesCollection(): Promise<Collection<LeaderboardProfile>> {
   const db = await getDb();
   await ensureIndexes(db);
-  return db.collection('rate_limits');
+  return db.collection<LeaderboardProfile>('leaderboard_profiles');
 }
@@ -0,0 +1,97 @@
+import { NFT } from '@/types';
+
+/**
+ * Trait helpers for the NFT grid: facets, search, sorting and a rarity score.
+ * Everything is computed from the NFTs passed in — for the wizard that is
+ * the connected wallet's inventory, not the whole collection.
+ */
+
+export type NFTSort = 'wallet' | 'name' | 'number' | 'rarity';
+
+// trait_type → selected values; an NFT must match one value of every trait
+export type TraitFilters = Record<string, string[]>;
+
+export interface TraitFacet {
+  trait_type: string;
+  values: Array<{ value: string; count: number }>;
+}
+
+const traitsOf = (nft: NFT) => nft.attributes ?? [];
+
+/** Every trait type and value present, with counts, most common value first. */
+export function traitFacets(nfts: NFT[]): TraitFacet[] {
+  const counts = new Map<string, Map<string, number>>();
+  for (const nft of nfts) {
+    for (const { trait_type, value } of traitsOf(nft)) {
+      const values = counts.get(trait_type) ?? new Map<string, number>();
+      values.set(String(value), (values.get(String(value)) ?? 0) + 1);
+      counts.set(trait_type, values);
+    }
+  }
+  return [...counts.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([trait_type, values]) => ({
+      trait_type,
+      values: [...values.entries()]
+        .map(([value, count]) => ({ value, count }))
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)),
+    }));
+}
+
+/**
+ * Statistical rarity: the sum of 1 / (share of NFTs with that trait value)
+ * over an NFT's traits. Higher is rarer.
+ */
+export function rarityScores(nfts: NFT[]): Map<string, number> {
+  const frequency = new Map<string, number>();
+  for (const nft of nfts) {
+    for (const { trait_type, value } of traitsOf(nft)) {
+      const key = `${trait_type}\u0000${value}`;
+      frequency.set(key, (frequency.get(key) ?? 0) + 1);
+    }
+  }
+  return new Map(nfts.map((nft) => [
+    nft.mint,
+    traitsOf(nft).reduce(
+      (score, { trait_type, value }) => score + nfts.length / frequency.get(`${trait_type}\u0000${value}`)!,
+      0,
+    ),
+  ]));
+}
+
+/** The edition number in names like "Devil #123", if any. */
+export function nftNumber(nft: NFT): number | null {
+  const match = nft.name.match(/#\s*(\d+)\s*$/);
+  return match ? Number(match[1]) : null;
+}
+
+export function matchesSearch(nft: NFT, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return nft.name.toLowerCase().includes(q)
+    || nft.mint.toLowerCase() === q
+    || traitsOf(nft).some((a) => String(a.value).toLowerCase().includes(q));
+}
+
+export function matchesTraits(nft: NFT, filters: TraitFilters): boolean {
+  return Object.entries(filters).every(([trait_type, values]) =>
+    values.length === 0
+    || traitsOf(nft).some((a) => a.trait_type === trait_type && values.includes(String(a.value))),
+  );
+}
+
+/** A sorted copy; `wallet` keeps the order the NFTs came in. */
+export function sortNFTs(nfts: NFT[], sort: NFTSort, rarity: Map<string, number>): NFT[] {
+  const sorted = [...nfts];
+  switch (sort) {
+    case 'name':
+      return sorted.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    case 'number':
+      // Unnumbered NFTs go last
+      return sorted.sort((a, b) => (nftNumber(a) ?? Infinity) - (nftNumber(b) ?? Infinity) || a.name.localeCompare(b.name));
+    case 'rarity':
+      return sorted.sort((a, b) => (rarity.get(b.mint) ?? 0) - (rarity.get(a.mint) ?? 0));
+    default:
+      return sorted;
+  }
+}
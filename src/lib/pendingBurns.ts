@@ -0,0 +1,137 @@
+import { BurnBatchBody, PendingBurn } from '@/types';
+import { getPendingBurnsCollection } from '@/lib/mongodb';
+import { recordBurnBatch } from '@/lib/burnRecording';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+const LEASE_MS      = 2 * 60_000;  // one sweeper per entry at a time
+const MIN_AGE_MS    = 2 * 60_000;  // give the client's own attempt a head start
+const MAX_ATTEMPTS  = 10;          // server errors before giving up
+const DEFAULT_LIMIT = 25;
+
+export interface SweepResult {
+  recorded: string[];
+  partial: Array<{ id: string; error: string }>;
+  rejected: Array<{ id: string; error: string }>;
+  retrying: string[];
+}
+
+/**
+ * Store a batch whose burns are confirmed on-chain but not yet recorded.
+ * Idempotent per journal id — resubmitting an entry changes nothing.
+ */
+export async function intakePendingBurn(
+  id: string,
+  walletAddress: string,
+  request: BurnBatchBody,
+): Promise<void> {
+  const collection = await getPendingBurnsCollection();
+  const now = new Date().toISOString();
+  await collection.updateOne(
+    { id },
+    {
+      $setOnInsert: {
+        id,
+        walletAddress,
+        request: { ...request, journalId: id },
+        status: 'pending',
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now,
+      },
+    },
+    { upsert: true },
+  );
+}
+
+/** Settle an entry after the client recorded it — fully, or only in part. */
+export async function markPendingBurnRecorded(
+  id: string,
+  walletAddress: string,
+  partialError?: string,
+): Promise<void> {
+  const collection = await getPendingBurnsCollection();
+  const fields: Partial<PendingBurn> = partialError
+    ? { status: 'partial', lastError: partialError }
+    : { status: 'recorded' };
+  await collection.updateOne(
+    { id, walletAddress, status: 'pending' },
+    { $set: { ...fields, updatedAt: new Date().toISOString() }, $unset: { leaseUntil: '' } },
+  );
+}
+
+/**
+ * Record pending batches that the client never managed to record, oldest
+ * first. Each entry is leased so concurrent sweeps never record it twice, and
+ * is judged by the campaign and recipe in force when it was taken in.
+ *
+ * A partly recorded batch (207) is settled as `partial` and 4xx outcomes are
+ * final (`rejected`) — the burns left out are then for reconciliation to flag. Server errors are retried up to MAX_ATTEMPTS times.
+ */
+export async function sweepPendingBurns(
+  options: { limit?: number } = {},
+): Promise<SweepResult> {
+  const collection = await getPendingBurnsCollection();
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const result: SweepResult = { recorded: [], partial: [], rejected: [], retrying: [] };
+
+  for (let i = 0; i < limit; i++) {
+    const now = new Date();
+    const entry = await collection.findOneAndUpdate(
+      {
+        status: 'pending',
+        createdAt: { $lt: new Date(now.getTime() - MIN_AGE_MS).toISOString() },
+        $or: [
+          { leaseUntil: { $exists: false } },
+          { leaseUntil: { $lt: now.toISOString() } },
+        ],
+      },
+      {
+        $set: { leaseUntil: new Date(now.getTime() + LEASE_MS).toISOString() },
+        $inc: { attempts: 1 },
+      },
+      { sort: { createdAt: 1 }, returnDocument: 'after' },
+    );
+    if (!entry) break;
+
+    const settle = (fields: Partial<PendingBurn>) =>
+      collection.updateOne(
+        { id: entry.id },
+        { $set: { ...fields, updatedAt: new Date().toISOString() }, $unset: { leaseUntil: '' } },
+      );
+
+    try {
+      const outcome = await recordBurnBatch(entry.request, new Date(entry.createdAt));
+
+      // A batch the client already recorded comes back as `already_recorded`
+      if (outcome.response.success) {
+        await settle({ status: 'recorded' });
+        result.recorded.push(entry.id);
+      } else if (outcome.status === 207) {
+        const error = outcome.response.error || 'Partly recorded';
+        await settle({ status: 'partial', lastError: error });
+        result.partial.push({ id: entry.id, error });
+      } else if (outcome.status >= 400 && outcome.status < 500) {
+        const error = outcome.response.error || `HTTP ${outcome.status}`;
+        await settle({ status: 'rejected', lastError: error });
+        result.rejected.push({ id: entry.id, error });
+      } else {
+        throw new Error(outcome.response.error || `HTTP ${outcome.status}`);
+      }
+    } catch (error: any) {
+      const message = error?.message || 'Unknown error';
+      if (entry.attempts >= MAX_ATTEMPTS) {
+        await settle({ status: 'rejected', lastError: message });
+        result.rejected.push({ id: entry.id, error: message });
+      } else {
+        // Keep the lease so the entry waits LEASE_MS before its next attempt
+        await collection.updateOne(
+          { id: entry.id },
+          { $set: { lastError: message, updatedAt: new Date().toISOString() } },
+        );
+        result.retrying.push(entry.id);
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { memoryDb } from '@/test/memoryMongo';
+import { getRateLimitCollection } from '@/lib/mongodb';
+import {
+  RateLimitPolicy,
+  checkRateLimit,
+  checkRateLimits,
+  getClientIp,
+  rateLimitHeaders,
+  rateLimitedResponse,
+  withRateLimitHeaders,
+} from '@/lib/rateLimit';
+
+vi.mock('@/lib/mongodb', async () => {
+  const { mongodbModule } = await import('@/test/memoryMongo');
+  return { ...mongodbModule, getRateLimitCollection: vi.fn(mongodbModule.getRateLimitCollection) };
+});
+
+const T0 = new Date('2026-06-01T00:00:00.000Z').getTime();
+const TWO_PER_SECOND: RateLimitPolicy = { id: 'test:ip', scope: 'ip', limit: 2, windowMs: 1_000 };
+
+// The in-memory store lives for the whole file, so every test counts its own subject
+let n = 0;
+const freshSubject = () => `10.0.0.${++n}`;
+
+const at = (ms: number) => vi.setSystemTime(T0 + ms);
+
+beforeEach(() => {
+  memoryDb.reset();
+  vi.useFakeTimers({ toFake: ['Date'] });
+  at(0);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  vi.mocked(getRateLimitCollection).mockReset();
+  vi.mocked(getRateLimitCollection).mockImplementation(async () => memoryDb.collection('rate_limits') as never);
+});
+
+// Both stores must behave the same; the memory one is reached through the
+// fallback, with the Mongo store failing on every hit
+describe.each([
+  ['Mongo store', false],
+  ['memory fallback', true],
+])('sliding window — %s', (_name, mongoDown) => {
+  beforeEach(() => {
+    if (mongoDown) {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(getRateLimitCollection).mockRejectedValue(new Error('connection refused'));
+    }
+  });
+
+  it('refuses hits past the limit until the oldest leaves the window', async () => {
+    const ip = freshSubject();
+
+    expect(await checkRateLimit(TWO_PER_SECOND, ip)).toMatchObject({ allowed: true, remaining: 1, resetMs: 1_000 });
+    at(400);
+    expect(await checkRateLimit(TWO_PER_SECOND, ip)).toMatchObject({ allowed: true, remaining: 0, resetMs: 600 });
+    at(999);
+    expect(await checkRateLimit(TWO_PER_SECOND, ip)).toMatchObject({ allowed: false, remaining: 0, resetMs: 1 });
+
+    // The first hit has expired, the one at 400ms still counts
+    at(1_000);
+    expect(await checkRateLimit(TWO_PER_SECOND, ip)).toMatchObject({ allowed: true, remaining: 0, resetMs: 400 });
+    expect(await checkRateLimit(TWO_PER_SECOND, ip)).toMatchObject({ allowed: false });
+
+    at(2_400);
+    expect(await checkRateLimit(TWO_PER_SECOND, ip)).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  it('does not count refused hits', async () => {
+    const ip = freshSubject();
+    for (let i = 0; i < 5; i++) await checkRateLimit(TWO_PER_SECOND, ip);
+
+    at(1_000);
+    expect(await checkRateLimit(TWO_PER_SECOND, ip)).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  it('counts ip and wallet policies per subject', async () => {
+    const [a, b] = [freshSubject(), freshSubject()];
+    const perWallet: RateLimitPolicy = { ...TWO_PER_SECOND, id: 'test:wallet', scope: 'wallet' };
+
+    await checkRateLimit(TWO_PER_SECOND, a);
+    await checkRateLimit(TWO_PER_SECOND, a);
+    expect((await checkRateLimit(TWO_PER_SECOND, a)).allowed).toBe(false);
+    expect((await checkRateLimit(TWO_PER_SECOND, b)).allowed).toBe(true);
+    // Same subject, another policy
+    expect((await checkRateLimit(perWallet, a)).allowed).toBe(true);
+  });
+
+  it('counts route policies across every subject', async () => {
+    const route: RateLimitPolicy = { id: `test:route:${freshSubject()}`, scope: 'route', limit: 2, windowMs: 1_000 };
+
+    await checkRateLimit(route, freshSubject());
+    await checkRateLimit(route, freshSubject());
+    expect((await checkRateLimit(route, freshSubject())).allowed).toBe(false);
+  });
+});
+
+describe('checkRateLimit', () => {
+  it('keys hits by policy id and subject', async () => {
+    await checkRateLimit(TWO_PER_SECOND, '1.2.3.4');
+    await checkRateLimit({ id: 'test:wallet', scope: 'wallet', limit: 2, windowMs: 1_000 }, 'Wallet111');
+    await checkRateLimit({ id: 'test:route', scope: 'route', limit: 2, windowMs: 1_000 }, 'ignored');
+
+    expect(await memoryDb.collection('rate_limits').distinct('key')).toEqual([
+      'test:ip:1.2.3.4',
+      'test:wallet:Wallet111',
+      'test:route',
+    ]);
+  });
+
+  it('stores each hit with an expiry at the end of its window', async () => {
+    await checkRateLimit(TWO_PER_SECOND, '1.2.3.4');
+
+    const [hit] = memoryDb.collection('rate_limits').docs;
+    expect(hit.createdAt).toEqual(new Date(T0));
+    expect(hit.expiresAt).toEqual(new Date(T0 + 1_000));
+  });
+
+  it('counts in memory when Mongo fails, and logs it', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(getRateLimitCollection).mockRejectedValueOnce(new Error('connection refused'));
+
+    const decision = await checkRateLimit(TWO_PER_SECOND, freshSubject());
+
+    expect(decision).toMatchObject({ allowed: true, remaining: 1 });
+    expect(error).toHaveBeenCalledWith('[rateLimit] Store error, counting in memory:', 'connection refused');
+    expect(memoryDb.collection('rate_limits').docs).toHaveLength(0);
+  });
+
+  it('stops at the first policy that refuses', async () => {
+    const ip = freshSubject();
+    const wallet: RateLimitPolicy = { id: 'test:wallet', scope: 'wallet', limit: 10, windowMs: 1_000 };
+    await checkRateLimit(TWO_PER_SECOND, ip);
+    await checkRateLimit(TWO_PER_SECOND, ip);
+
+    const decisions = await checkRateLimits([[TWO_PER_SECOND, ip], [wallet, 'Wallet111']]);
+
+    expect(decisions.map((d) => [d.policy.id, d.allowed])).toEqual([['test:ip', false]]);
+  });
+});
+
+describe('rate-limit headers', () => {
+  const wide: RateLimitPolicy = { id: 'test:route', scope: 'route', limit: 600, windowMs: 60_000 };
+
+  it('reports the decision closest to its limit', async () => {
+    const decisions = await checkRateLimits([[TWO_PER_SECOND, freshSubject()], [wide]]);
+
+    expect(rateLimitHeaders(decisions)).toEqual({
+      'RateLimit-Limit': '2',
+      'RateLimit-Remaining': '1',
+      'RateLimit-Reset': '1',
+      'RateLimit-Policy': '2;w=1',
+    });
+  });
+
+  it('adds Retry-After, in whole seconds, to a refusal', async () => {
+    const ip = freshSubject();
+    const slow: RateLimitPolicy = { ...TWO_PER_SECOND, windowMs: 60_000 };
+    await checkRateLimit(slow, ip);
+    await checkRateLimit(slow, ip);
+    at(30_500);
+
+    const decisions = await checkRateLimits([[wide], [slow, ip]]);
+    const response = rateLimitedResponse(decisions)!;
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({ success: false, code: 'rate_limited' });
+    expect(response.headers.get('Retry-After')).toBe('30');
+    expect(response.headers.get('RateLimit-Reset')).toBe('30');
+    expect(response.headers.get('RateLimit-Remaining')).toBe('0');
+    expect(response.headers.get('RateLimit-Policy')).toBe('2;w=60');
+  });
+
+  it('leaves allowed requests alone apart from the headers', async () => {
+    const decisions = await checkRateLimits([[TWO_PER_SECOND, freshSubject()]]);
+
+    expect(rateLimitedResponse(decisions)).toBeNull();
+    const response = withRateLimitHeaders(Response.json({ ok: true }) as never, decisions) as Response;
+    expect(response.headers.get('RateLimit-Remaining')).toBe('1');
+    expect(response.headers.has('Retry-After')).toBe(false);
+  });
+
+  it('sends no headers without decisions', () => {
+    expect(rateLimitHeaders([])).toEqual({});
+  });
+});
+
+describe('getClientIp', () => {
+  const request = (headers: Record<string, string>) =>
+    new NextRequest('https://burn.example/api/stats', { headers });
+
+  it('takes the entry the nearest proxy wrote by default', () => {
+    expect(getClientIp(request({ 'x-forwarded-for': '6.6.6.6, 1.2.3.4' }))).toBe('1.2.3.4');
+  });
+
+  it('skips TRUSTED_PROXY_HOPS entries from the right', () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '2');
+    // A client-supplied entry on the left is never reached
+    expect(getClientIp(request({ 'x-forwarded-for': '6.6.6.6, 1.2.3.4, 10.0.0.1' }))).toBe('1.2.3.4');
+    expect(getClientIp(request({ 'x-forwarded-for': '10.0.0.1' }))).toBe('unknown');
+  });
+
+  it('refuses a hop count that is not a positive integer', () => {
+    for (const hops of ['0', '-1', '1.5', 'two']) {
+      vi.stubEnv('TRUSTED_PROXY_HOPS', hops);
+      expect(getClientIp(request({ 'x-forwarded-for': '1.2.3.4' }))).toBe('unknown');
+    }
+  });
+
+  it('prefers TRUSTED_IP_HEADER when set', () => {
+    vi.stubEnv('TRUSTED_IP_HEADER', 'CF-Connecting-IP');
+    expect(getClientIp(request({ 'cf-connecting-ip': ' 5.6.7.8 ', 'x-forwarded-for': '1.2.3.4' }))).toBe('5.6.7.8');
+    expect(getClientIp(request({ 'x-forwarded-for': '1.2.3.4' }))).toBe('unknown');
+  });
+
+  it('is unknown without a forwarded address', () => {
+    expect(getClientIp(request({}))).toBe('unknown');
+  });
+});
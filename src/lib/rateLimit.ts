@@ -0,0 +1,215 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { ApiFailure } from '@/types';
+import { getRateLimitCollection } from '@/lib/mongodb';
+
+/**
+ * Sliding-window rate limiting. A policy counts hits per IP, per wallet or
+ * for the whole route over the last `windowMs`; a hit is refused once `limit`
+ * hits fall inside the window.
+ */
+
+export interface RateLimitPolicy {
+  id: string;
+  scope: 'ip' | 'wallet' | 'route';
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  policy: RateLimitPolicy;
+  allowed: boolean;
+  remaining: number;
+  // Until the oldest hit in the window expires and frees a slot
+  resetMs: number;
+}
+
+// ── Policies ──────────────────────────────────────────────────────────────────
+
+export const RATE_LIMITS = {
+  burnRecordIp:     { id: 'burn-and-upgrade:ip',     scope: 'ip',     limit: 5,   windowMs: 60_000 },
+  burnRecordWallet: { id: 'burn-and-upgrade:wallet', scope: 'wallet', limit: 20,  windowMs: 10 * 60_000 },
+  burnRecordRoute:  { id: 'burn-and-upgrade:route',  scope: 'route',  limit: 600, windowMs: 60_000 },
+  pendingBurns:     { id: 'pending-burns:wallet',    scope: 'wallet', limit: 10,  windowMs: 60_000 },
+  authNonce:        { id: 'auth-nonce:ip',           scope: 'ip',     limit: 10,  windowMs: 60_000 },
+  authSession:      { id: 'auth-session:ip',         scope: 'ip',     limit: 10,  windowMs: 60_000 },
+  lockedMints:      { id: 'locked-mints:wallet',     scope: 'wallet', limit: 30,  windowMs: 60_000 },
+  // One hit per DAS page, so a large wallet spends several per load
+  inventory:        { id: 'inventory:wallet',        scope: 'wallet', limit: 120, windowMs: 60_000 },
+  history:          { id: 'history:wallet',          scope: 'wallet', limit: 30,  windowMs: 60_000 },
+  publicStats:      { id: 'stats:ip',                scope: 'ip',     limit: 60,  windowMs: 60_000 },
+  leaderboardOptIn: { id: 'leaderboard:wallet',      scope: 'wallet', limit: 10,  windowMs: 60_000 },
+} satisfies Record<string, RateLimitPolicy>;
+
+// ── Stores ────────────────────────────────────────────────────────────────────
+
+interface HitCount {
+  count: number;      // hits in the window, including this one if it was kept
+  oldest: number;     // timestamp of the oldest hit in the window
+}
+
+interface RateLimitStore {
+  /** Record a hit for `key` unless `limit` hits are already in the window. */
+  hit(key: string, limit: number, windowMs: number, now: number): Promise<HitCount & { allowed: boolean }>;
+}
+
+class MemoryStore implements RateLimitStore {
+  private hits = new Map<string, number[]>();
+
+  async hit(key: string, limit: number, windowMs: number, now: number) {
+    const since = now - windowMs;
+    const recent = (this.hits.get(key) ?? []).filter((t) => t > since);
+    const allowed = recent.length < limit;
+    if (allowed) recent.push(now);
+    this.hits.set(key, recent);
+    if (this.hits.size > 10_000) this.prune(since);
+    return { allowed, count: recent.length, oldest: recent[0] ?? now };
+  }
+
+  private prune(since: number) {
+    for (const [key, times] of this.hits) {
+      if (!times.some((t) => t > since)) this.hits.delete(key);
+    }
+  }
+}
+
+class MongoStore implements RateLimitStore {
+  // Insert first, then count: two racing hits can both be refused, but never
+  // both let through past the limit
+  async hit(key: string, limit: number, windowMs: number, now: number) {
+    const collection = await getRateLimitCollection();
+    const _id = new ObjectId();
+    await collection.insertOne({
+      _id,
+      key,
+      createdAt: new Date(now),
+      expiresAt: new Date(now + windowMs),
+    });
+
+    const inWindow = { key, createdAt: { $gt: new Date(now - windowMs) } };
+    const [count, oldest] = await Promise.all([
+      collection.countDocuments(inWindow),
+      collection.findOne(inWindow, { sort: { createdAt: 1 }, projection: { createdAt: 1 } }),
+    ]);
+
+    const allowed = count <= limit;
+    if (!allowed) await collection.deleteOne({ _id });
+    return {
+      allowed,
+      count: allowed ? count : count - 1,
+      oldest: oldest?.createdAt.getTime() ?? now,
+    };
+  }
+}
+
+const memoryStore = new MemoryStore();
+const store: RateLimitStore = process.env.RATE_LIMIT_STORE === 'memory' ? memoryStore : new MongoStore();
+
+// ── Client identity ───────────────────────────────────────────────────────────
+
+/**
+ * The client IP, read only from headers our own proxies set. With
+ * TRUSTED_IP_HEADER (e.g. `cf-connecting-ip`) that header is used as is;
+ * otherwise the address TRUSTED_PROXY_HOPS entries from the right of
+ * X-Forwarded-For (default 1 — the entry Vercel's edge writes). Entries
+ * further left are client-supplied and ignored.
+ */
+export function getClientIp(request: NextRequest): string {
+  const trustedHeader = process.env.TRUSTED_IP_HEADER?.trim().toLowerCase();
+  if (trustedHeader) return request.headers.get(trustedHeader)?.trim() || 'unknown';
+
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+  if (!Number.isInteger(hops) || hops < 1) return 'unknown';
+
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return forwarded[forwarded.length - hops] || 'unknown';
+}
+
+// ── Checking ──────────────────────────────────────────────────────────────────
+
+/**
+ * Count a hit against `policy`. `subject` is the IP or wallet for ip/wallet
+ * policies and ignored for route policies. If the Mongo store is unreachable
+ * the hit is counted in memory instead, so limits still hold per instance.
+ */
+export async function checkRateLimit(
+  policy: RateLimitPolicy,
+  subject = '',
+): Promise<RateLimitDecision> {
+  const key = policy.scope === 'route' ? policy.id : `${policy.id}:${subject}`;
+  const now = Date.now();
+
+  let result;
+  try {
+    result = await store.hit(key, policy.limit, policy.windowMs, now);
+  } catch (error: any) {
+    console.error('[rateLimit] Store error, counting in memory:', error?.message);
+    result = await memoryStore.hit(key, policy.limit, policy.windowMs, now);
+  }
+
+  return {
+    policy,
+    allowed: result.allowed,
+    remaining: Math.max(policy.limit - result.count, 0),
+    resetMs: Math.max(result.oldest + policy.windowMs - now, 0),
+  };
+}
+
+/** Check several policies in order, stopping at the first refusal. */
+export async function checkRateLimits(
+  checks: Array<[RateLimitPolicy, string?]>,
+): Promise<RateLimitDecision[]> {
+  const decisions: RateLimitDecision[] = [];
+  for (const [policy, subject] of checks) {
+    const decision = await checkRateLimit(policy, subject);
+    decisions.push(decision);
+    if (!decision.allowed) break;
+  }
+  return decisions;
+}
+
+// ── Response headers ──────────────────────────────────────────────────────────
+
+// The decision closest to its limit is the one reported
+function tightest(decisions: RateLimitDecision[]): RateLimitDecision | undefined {
+  return decisions.find((d) => !d.allowed)
+    ?? [...decisions].sort((a, b) => a.remaining - b.remaining)[0];
+}
+
+/**
+ * `RateLimit-*` headers (IETF draft) for the tightest of `decisions`, plus
+ * `Retry-After` when it refused the request.
+ */
+export function rateLimitHeaders(decisions: RateLimitDecision[]): Record<string, string> {
+  const decision = tightest(decisions);
+  if (!decision) return {};
+
+  const resetSeconds = String(Math.ceil(decision.resetMs / 1000));
+  return {
+    'RateLimit-Limit': String(decision.policy.limit),
+    'RateLimit-Remaining': String(decision.remaining),
+    'RateLimit-Reset': resetSeconds,
+    'RateLimit-Policy': `${decision.policy.limit};w=${decision.policy.windowMs / 1000}`,
+    ...(!decision.allowed && { 'Retry-After': resetSeconds }),
+  };
+}
+
+/** Copy the rate-limit headers onto a response. */
+export function withRateLimitHeaders<T extends NextResponse>(response: T, decisions: RateLimitDecision[]): T {
+  for (const [name, value] of Object.entries(rateLimitHeaders(decisions))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+/** The refusal, if any of `decisions` refused the request. */
+export function rateLimitedResponse(decisions: RateLimitDecision[]): NextResponse | null {
+  if (decisions.every((d) => d.allowed)) return null;
+  return NextResponse.json(
+    { success: false, code: 'rate_limited', error: 'Too many requests — try again later' } as ApiFailure,
+    { status: 429, headers: rateLimitHeaders(decisions) },
+  );
+}
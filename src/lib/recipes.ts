@@ -0,0 +1,50 @@
+import { ClientSession, Filter } from 'mongodb';
+import { BurntNFT, BurnRecipe } from '@/types';
+import { getBurntNFTsCollection, getRecipesCollection } from '@/lib/mongodb';
+import { DEFAULT_RECIPE, isInSeason } from '@/lib/upgradeRules';
+import { Parsed, parseWith, recipePatchSchema, recipeSchema } from '@/lib/schemas';
+
+/**
+ * The recipe the server enforces right now: the active recipe whose season
+ * contains `now`, else any active recipe (so out-of-season batches are
+ * rejected with a clear reason), else DEFAULT_RECIPE.
+ */
+export async function getActiveRecipe(now = new Date()): Promise<BurnRecipe> {
+  const recipes = await getRecipesCollection();
+  const active = await recipes
+    .find({ active: true }, { projection: { _id: 0 } })
+    .sort({ startsAt: -1 })
+    .toArray();
+
+  return active.find((r) => isInSeason(r, now)) ?? active[0] ?? DEFAULT_RECIPE;
+}
+
+/**
+ * Distinct upgrade targets this wallet has claimed under `recipe`. Pass the
+ * `session` to count inside a transaction.
+ */
+export async function countUpgradesUsed(
+  walletAddress: string,
+  recipe: BurnRecipe,
+  session?: ClientSession,
+): Promise<number> {
+  const collection = await getBurntNFTsCollection();
+  const recipeFilter: Filter<BurntNFT> = recipe.id === DEFAULT_RECIPE.id
+    // Records from before recipes existed count towards the default
+    ? { $or: [{ recipeId: DEFAULT_RECIPE.id }, { recipeId: { $exists: false } }] }
+    : { recipeId: recipe.id };
+  const targets = await collection.distinct('upgradeTargetMint', {
+    burntBy: walletAddress,
+    upgradeTargetMint: { $exists: true, $ne: '' },
+    ...recipeFilter,
+  }, { session });
+  return targets.length;
+}
+
+/**
+ * Validate an admin-supplied recipe against recipeSchema, or with `partial`
+ * against recipePatchSchema (PATCH — only the fields present).
+ */
+export function parseRecipe(body: unknown, partial = false): Parsed<Partial<BurnRecipe>> {
+  return partial ? parseWith(recipePatchSchema, body) : parseWith(recipeSchema, body);
+}
@@ -0,0 +1,321 @@
+import {
+  BurntNFT,
+  ReconciliationFinding,
+  ReconciliationKind,
+  ReconciliationMismatchEventData,
+} from '@/types';
+import {
+  getBurntNFTsCollection,
+  getCampaignsCollection,
+  getReconciliationFindingsCollection,
+} from '@/lib/mongodb';
+import { DASAsset, getAssetBatch, searchBurntAssets } from '@/lib/das';
+import { DecodedBurn, decodeBurnV1, resolveInstructions } from '@/lib/burnVerification';
+import { getSignaturesForAddress, getTransaction } from '@/lib/rpcPool';
+import { emitWebhookEvent } from '@/lib/webhooks';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+const SIGNATURE_LOOKBACK = 10;         // recent signatures searched for the burn
+const INDEXING_GRACE_MS  = 10 * 60_000; // DAS may lag a fresh burn by a few minutes
+
+export interface ReconciliationOptions {
+  /** Burns before this are recorded as `ignored`; defaults to the first campaign's opening. */
+  since?: Date;
+}
+
+export interface ReconciliationSummary {
+  burntOnChain: number;
+  verified: number;
+  open: Record<ReconciliationKind, number>;
+  resolved: number;
+}
+
+export interface BackfillResult {
+  id: string;
+  ok: boolean;
+  error?: string;
+}
+
+interface LocatedBurn {
+  signature: string;
+  burntAt: string | null;
+  burn: DecodedBurn;
+}
+
+function findingId(kind: ReconciliationKind, mint: string): string {
+  return `${kind}:${mint}`;
+}
+
+// ── On-chain lookups ──────────────────────────────────────────────────────────
+
+/** The BurnV1 for `mint` in transaction `signature`, or null if it isn't there. */
+async function readBurn(signature: string, mint: string): Promise<LocatedBurn | null> {
+  const tx = await getTransaction(signature);
+  if (!tx || tx.meta?.err) return null;
+
+  const burn = resolveInstructions(tx)
+    .map(decodeBurnV1)
+    .find((b) => b?.asset === mint);
+  if (!burn) return null;
+
+  return {
+    signature,
+    burntAt: tx.blockTime ? new Date(tx.blockTime * 1000).toISOString() : null,
+    burn,
+  };
+}
+
+/**
+ * Find the transaction that actually burned `mint` by decoding its recent
+ * history, rather than assuming the newest signature is the burn.
+ */
+async function locateBurn(mint: string): Promise<LocatedBurn | null> {
+  const sigs = await getSignaturesForAddress(mint, SIGNATURE_LOOKBACK);
+
+  for (const s of sigs) {
+    if (s.err) continue;
+    const found = await readBurn(s.signature, mint);
+    if (found) return found;
+  }
+  return null;
+}
+
+async function defaultSince(): Promise<Date | undefined> {
+  const campaigns = await getCampaignsCollection();
+  const first = await campaigns.findOne({}, { sort: { opensAt: 1 } });
+  return first ? new Date(first.opensAt) : undefined;
+}
+
+// ── Job ───────────────────────────────────────────────────────────────────────
+
+/**
+ * Compare every burnt asset in the collection with burnt_nfts and record the
+ * differences in reconciliation_findings:
+ *   missing_in_db       burnt on-chain, no record
+ *   not_burnt           record exists, asset is not burnt
+ *   signature_mismatch  record's signature does not burn that asset
+ *
+ * Records whose signature checks out get `reconciledAt` and are not checked
+ * again. Open findings that are not seen by a run are marked `resolved`;
+ * `ignored` and `backfilled` findings are left alone. Safe to run concurrently.
+ */
+export async function runReconciliation(
+  collectionAddress: string,
+  options: ReconciliationOptions = {},
+): Promise<ReconciliationSummary> {
+  const runAt = new Date().toISOString();
+  const since = options.since ?? await defaultSince();
+
+  const records = await getBurntNFTsCollection();
+  const findings = await getReconciliationFindingsCollection();
+
+  const [burntAssets, recordedMints, unverified, known] = await Promise.all([
+    searchBurntAssets(collectionAddress),
+    records.distinct('mint'),
+    records
+      .find(
+        { reconciledAt: { $exists: false } },
+        { projection: { _id: 0, mint: 1, name: 1, burntBy: 1, transactionSignature: 1, burntAt: 1 } },
+      )
+      .toArray(),
+    findings.find({}, { projection: { _id: 0, id: 1, status: 1, burnSignature: 1 } }).toArray(),
+  ]);
+
+  const burnt = new Map<string, DASAsset>(burntAssets.map((a) => [a.id, a]));
+  const recorded = new Set(recordedMints);
+  const knownById = new Map(known.map((f) => [f.id, f]));
+  const settled = (id: string) => {
+    const status = knownById.get(id)?.status;
+    return status === 'ignored' || status === 'backfilled';
+  };
+
+  const summary: ReconciliationSummary = {
+    burntOnChain: burntAssets.length,
+    verified: 0,
+    open: { missing_in_db: 0, not_burnt: 0, signature_mismatch: 0 },
+    resolved: 0,
+  };
+
+  // Findings that were not open before this run, announced once at the end
+  const opened: ReconciliationMismatchEventData['findings'] = [];
+
+  const report = async (
+    kind: ReconciliationKind,
+    mint: string,
+    fields: Partial<ReconciliationFinding>,
+    status: 'open' | 'ignored' = 'open',
+  ) => {
+    const id = findingId(kind, mint);
+    if (settled(id)) return;
+    const defined = Object.fromEntries(
+      Object.entries(fields).filter(([, v]) => v !== undefined),
+    );
+    try {
+      await findings.updateOne(
+        { id, status: { $nin: ['ignored', 'backfilled'] } },
+        {
+          $set: { ...defined, status, lastSeenAt: runAt },
+          $unset: { resolvedAt: '' },
+          $setOnInsert: { id, kind, mint, firstSeenAt: runAt },
+        },
+        { upsert: true },
+      );
+    } catch (error: any) {
+      // Another run settled this finding between our read and write
+      if (error?.code !== 11000) throw error;
+      return;
+    }
+    if (status === 'open') {
+      summary.open[kind]++;
+      if (knownById.get(id)?.status !== 'open') {
+        opened.push({ id, kind, mint, name: fields.name, owner: fields.owner });
+      }
+    }
+  };
+
+  // 1. Records not yet verified — is the asset burnt, and by that signature?
+  const graceCutoff = Date.now() - INDEXING_GRACE_MS;
+  for (const rec of unverified as BurntNFT[]) {
+    const base = { name: rec.name, owner: rec.burntBy, recordedSignature: rec.transactionSignature };
+
+    if (!burnt.has(rec.mint)) {
+      if (new Date(rec.burntAt).getTime() < graceCutoff) {
+        await report('not_burnt', rec.mint, base);
+      }
+      continue;
+    }
+
+    const confirmed = await readBurn(rec.transactionSignature, rec.mint);
+    if (confirmed) {
+      await records.updateOne({ mint: rec.mint }, { $set: { reconciledAt: runAt } });
+      summary.verified++;
+      continue;
+    }
+
+    const actual = await locateBurn(rec.mint);
+    await report('signature_mismatch', rec.mint, {
+      ...base,
+      burnSignature: actual?.signature,
+      burntAt: actual?.burntAt ?? undefined,
+    });
+  }
+
+  // 2. Burnt assets with no record at all
+  for (const asset of burntAssets) {
+    if (recorded.has(asset.id)) continue;
+
+    const id = findingId('missing_in_db', asset.id);
+    if (settled(id)) continue;
+
+    const base = {
+      name: asset.content?.metadata?.name,
+      owner: asset.ownership?.owner,
+    };
+
+    // Already located on an earlier run — no need to walk its history again
+    if (knownById.get(id)?.burnSignature) {
+      await report('missing_in_db', asset.id, base);
+      continue;
+    }
+
+    const located = await locateBurn(asset.id);
+    const fields = {
+      ...base,
+      owner: base.owner ?? located?.burn.authority,
+      burnSignature: located?.signature,
+      burntAt: located?.burntAt ?? undefined,
+    };
+
+    if (since && located?.burntAt && new Date(located.burntAt) < since) {
+      await report('missing_in_db', asset.id, {
+        ...fields,
+        note: `Burnt before ${since.toISOString()}`,
+      }, 'ignored');
+    } else {
+      await report('missing_in_db', asset.id, fields);
+    }
+  }
+
+  // 3. Anything still open but not seen this run has been fixed
+  const { modifiedCount } = await findings.updateMany(
+    { status: 'open', lastSeenAt: { $lt: runAt } },
+    { $set: { status: 'resolved', resolvedAt: runAt } },
+  );
+  summary.resolved = modifiedCount;
+
+  if (opened.length > 0) await emitWebhookEvent('reconciliation.mismatch', { findings: opened });
+
+  return summary;
+}
+
+// ── Backfill ──────────────────────────────────────────────────────────────────
+
+/**
+ * Insert a burn record for an open `missing_in_db` finding, after re-reading
+ * its burn transaction and confirming the asset is burnt and in the collection.
+ * The record carries the real burn signature and `source: 'backfill'`.
+ */
+export async function backfillFinding(
+  finding: ReconciliationFinding,
+  operator: string,
+  collectionAddress: string,
+): Promise<BackfillResult> {
+  const id = finding.id;
+  if (finding.kind !== 'missing_in_db' || finding.status !== 'open') {
+    return { id, ok: false, error: 'Only open missing_in_db findings can be backfilled' };
+  }
+  if (!finding.burnSignature) {
+    return { id, ok: false, error: 'Burn transaction was not found on-chain' };
+  }
+
+  const located = await readBurn(finding.burnSignature, finding.mint);
+  if (!located || !located.burntAt) {
+    return { id, ok: false, error: 'Burn transaction could not be verified' };
+  }
+  if (collectionAddress && located.burn.collection !== collectionAddress) {
+    return { id, ok: false, error: 'Asset is not in the expected collection' };
+  }
+
+  const [asset] = await getAssetBatch([finding.mint]);
+  if (!asset?.burnt) {
+    return { id, ok: false, error: 'Asset is not burnt' };
+  }
+
+  const campaigns = await getCampaignsCollection();
+  const campaign = await campaigns.findOne(
+    { opensAt: { $lte: located.burntAt }, closesAt: { $gt: located.burntAt } },
+    { sort: { opensAt: -1 } },
+  );
+
+  const now = new Date().toISOString();
+  const record: BurntNFT = {
+    mint: finding.mint,
+    name: asset.content?.metadata?.name || finding.name || '',
+    burntBy: asset.ownership?.owner || located.burn.authority,
+    transactionSignature: located.signature,
+    burntAt: located.burntAt,
+    ...(campaign && { campaignId: campaign.id }),
+    source: 'backfill',
+    reconciledAt: now,
+  };
+
+  const records = await getBurntNFTsCollection();
+  const findings = await getReconciliationFindingsCollection();
+  try {
+    await records.insertOne(record);
+  } catch (error: any) {
+    if (error?.code !== 11000) throw error;
+    // Recorded by someone else since the last run — nothing left to do
+    await findings.updateOne(
+      { id, status: 'open' },
+      { $set: { status: 'resolved', resolvedAt: now, operator } },
+    );
+    return { id, ok: false, error: 'A record for this mint already exists' };
+  }
+
+  await findings.updateOne(
+    { id },
+    { $set: { status: 'backfilled', resolvedAt: now, operator, burnSignature: located.signature } },
+  );
+  return { id, ok: true };
+}
@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getSignatureStatuses, getTransaction, withRpc } from '@/lib/rpcPool';
+
+// Three endpoints, each answering from `rpc.answers` — read when the pool is built
+const rpc = vi.hoisted(() => {
+  process.env.SOLANA_RPC_ENDPOINTS = 'https://a.rpc.example,https://b.rpc.example,https://c.rpc.example';
+  return {
+    answers: new Map<string, (method: string, args: unknown[]) => unknown>(),
+    calls: [] as Array<{ host: string; method: string }>,
+  };
+});
+
+vi.mock('@solana/web3.js', async (importOriginal) => {
+  const web3 = await importOriginal<typeof import('@solana/web3.js')>();
+  class Connection {
+    private readonly host: string;
+    constructor(url: string) {
+      this.host = new URL(url).host;
+    }
+    private async call(method: string, args: unknown[]) {
+      rpc.calls.push({ host: this.host, method });
+      const answer = rpc.answers.get(this.host);
+      if (!answer) throw new Error(`${this.host} is down`);
+      return answer(method, args);
+    }
+    async getSlot() {
+      return 1;
+    }
+    getTransaction(...args: unknown[]) {
+      return this.call('getTransaction', args);
+    }
+    getSignatureStatuses(...args: unknown[]) {
+      return this.call('getSignatureStatuses', args);
+    }
+  }
+  return { ...web3, Connection };
+});
+
+const HOSTS = ['a.rpc.example', 'b.rpc.example', 'c.rpc.example'];
+const TX = { slot: 1, meta: { err: null } };
+const LANDED = { slot: 1, confirmations: null, err: null, confirmationStatus: 'finalized' };
+
+function answer(host: string, fn: (method: string, args: unknown[]) => unknown) {
+  rpc.answers.set(host, fn);
+}
+
+beforeEach(() => {
+  rpc.answers.clear();
+  rpc.calls = [];
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('withRpc', () => {
+  it('fails over when an endpoint throws', async () => {
+    answer(HOSTS[1], () => 'ok');
+
+    expect(await withRpc(({ connection }) => connection.getTransaction('sig'))).toBe('ok');
+  });
+
+  it('throws the last error when every endpoint fails', async () => {
+    await expect(withRpc(({ connection }) => connection.getTransaction('sig'))).rejects.toThrow(/is down/);
+    expect(rpc.calls).toHaveLength(3);
+  });
+
+  it('returns an empty result as is without retryIf', async () => {
+    for (const host of HOSTS) answer(host, () => null);
+
+    expect(await withRpc(({ connection }) => connection.getTransaction('sig'))).toBeNull();
+    expect(rpc.calls).toHaveLength(1);
+  });
+
+  it('tries the next endpoint when retryIf matches', async () => {
+    answer(HOSTS[0], () => 'lagging');
+    answer(HOSTS[1], () => 'lagging');
+    answer(HOSTS[2], () => 'caught up');
+
+    const result = await withRpc<unknown>(
+      ({ connection }) => connection.getTransaction('sig'),
+      { retryIf: (r) => r === 'lagging' },
+    );
+
+    expect(result).toBe('caught up');
+  });
+});
+
+describe('getTransaction', () => {
+  it('asks the other endpoints when one has not seen the transaction', async () => {
+    answer(HOSTS[0], () => null);
+    answer(HOSTS[1], () => null);
+    answer(HOSTS[2], () => TX);
+
+    expect(await getTransaction('sig')).toEqual(TX);
+  });
+
+  it('is null once every endpoint tried came back empty or failed', async () => {
+    answer(HOSTS[0], () => null);
+
+    expect(await getTransaction('sig')).toBeNull();
+    expect(rpc.calls).toHaveLength(3);
+  });
+
+  it('stops at the first endpoint that has it', async () => {
+    for (const host of HOSTS) answer(host, () => TX);
+
+    await getTransaction('sig');
+
+    expect(rpc.calls).toHaveLength(1);
+  });
+});
+
+describe('getSignatureStatuses', () => {
+  it('asks the other endpoints while any status is missing', async () => {
+    answer(HOSTS[0], () => ({ context: { slot: 1 }, value: [LANDED, null] }));
+    answer(HOSTS[1], () => ({ context: { slot: 1 }, value: [null, null] }));
+    answer(HOSTS[2], () => ({ context: { slot: 2 }, value: [LANDED, LANDED] }));
+
+    expect(await getSignatureStatuses(['one', 'two'])).toEqual([LANDED, LANDED]);
+  });
+
+  it('searches the transaction history', async () => {
+    let options: unknown;
+    for (const host of HOSTS) {
+      answer(host, (_method, args) => {
+        options = args[1];
+        return { context: { slot: 1 }, value: [LANDED] };
+      });
+    }
+
+    await getSignatureStatuses(['one']);
+
+    expect(options).toEqual({ searchTransactionHistory: true });
+  });
+
+  it('returns the nulls when no endpoint knows the signature', async () => {
+    for (const host of HOSTS) answer(host, () => ({ context: { slot: 1 }, value: [null] }));
+
+    expect(await getSignatureStatuses(['dropped'])).toEqual([null]);
+    expect(rpc.calls).toHaveLength(3);
+  });
+});
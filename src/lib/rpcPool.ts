@@ -0,0 +1,226 @@
+import { Connection, PublicKey, SignatureStatus, VersionedTransactionResponse } from '@solana/web3.js';
+
+/**
+ * Server-side pool of Solana RPC endpoints. Calls go to a healthy endpoint
+ * picked with a bias towards low latency and fail over to the next one on
+ * error or timeout. Endpoints come from SOLANA_RPC_ENDPOINTS (comma-separated,
+ * server-only, so API keys never reach the browser) and must all serve the
+ * Helius DAS methods used in src/lib/das.ts.
+ */
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+const REQUEST_TIMEOUT_MS  = 15_000;
+const HEALTH_INTERVAL_MS  = 30_000;
+const HEALTH_TIMEOUT_MS   = 3_000;
+const MAX_ATTEMPTS        = 3;
+const BASE_COOLDOWN_MS    = 5_000;  // doubles per consecutive failure…
+const MAX_COOLDOWN_MS     = 60_000; // …up to this
+const LATENCY_SMOOTHING   = 0.3;    // weight of the newest sample in the average
+
+export interface RpcEndpoint {
+  url: string;
+  // For logs — the URL without its query string (API keys live there)
+  label: string;
+  connection: Connection;
+}
+
+interface EndpointState extends RpcEndpoint {
+  latencyMs: number;
+  failures: number;
+  downUntil: number;
+}
+
+export interface RpcEndpointStatus {
+  label: string;
+  healthy: boolean;
+  latencyMs: number;
+  failures: number;
+}
+
+function configuredUrls(): string[] {
+  const urls = (process.env.SOLANA_RPC_ENDPOINTS ?? '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean);
+  if (urls.length > 0) return urls;
+
+  // Single-endpoint setups from before the pool existed
+  const network = process.env.NEXT_PUBLIC_SOLANA_NETWORK || 'devnet';
+  return [process.env.NEXT_PUBLIC_RPC_ENDPOINT || `https://api.${network}.solana.com`];
+}
+
+function labelFor(url: string): string {
+  try {
+    const { protocol, host, pathname } = new URL(url);
+    return `${protocol}//${host}${pathname === '/' ? '' : pathname}`;
+  } catch {
+    return 'invalid-url';
+  }
+}
+
+const endpoints: EndpointState[] = configuredUrls().map((url) => ({
+  url,
+  label: labelFor(url),
+  connection: new Connection(url, {
+    commitment: 'confirmed',
+    // Fail over on 429 rather than sleeping through web3.js's own backoff
+    disableRetryOnRateLimit: true,
+    fetchMiddleware: (info, init, fetch) =>
+      fetch(info, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) }),
+  }),
+  latencyMs: 500,
+  failures: 0,
+  downUntil: 0,
+}));
+
+let lastHealthCheck = 0;
+
+// ── Bookkeeping ───────────────────────────────────────────────────────────────
+
+function recordSuccess(endpoint: EndpointState, latencyMs: number) {
+  endpoint.latencyMs = endpoint.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+  endpoint.failures = 0;
+  endpoint.downUntil = 0;
+}
+
+function recordFailure(endpoint: EndpointState) {
+  endpoint.failures++;
+  const cooldown = Math.min(BASE_COOLDOWN_MS * 2 ** (endpoint.failures - 1), MAX_COOLDOWN_MS);
+  endpoint.downUntil = Date.now() + cooldown;
+}
+
+/**
+ * Probe every endpoint with getSlot and update its latency and health. Runs
+ * in the background at most every HEALTH_INTERVAL_MS while the pool is used,
+ * so endpoints in cooldown are brought back as soon as they answer.
+ */
+export async function checkRpcHealth(): Promise<RpcEndpointStatus[]> {
+  lastHealthCheck = Date.now();
+  await Promise.all(endpoints.map(async (endpoint) => {
+    const started = Date.now();
+    try {
+      await Promise.race([
+        endpoint.connection.getSlot(),
+        new Promise((_, reject) => setTimeout(() => reject(new Error('timeout')), HEALTH_TIMEOUT_MS)),
+      ]);
+      recordSuccess(endpoint, Date.now() - started);
+    } catch {
+      recordFailure(endpoint);
+    }
+  }));
+  return getRpcPoolStatus();
+}
+
+export function getRpcPoolStatus(): RpcEndpointStatus[] {
+  const now = Date.now();
+  return endpoints.map((e) => ({
+    label: e.label,
+    healthy: e.downUntil <= now,
+    latencyMs: Math.round(e.latencyMs),
+    failures: e.failures,
+  }));
+}
+
+// ── Selection ─────────────────────────────────────────────────────────────────
+
+/**
+ * Endpoints in the order to try them: one healthy endpoint drawn at random
+ * with weight 1/latency, then the other healthy ones fastest first, then
+ * those in cooldown soonest-back first.
+ */
+function attemptOrder(): EndpointState[] {
+  const now = Date.now();
+  if (endpoints.length > 1 && now - lastHealthCheck > HEALTH_INTERVAL_MS) {
+    checkRpcHealth().catch(() => { /* recorded per endpoint */ });
+  }
+
+  const healthy = endpoints
+    .filter((e) => e.downUntil <= now)
+    .sort((a, b) => a.latencyMs - b.latencyMs);
+  const down = endpoints
+    .filter((e) => e.downUntil > now)
+    .sort((a, b) => a.downUntil - b.downUntil);
+
+  if (healthy.length > 1) {
+    const weights = healthy.map((e) => 1 / Math.max(e.latencyMs, 1));
+    let roll = Math.random() * weights.reduce((sum, w) => sum + w, 0);
+    const index = weights.findIndex((w) => (roll -= w) <= 0);
+    const [first] = healthy.splice(index === -1 ? 0 : index, 1);
+    healthy.unshift(first);
+  }
+  return [...healthy, ...down];
+}
+
+/** The URL to hand to clients that need one (e.g. Umi), fastest healthy first. */
+export function primaryRpcEndpoint(): RpcEndpoint {
+  return attemptOrder()[0];
+}
+
+/** Endpoint labels, safe to print. */
+export function rpcEndpointLabels(): string[] {
+  return endpoints.map((e) => e.label);
+}
+
+// ── Calls ─────────────────────────────────────────────────────────────────────
+
+export interface RpcCallOptions<T> {
+  // True for an answer another endpoint may improve on — e.g. null from a
+  // node that hasn't seen a transaction yet. The endpoint isn't penalised.
+  retryIf?: (result: T) => boolean;
+}
+
+/**
+ * Run `fn` against the pool, failing over to the next endpoint when it
+ * throws or its result matches `retryIf`. After MAX_ATTEMPTS endpoints the
+ * last such result is returned if there is one, else the last error thrown.
+ */
+export async function withRpc<T>(
+  fn: (endpoint: RpcEndpoint) => Promise<T>,
+  { retryIf }: RpcCallOptions<T> = {},
+): Promise<T> {
+  let lastError: unknown;
+  let empty: { result: T } | undefined;
+  for (const endpoint of attemptOrder().slice(0, MAX_ATTEMPTS)) {
+    const started = Date.now();
+    try {
+      const result = await fn(endpoint);
+      recordSuccess(endpoint, Date.now() - started);
+      if (!retryIf?.(result)) return result;
+      empty = { result };
+      console.warn(`[rpcPool] ${endpoint.label} had nothing yet, trying next`);
+    } catch (error: any) {
+      recordFailure(endpoint);
+      lastError = error;
+      console.warn(`[rpcPool] ${endpoint.label} failed, trying next:`, error?.message);
+    }
+  }
+  if (empty) return empty.result;
+  throw lastError;
+}
+
+/** The transaction, or null when no endpoint tried has it. */
+export function getTransaction(signature: string): Promise<VersionedTransactionResponse | null> {
+  return withRpc(
+    ({ connection }) =>
+      connection.getTransaction(signature, {
+        maxSupportedTransactionVersion: 0,
+        commitment: 'confirmed',
+      }),
+    { retryIf: (tx) => tx === null },
+  );
+}
+
+/** Statuses in order, null for a signature no endpoint tried knows. */
+export async function getSignatureStatuses(signatures: string[]): Promise<Array<SignatureStatus | null>> {
+  const { value } = await withRpc(
+    ({ connection }) => connection.getSignatureStatuses(signatures, { searchTransactionHistory: true }),
+    { retryIf: (result) => result.value.some((status) => status === null) },
+  );
+  return value;
+}
+
+export function getSignaturesForAddress(address: string, limit: number) {
+  return withRpc(({ connection }) =>
+    connection.getSignaturesForAddress(new PublicKey(address), { limit }, 'confirmed'),
+  );
+}
@@ -0,0 +1,324 @@
+import { z } from 'zod';
+import bs58 from 'bs58';
+import { ValidationIssue } from '@/types';
+
+/**
+ * Request schemas for every route body and query string. The request types in
+ * src/types are inferred from these, so client and server share one
+ * definition. Objects are strict — unknown fields are rejected.
+ */
+
+// ── Primitives ────────────────────────────────────────────────────────────────
+
+const MAX_BURNS_PER_BATCH = 100;
+const MAX_NAME_LEN        = 512; // burnRecording sanitizes to the same length
+const MAX_NOTE_LEN        = 512;
+
+function base58OfLength(bytes: number, what: string) {
+  return z.string().refine((value) => {
+    try {
+      return bs58.decode(value).length === bytes;
+    } catch {
+      return false;
+    }
+  }, `Invalid ${what}`);
+}
+
+export const publicKeySchema = base58OfLength(32, 'public key');
+export const signatureSchema = base58OfLength(64, 'signature');
+
+// Normalised to a full ISO timestamp
+export const isoDateSchema = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), 'Must be an ISO date')
+  .transform((value) => new Date(value).toISOString());
+
+export const slugIdSchema = z
+  .string()
+  .regex(/^[a-z0-9-]{1,64}$/, 'Must be 1-64 chars of a-z, 0-9 or -');
+
+const noteSchema = z.string().trim().max(MAX_NOTE_LEN).optional();
+
+// Query strings arrive as strings — "" counts as absent
+const blankAsAbsent = (value: unknown) => (typeof value === 'string' && !value.trim() ? undefined : value);
+const queryString = z.preprocess(blankAsAbsent, z.string().trim().optional());
+const queryDate = z.preprocess(blankAsAbsent, isoDateSchema.optional());
+// An exclusive upper bound: a bare YYYY-MM-DD runs to the end of that day
+const queryDateBefore = z.preprocess(
+  (value) => {
+    const day = blankAsAbsent(value);
+    if (typeof day !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(day)) return day;
+    const next = new Date(`${day}T00:00:00.000Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    return Number.isNaN(next.getTime()) ? day : next.toISOString();
+  },
+  isoDateSchema.optional(),
+);
+// Out-of-range numbers are clamped; anything unparseable falls back
+const queryInt = (fallback: number, min: number, max: number) =>
+  z.preprocess(
+    blankAsAbsent,
+    z.coerce.number().int().catch(fallback).transform((n) => Math.min(Math.max(n, min), max)),
+  );
+
+// ── Wallet routes ─────────────────────────────────────────────────────────────
+
+// One burn of a batch. recordBurnBatch checks entries one by one, so a bad
+// entry is rejected on its own (`invalid_entry` / `invalid_mint`) and the
+// rest of the batch is still recorded.
+export const burnEntrySchema = z.strictObject({
+  mintAddress: publicKeySchema,
+  transactionSignature: signatureSchema,
+  name: z.string().min(1).max(MAX_NAME_LEN),
+});
+
+export const burnBatchRequestSchema = z.strictObject({
+  walletAddress: publicKeySchema,
+  // Any entries — see burnEntrySchema
+  burns: z.array(z.unknown()).min(1).max(MAX_BURNS_PER_BATCH),
+  upgrades: z
+    .array(z.strictObject({
+      // Names a submitted burn, which is where a bad mint is reported
+      burnedMint: z.string().max(MAX_NAME_LEN),
+      // Empty when a burn has no target — the recipe reports it as unpaired
+      upgradeMint: z.union([publicKeySchema, z.literal('')]),
+      upgradeName: z.string().max(MAX_NAME_LEN),
+    }))
+    .max(MAX_BURNS_PER_BATCH),
+  // Client journal entry this batch came from (see PendingBurn)
+  journalId: z.string().regex(/^[A-Za-z0-9-]{8,64}$/).optional(),
+});
+
+// POST /api/pending-burns — a journaled batch always names its entry
+export const pendingBurnRequestSchema = burnBatchRequestSchema.required({ journalId: true });
+
+export const authNonceRequestSchema = z.strictObject({
+  walletAddress: publicKeySchema,
+});
+
+export const authSessionRequestSchema = z.strictObject({
+  walletAddress: publicKeySchema,
+  nonce: z.string().min(1).max(128),
+  signature: signatureSchema,
+});
+
+export const lockedMintsQuerySchema = z.object({
+  wallet: publicKeySchema,
+});
+
+export const inventoryQuerySchema = z.object({
+  wallet: publicKeySchema,
+  page: queryInt(1, 1, 1000),
+  // `refresh=1` skips the cache
+  refresh: z.preprocess(blankAsAbsent, z.enum(['0', '1']).optional()).transform((v) => v === '1'),
+});
+
+export const historyQuerySchema = z.object({
+  wallet: publicKeySchema,
+  page: queryInt(1, 1, Number.MAX_SAFE_INTEGER),
+  limit: queryInt(10, 1, 50),
+});
+
+// PUT /api/leaderboard/profile — what the signed-in wallet shows publicly
+export const leaderboardProfileSchema = z.strictObject({
+  visible: z.boolean(),
+  displayName: z
+    .string()
+    .trim()
+    .max(32)
+    .regex(/^[\p{L}\p{N} ._-]*$/u, 'Letters, numbers, spaces and . _ - only')
+    .optional(),
+  // Without it only `displayName` is shown
+  showAddress: z.boolean().default(true),
+}).refine((p) => !p.visible || p.showAddress || !!p.displayName, {
+  message: 'A display name is required when the address is hidden',
+  path: ['displayName'],
+});
+
+// ── Public stats ──────────────────────────────────────────────────────────────
+
+export const statsQuerySchema = z.object({
+  days: queryInt(30, 1, 365),
+  campaign: queryString,
+});
+
+export const leaderboardQuerySchema = z.object({
+  limit: queryInt(25, 1, 100),
+  campaign: queryString,
+});
+
+// ── Admin routes ──────────────────────────────────────────────────────────────
+
+const traitConditionSchema = z.strictObject({
+  trait_type: z.string(),
+  values: z.array(z.string()),
+});
+
+const recipeFields = {
+  id: slugIdSchema,
+  name: z.string().trim().min(1, 'name is required').max(128),
+  burnsPerUpgrade: z.number().int().min(1).max(10),
+  burnEligibility: z.array(traitConditionSchema).optional(),
+  targetEligibility: z.array(traitConditionSchema).optional(),
+  maxUpgradesPerWallet: z.number().int().nonnegative().optional(),
+  startsAt: isoDateSchema.optional(),
+  endsAt: isoDateSchema.optional(),
+  active: z.boolean(),
+};
+
+export const recipeSchema = z.strictObject({ ...recipeFields, active: recipeFields.active.default(false) });
+// PATCH — any subset; the id lives in the URL
+export const recipePatchSchema = z.strictObject(recipeFields).partial();
+
+const campaignFields = {
+  id: slugIdSchema,
+  name: z.string().trim().min(1, 'name is required').max(128),
+  opensAt: isoDateSchema,
+  closesAt: isoDateSchema,
+  maxBurns: z.number().int().nonnegative().optional(),
+  maxUpgrades: z.number().int().nonnegative().optional(),
+  perWalletBurnLimit: z.number().int().nonnegative().optional(),
+  perWalletUpgradeLimit: z.number().int().nonnegative().optional(),
+};
+
+export const campaignSchema = z
+  .strictObject(campaignFields)
+  .refine((c) => c.opensAt < c.closesAt, { message: 'closesAt must be after opensAt', path: ['closesAt'] });
+export const campaignPatchSchema = z.strictObject(campaignFields).partial();
+
+export const upgradeStatusSchema = z.enum(['pending', 'approved', 'applied', 'failed']);
+
+export const upgradeStatusUpdateSchema = z.strictObject({
+  status: upgradeStatusSchema,
+  note: noteSchema,
+});
+
+export const findingUpdateSchema = z.strictObject({
+  status: z.enum(['ignored', 'open']),
+  note: noteSchema,
+});
+
+export const backfillRequestSchema = z.strictObject({
+  ids: z.array(z.string()).optional(),
+});
+
+export const adminBurnsQuerySchema = z.object({
+  wallet: queryString,
+  mint: queryString,
+  target: queryString,
+  signature: queryString,
+  campaign: queryString,
+  from: queryDate,
+  to: queryDateBefore,
+  page: queryInt(1, 1, Number.MAX_SAFE_INTEGER),
+  limit: queryInt(25, 1, 100),
+});
+
+export const findingsQuerySchema = z.object({
+  status: z.preprocess(blankAsAbsent, z.enum(['open', 'resolved', 'backfilled', 'ignored', 'all']).default('open')),
+  kind: z.preprocess(blankAsAbsent, z.enum(['missing_in_db', 'not_burnt', 'signature_mismatch']).optional()),
+  limit: queryInt(50, 1, 200),
+  skip: queryInt(0, 0, Number.MAX_SAFE_INTEGER),
+});
+
+export const upgradesQuerySchema = z.object({
+  status: z.preprocess(blankAsAbsent, upgradeStatusSchema.optional()),
+  limit: queryInt(50, 1, 200),
+  skip: queryInt(0, 0, Number.MAX_SAFE_INTEGER),
+});
+
+export const webhookEventTypeSchema = z.enum(['burn.recorded', 'upgrade.applied', 'reconciliation.mismatch']);
+
+const DISCORD_WEBHOOK_RE = /^https:\/\/(discord|discordapp)\.com\/api\/webhooks\//;
+
+// Plain http only for local testing
+const webhookUrlSchema = z.url().refine(
+  (url) => url.startsWith('https://') || (process.env.NODE_ENV === 'development' && url.startsWith('http://')),
+  'Must be an https URL',
+);
+
+const webhookEndpointFields = {
+  name: z.string().trim().min(1, 'name is required').max(64),
+  url: webhookUrlSchema,
+  kind: z.enum(['http', 'discord']),
+  events: z.array(webhookEventTypeSchema).min(1),
+  active: z.boolean(),
+};
+
+const discordUrlCheck = {
+  message: 'Discord endpoints need a discord.com/api/webhooks/ URL',
+  path: ['url'],
+};
+
+export const webhookEndpointSchema = z
+  .strictObject({
+    ...webhookEndpointFields,
+    kind: webhookEndpointFields.kind.default('http'),
+    active: webhookEndpointFields.active.default(true),
+  })
+  .refine((e) => e.kind !== 'discord' || DISCORD_WEBHOOK_RE.test(e.url), discordUrlCheck);
+
+// PATCH — any subset; `rotateSecret` issues a new signing secret
+export const webhookEndpointPatchSchema = z
+  .strictObject({ ...webhookEndpointFields, rotateSecret: z.literal(true) })
+  .partial();
+
+export const webhookDeliveriesQuerySchema = z.object({
+  endpoint: queryString,
+  status: z.preprocess(blankAsAbsent, z.enum(['pending', 'delivered', 'failed']).optional()),
+  limit: queryInt(50, 1, 200),
+  skip: queryInt(0, 0, Number.MAX_SAFE_INTEGER),
+});
+
+// ── Chain-event webhook ───────────────────────────────────────────────────────
+
+// Helius enhanced-transaction webhooks. Only the fields we read are checked;
+// the rest of each transaction is passed through untouched.
+const chainInstructionSchema = z.object({
+  programId: z.string(),
+  accounts: z.array(z.string()),
+  data: z.string(), // base58
+});
+
+export const chainEventSchema = z.looseObject({
+  signature: signatureSchema,
+  timestamp: z.number().optional(),
+  transactionError: z.unknown().optional(),
+  instructions: z.array(chainInstructionSchema.extend({
+    innerInstructions: z.array(chainInstructionSchema).optional(),
+  })),
+});
+
+export const chainEventsRequestSchema = z.array(chainEventSchema).max(1000);
+
+// ── Parsing ───────────────────────────────────────────────────────────────────
+
+export type Parsed<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: string; issues: ValidationIssue[] };
+
+/**
+ * Validate `input` against `schema`. On failure `issues` lists every bad
+ * field by dotted path (e.g. `burns.2.mintAddress`) and `error` describes the
+ * first one.
+ */
+export function parseWith<S extends z.ZodType>(schema: S, input: unknown): Parsed<z.output<S>> {
+  const result = schema.safeParse(input);
+  if (result.success) return { ok: true, data: result.data };
+
+  const issues = result.error.issues.map((issue) => ({
+    path: issue.path.map(String).join('.'),
+    message: issue.message,
+  }));
+  const [first] = issues;
+  return {
+    ok: false,
+    error: first.path ? `${first.path}: ${first.message}` : first.message,
+    issues,
+  };
+}
+
+/** A query string as a plain object, for parseWith. */
+export function queryObject(params: URLSearchParams): Record<string, string> {
+  return Object.fromEntries(params.entries());
+}
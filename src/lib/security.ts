@@ -0,0 +1,23 @@
+import { NextRequest } from 'next/server';
+
+export function isAllowedOrigin(origin: string | null): boolean {
+  if (!origin) return false;
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  if (appUrl && origin === appUrl) return true;
+  if (process.env.NODE_ENV === 'development') {
+    return /^https?:\/\/localhost(:\d+)?$/.test(origin);
+  }
+  return false;
+}
+
+/** Origin check that falls back to the Referer for same-origin GETs (no Origin header). */
+export function isAllowedOriginOrReferer(request: NextRequest): boolean {
+  if (isAllowedOrigin(request.headers.get('origin'))) return true;
+  const referer = request.headers.get('referer');
+  if (!referer) return false;
+  try {
+    return isAllowedOrigin(new URL(referer).origin);
+  } catch {
+    return false;
+  }
+}
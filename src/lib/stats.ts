@@ -0,0 +1,139 @@
+import { Filter } from 'mongodb';
+import {
+  BurntNFT,
+  CollectionStats,
+  LeaderboardEntry,
+  LeaderboardProfile,
+  LeaderboardProfileRequest,
+} from '@/types';
+import { getBurntNFTsCollection, getLeaderboardProfilesCollection } from '@/lib/mongodb';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+const DAY_MS     = 24 * 60 * 60_000;
+const TOP_TRAITS = 10;
+
+// Public stats are served from the CDN for 5 minutes, then refreshed in the background
+export const PUBLIC_CACHE_CONTROL = 'public, s-maxage=300, stale-while-revalidate=600';
+
+const campaignFilter = (campaignId?: string): Filter<BurntNFT> => (campaignId ? { campaignId } : {});
+
+/**
+ * Collection-wide totals, burns per UTC day over the last `days` days and the
+ * trait values applied upgrades reached most often. Nothing in here is tied
+ * to a wallet.
+ */
+export async function getCollectionStats(days: number, campaignId?: string): Promise<CollectionStats> {
+  const collection = await getBurntNFTsCollection();
+  const base = campaignFilter(campaignId);
+  const applied: Filter<BurntNFT> = { ...base, upgradeStatus: 'applied' };
+
+  const today = Math.floor(Date.now() / DAY_MS) * DAY_MS;
+  const since = new Date(today - (days - 1) * DAY_MS).toISOString();
+
+  const [totalBurned, burners, upgrades, perDay, traits] = await Promise.all([
+    collection.countDocuments(base),
+    collection
+      .aggregate<{ n: number }>([{ $match: base }, { $group: { _id: '$burntBy' } }, { $count: 'n' }])
+      .toArray(),
+    collection
+      .aggregate<{ n: number }>([{ $match: applied }, { $group: { _id: '$upgradeTargetMint' } }, { $count: 'n' }])
+      .toArray(),
+    collection
+      .aggregate<{ _id: string; burns: number }>([
+        { $match: { ...base, burntAt: { $gte: since } } },
+        // burntAt is an ISO string, so its first 10 chars are the UTC day
+        { $group: { _id: { $substrBytes: ['$burntAt', 0, 10] }, burns: { $sum: 1 } } },
+      ])
+      .toArray(),
+    collection
+      .aggregate<{ _id: { key: string; value: string }; upgrades: number }>([
+        { $match: { ...applied, 'upgradePlan.kind': 'attribute' } },
+        // One count per target, however many burns fed it
+        {
+          $group: {
+            _id: { target: '$upgradeTargetMint', key: '$upgradePlan.key', value: '$upgradePlan.value' },
+          },
+        },
+        { $group: { _id: { key: '$_id.key', value: '$_id.value' }, upgrades: { $sum: 1 } } },
+        { $sort: { upgrades: -1, '_id.key': 1, '_id.value': 1 } },
+        { $limit: TOP_TRAITS },
+      ])
+      .toArray(),
+  ]);
+
+  const burnsByDay = new Map(perDay.map((d) => [d._id, d.burns]));
+  const burnsPerDay = Array.from({ length: days }, (_, i) => {
+    const date = new Date(Date.parse(since) + i * DAY_MS).toISOString().slice(0, 10);
+    return { date, burns: burnsByDay.get(date) ?? 0 };
+  });
+
+  return {
+    totalBurned,
+    totalUpgrades: upgrades[0]?.n ?? 0,
+    burners: burners[0]?.n ?? 0,
+    burnsPerDay,
+    topTraits: traits.map((t) => ({ trait_type: t._id.key, value: t._id.value, upgrades: t.upgrades })),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Top burners among wallets that have opted in, by burns then upgrade
+ * targets. Each entry carries only what the wallet's profile allows.
+ */
+export async function getLeaderboard(limit: number, campaignId?: string): Promise<LeaderboardEntry[]> {
+  const profiles = await (await getLeaderboardProfilesCollection())
+    .find({ visible: true }, { projection: { _id: 0 } })
+    .toArray();
+  if (profiles.length === 0) return [];
+  const byWallet = new Map(profiles.map((p) => [p.walletAddress, p]));
+
+  const collection = await getBurntNFTsCollection();
+  const rows = await collection
+    .aggregate<{ _id: string; burns: number; upgrades: number }>([
+      { $match: { ...campaignFilter(campaignId), burntBy: { $in: [...byWallet.keys()] } } },
+      { $group: { _id: '$burntBy', burns: { $sum: 1 }, targets: { $addToSet: '$upgradeTargetMint' } } },
+      { $project: { burns: 1, upgrades: { $size: '$targets' } } },
+      { $sort: { burns: -1, upgrades: -1, _id: 1 } },
+      { $limit: limit },
+    ])
+    .toArray();
+
+  // Equal scores share a rank (1, 2, 2, 4)
+  const entries: LeaderboardEntry[] = [];
+  for (const [i, row] of rows.entries()) {
+    const prev = rows[i - 1];
+    const tied = prev && prev.burns === row.burns && prev.upgrades === row.upgrades;
+    const profile = byWallet.get(row._id)!;
+    entries.push({
+      rank: tied ? entries[i - 1].rank : i + 1,
+      ...(profile.showAddress && { walletAddress: row._id }),
+      ...(profile.displayName && { displayName: profile.displayName }),
+      burns: row.burns,
+      upgrades: row.upgrades,
+    });
+  }
+  return entries;
+}
+
+export async function getLeaderboardProfile(walletAddress: string): Promise<LeaderboardProfile | null> {
+  const profiles = await getLeaderboardProfilesCollection();
+  return profiles.findOne({ walletAddress }, { projection: { _id: 0 } });
+}
+
+export async function saveLeaderboardProfile(
+  walletAddress: string,
+  request: LeaderboardProfileRequest,
+): Promise<LeaderboardProfile> {
+  const profile: LeaderboardProfile = {
+    walletAddress,
+    visible: request.visible,
+    showAddress: request.showAddress,
+    ...(request.displayName && { displayName: request.displayName }),
+    updatedAt: new Date().toISOString(),
+  };
+
+  const profiles = await getLeaderboardProfilesCollection();
+  await profiles.replaceOne({ walletAddress }, profile, { upsert: true });
+  return profile;
+}
@@ -0,0 +1,62 @@
+import { UpgradeClaim } from '@/types';
+import { getBurntNFTsCollection, getUpgradeClaimsCollection } from '@/lib/mongodb';
+
+/**
+ * Create the missing `upgrade_claims` for targets recorded before claims
+ * existed, one per target, from its burnt_nfts records. Existing claims are
+ * left untouched, so this is safe to rerun. Returns the targets it created.
+ */
+export async function backfillUpgradeClaims(): Promise<string[]> {
+  const collection = await getBurntNFTsCollection();
+  const claims = await getUpgradeClaimsCollection();
+
+  const groups = await collection
+    .aggregate<{
+      _id: string;
+      targetName?: string;
+      walletAddress: string;
+      burnMints: string[];
+      transactionSignatures: string[];
+      recipeId?: string;
+      campaignId?: string;
+      claimedAt: string;
+    }>([
+      { $match: { upgradeTargetMint: { $exists: true, $ne: '' } } },
+      { $sort: { burntAt: 1 } },
+      {
+        $group: {
+          _id: '$upgradeTargetMint',
+          targetName: { $first: '$upgradeTargetName' },
+          walletAddress: { $first: '$burntBy' },
+          burnMints: { $push: '$mint' },
+          transactionSignatures: { $addToSet: '$transactionSignature' },
+          recipeId: { $first: '$recipeId' },
+          campaignId: { $first: '$campaignId' },
+          claimedAt: { $first: '$burntAt' },
+        },
+      },
+    ])
+    .toArray();
+
+  const created: string[] = [];
+  for (const g of groups) {
+    const claim: UpgradeClaim = {
+      targetMint: g._id,
+      targetName: g.targetName || '',
+      walletAddress: g.walletAddress,
+      burnMints: g.burnMints,
+      transactionSignatures: g.transactionSignatures,
+      ...(g.recipeId && { recipeId: g.recipeId }),
+      ...(g.campaignId && { campaignId: g.campaignId }),
+      claimedAt: g.claimedAt,
+      source: 'backfill',
+    };
+    const res = await claims.updateOne(
+      { targetMint: claim.targetMint },
+      { $setOnInsert: claim },
+      { upsert: true },
+    );
+    if (res.upsertedCount > 0) created.push(claim.targetMint);
+  }
+  return created;
+}
@@ -0,0 +1,205 @@
+import { BurnRecipe, RuleViolation, TraitCondition } from '@/types';
+
+/**
+ * Upgrade rules shared by the wizard and POST /api/burn-and-upgrade.
+ * Nothing here touches the database so it can run in the browser; the server
+ * loads the active recipe and is the one that enforces it.
+ */
+
+/** Used when no recipe is configured — one burn upgrades one NFT, no limits. */
+export const DEFAULT_RECIPE: BurnRecipe = {
+  id: 'default',
+  name: 'Burn 1, upgrade 1',
+  burnsPerUpgrade: 1,
+  active: true,
+};
+
+type Attributes = Array<{ trait_type: string; value: string }> | undefined;
+
+export interface RuleNFT {
+  mint: string;
+  attributes?: Attributes;
+}
+
+export interface BatchToEvaluate {
+  burns: RuleNFT[];
+  targets: RuleNFT[];
+  // One entry per burn: which target that burn feeds
+  pairings: Array<{ burnedMint: string; upgradeMint: string }>;
+  now: Date;
+}
+
+function matchesConditions(attributes: Attributes, conditions: TraitCondition[] | undefined): boolean {
+  if (!conditions || conditions.length === 0) return true;
+  return conditions.every((c) =>
+    (attributes ?? []).some((a) => a.trait_type === c.trait_type && c.values.includes(String(a.value))),
+  );
+}
+
+export function isEligibleBurn(recipe: BurnRecipe, nft: RuleNFT): boolean {
+  return matchesConditions(nft.attributes, recipe.burnEligibility);
+}
+
+export function isEligibleTarget(recipe: BurnRecipe, nft: RuleNFT): boolean {
+  return matchesConditions(nft.attributes, recipe.targetEligibility);
+}
+
+export function isInSeason(recipe: BurnRecipe, now: Date): boolean {
+  if (recipe.startsAt && now < new Date(recipe.startsAt)) return false;
+  if (recipe.endsAt && now >= new Date(recipe.endsAt)) return false;
+  return true;
+}
+
+/** Upgrades still available to a wallet under the recipe's per-wallet cap. */
+export function remainingUpgrades(recipe: BurnRecipe, upgradesUsed: number): number {
+  if (recipe.maxUpgradesPerWallet === undefined) return Infinity;
+  return Math.max(recipe.maxUpgradesPerWallet - upgradesUsed, 0);
+}
+
+/**
+ * Most upgrades a wallet can complete from its inventory: each upgrade needs
+ * `burnsPerUpgrade` eligible burns plus one distinct eligible target.
+ */
+export function maxUpgradesForInventory(
+  recipe: BurnRecipe,
+  nfts: RuleNFT[],
+  upgradesUsed: number,
+): number {
+  const n = recipe.burnsPerUpgrade;
+  const burnable = nfts.filter((nft) => isEligibleBurn(recipe, nft)).length;
+  const targetable = nfts.filter((nft) => isEligibleTarget(recipe, nft)).length;
+  const usable = nfts.filter((nft) => isEligibleBurn(recipe, nft) || isEligibleTarget(recipe, nft)).length;
+
+  return Math.min(
+    Math.floor(burnable / n),
+    targetable,
+    Math.floor(usable / (n + 1)),
+    remainingUpgrades(recipe, upgradesUsed),
+  );
+}
+
+/**
+ * Every way `batch` breaks `recipe`; an empty list means the batch is valid.
+ * The per-wallet cap depends on what is already recorded, so it is checked
+ * where the batch is committed — see `wallet_cap_exceeded` in burnRecording.
+ */
+export function evaluateBatch(recipe: BurnRecipe, batch: BatchToEvaluate): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+
+  if (!isInSeason(recipe, batch.now)) {
+    violations.push({ code: 'outside_season', message: `"${recipe.name}" is not running right now` });
+  }
+
+  const targetsByMint = new Map(batch.targets.map((t) => [t.mint, t]));
+  const burnsPerTarget = new Map<string, number>();
+
+  for (const burn of batch.burns) {
+    const pairing = batch.pairings.find((p) => p.burnedMint === burn.mint);
+    if (!pairing?.upgradeMint || !targetsByMint.has(pairing.upgradeMint)) {
+      violations.push({ code: 'unpaired_burn', message: 'Burn has no upgrade target', mint: burn.mint });
+      continue;
+    }
+    burnsPerTarget.set(pairing.upgradeMint, (burnsPerTarget.get(pairing.upgradeMint) ?? 0) + 1);
+
+    if (!isEligibleBurn(recipe, burn)) {
+      violations.push({ code: 'burn_not_eligible', message: 'NFT is not eligible to burn', mint: burn.mint });
+    }
+  }
+
+  for (const [mint, count] of burnsPerTarget) {
+    if (count !== recipe.burnsPerUpgrade) {
+      violations.push({
+        code: 'wrong_group_size',
+        message: `Each upgrade needs exactly ${recipe.burnsPerUpgrade} burn(s), got ${count}`,
+        mint,
+      });
+    }
+    if (!isEligibleTarget(recipe, targetsByMint.get(mint)!)) {
+      violations.push({ code: 'target_not_eligible', message: 'NFT is not eligible for upgrade', mint });
+    }
+  }
+
+  return violations;
+}
+
+// ── Pairing ───────────────────────────────────────────────────────────────────
+
+/** Which upgrade target each burn feeds, keyed by burned mint. */
+export type BurnPairings = Record<string, string>;
+
+/** Burned mints paired with each target, in target order. */
+export function burnsByTarget(pairings: BurnPairings, targets: RuleNFT[]): Map<string, string[]> {
+  const groups = new Map<string, string[]>(targets.map((t) => [t.mint, []]));
+  for (const [burnedMint, targetMint] of Object.entries(pairings)) {
+    groups.get(targetMint)?.push(burnedMint);
+  }
+  return groups;
+}
+
+/**
+ * Keep the pairings that still fit the current selections, then hand every
+ * unpaired burn to the first target with room. Choices the user already made
+ * are never moved.
+ */
+export function reconcilePairings(
+  pairings: BurnPairings,
+  burns: RuleNFT[],
+  targets: RuleNFT[],
+  burnsPerUpgrade: number,
+): BurnPairings {
+  const next: BurnPairings = {};
+  const load = new Map<string, number>(targets.map((t) => [t.mint, 0]));
+
+  for (const burn of burns) {
+    const target = pairings[burn.mint];
+    const count = target === undefined ? undefined : load.get(target);
+    if (count !== undefined && count < burnsPerUpgrade) {
+      next[burn.mint] = target;
+      load.set(target, count + 1);
+    }
+  }
+
+  for (const burn of burns) {
+    if (next[burn.mint]) continue;
+    const open = targets.find((t) => load.get(t.mint)! < burnsPerUpgrade);
+    if (!open) break;
+    next[burn.mint] = open.mint;
+    load.set(open.mint, load.get(open.mint)! + 1);
+  }
+
+  return next;
+}
+
+/**
+ * Pair `burnedMint` with `targetMint`. When the target is already full, one
+ * of its burns swaps over to the moved burn's old target (or is unpaired).
+ */
+export function assignBurn(
+  pairings: BurnPairings,
+  burnedMint: string,
+  targetMint: string,
+  burnsPerUpgrade: number,
+): BurnPairings {
+  const previous = pairings[burnedMint];
+  if (previous === targetMint) return pairings;
+
+  const next = { ...pairings, [burnedMint]: targetMint };
+  const occupants = Object.keys(pairings).filter((m) => pairings[m] === targetMint);
+  if (occupants.length >= burnsPerUpgrade) {
+    const displaced = occupants[occupants.length - 1];
+    if (previous) next[displaced] = previous;
+    else delete next[displaced];
+  }
+  return next;
+}
+
+/** Every burn has a target and every target exactly `burnsPerUpgrade` burns. */
+export function isPairingComplete(
+  pairings: BurnPairings,
+  burns: RuleNFT[],
+  targets: RuleNFT[],
+  burnsPerUpgrade: number,
+): boolean {
+  if (burns.some((b) => !pairings[b.mint])) return false;
+  return [...burnsByTarget(pairings, targets).values()].every((g) => g.length === burnsPerUpgrade);
+}
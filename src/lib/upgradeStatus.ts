@@ -0,0 +1,90 @@
+import { Collection, Filter } from 'mongodb';
+import { BurntNFT, UpgradeStatus, UpgradeStatusChange } from '@/types';
+import { getBurntNFTsCollection } from '@/lib/mongodb';
+import { emitWebhookEvent } from '@/lib/webhooks';
+
+/** Allowed lifecycle moves. `failed → pending` lets ops re-queue a fulfilment. */
+const TRANSITIONS: Record<UpgradeStatus, UpgradeStatus[]> = {
+  pending: ['approved', 'failed'],
+  approved: ['applied', 'failed'],
+  applied: [],
+  failed: ['pending'],
+};
+
+/**
+ * Mongo filter for records in a given status. Records written before the
+ * lifecycle existed have no `upgradeStatus` and are treated as pending.
+ */
+export function upgradeStatusFilter(statuses: UpgradeStatus[]): Filter<BurntNFT> {
+  const values: Array<UpgradeStatus | null> = [...statuses];
+  if (statuses.includes('pending')) values.push(null);
+  return { upgradeStatus: { $in: values } } as Filter<BurntNFT>;
+}
+
+export type TransitionResult =
+  | { ok: true; updated: number }
+  | { ok: false; reason: 'not_found' | 'invalid_transition'; current?: UpgradeStatus };
+
+/**
+ * Move every burn record linked to `targetMint` into `to`.
+ *
+ * The status precondition is part of the update filter, so two operators
+ * racing on the same target can't both succeed. `records` defaults to the
+ * `burnt_nfts` collection.
+ */
+export async function transitionUpgradeStatus(
+  targetMint: string,
+  to: UpgradeStatus,
+  operator: string,
+  note?: string,
+  records?: Collection<BurntNFT>,
+): Promise<TransitionResult> {
+  const collection = records ?? await getBurntNFTsCollection();
+
+  const current = await collection.findOne(
+    { upgradeTargetMint: targetMint },
+    { projection: { upgradeStatus: 1 } },
+  );
+  if (!current) return { ok: false, reason: 'not_found' };
+
+  const from: UpgradeStatus = current.upgradeStatus ?? 'pending';
+  if (!TRANSITIONS[from].includes(to)) {
+    return { ok: false, reason: 'invalid_transition', current: from };
+  }
+
+  const now = new Date().toISOString();
+  const change: UpgradeStatusChange = { from, to, at: now, operator, ...(note && { note }) };
+
+  const result = await collection.updateMany(
+    { upgradeTargetMint: targetMint, ...upgradeStatusFilter([from]) },
+    {
+      $set: {
+        upgradeStatus: to,
+        upgradeStatusUpdatedAt: now,
+        upgradeOperator: operator,
+        ...(note !== undefined && { upgradeNote: note }),
+      },
+      $push: { upgradeHistory: change },
+    },
+  );
+
+  if (result.modifiedCount === 0) {
+    // Lost a race with another transition — report what it is now
+    const latest = await collection.findOne(
+      { upgradeTargetMint: targetMint },
+      { projection: { upgradeStatus: 1 } },
+    );
+    return { ok: false, reason: 'invalid_transition', current: latest?.upgradeStatus ?? 'pending' };
+  }
+
+  if (to === 'applied') {
+    await emitWebhookEvent('upgrade.applied', {
+      targetMint,
+      operator,
+      ...(note && { note }),
+      records: result.modifiedCount,
+    });
+  }
+
+  return { ok: true, updated: result.modifiedCount };
+}
@@ -0,0 +1,359 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import bs58 from 'bs58';
+import { publicKey, type Umi } from '@metaplex-foundation/umi';
+import type { AssetV1 } from '@metaplex-foundation/mpl-core';
+import type { Collection } from 'mongodb';
+import { BurntNFT } from '@/types';
+import { memoryDb } from '@/test/memoryMongo';
+import { runUpgradeWorker, planUpgrade, isPlanApplied, UpgradeRecipe } from '@/lib/upgradeWorker';
+
+vi.mock('@/lib/mongodb', async () => (await import('@/test/memoryMongo')).mongodbModule);
+vi.mock('@/lib/webhooks', () => ({ emitWebhookEvent: vi.fn() }));
+
+// The fields of a Core asset the worker reads
+type TestAsset = Pick<AssetV1, 'publicKey' | 'uri' | 'updateAuthority' | 'attributes'>;
+
+// What the worker passes the mpl-core builders, as far as these tests read it
+interface BuilderArgs {
+  asset: unknown;
+  collection?: unknown;
+  uri?: string;
+  plugin?: { type: string; attributeList: Array<{ key: string; value: string }> };
+}
+
+// On-chain state the mocked program and RPC pool read, and what the mocked builders record
+const chain = vi.hoisted(() => ({
+  assets: new Map<string, TestAsset>(),
+  built: [] as Array<{ builder: string; args: BuilderArgs }>,
+  statuses: [] as Array<{ confirmationStatus: string; err: unknown } | null>,
+}));
+
+vi.mock('@/lib/rpcPool', () => ({
+  getSignatureStatuses: vi.fn(async () => chain.statuses),
+  primaryRpcEndpoint: vi.fn(),
+}));
+
+vi.mock('@metaplex-foundation/mpl-core', () => {
+  const builder = (name: string) => (_umi: unknown, args: BuilderArgs) => {
+    chain.built.push({ builder: name, args });
+    return {
+      setBlockhash: () => ({
+        buildAndSign: async () => ({ signatures: [new Uint8Array(64).fill(chain.built.length)] }),
+      }),
+    };
+  };
+  return {
+    mplCore: () => ({ install() {} }),
+    fetchAsset: async (_umi: unknown, address: string) => {
+      const asset = chain.assets.get(address);
+      if (!asset) throw new Error(`Asset ${address} not found`);
+      return structuredClone(asset);
+    },
+    fetchCollection: async (_umi: unknown, address: string) => ({ publicKey: address }),
+    update: builder('update'),
+    updatePlugin: builder('updatePlugin'),
+    addPlugin: builder('addPlugin'),
+  };
+});
+
+const COLLECTION = 'AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9';
+const TARGET = 'GyGKxMyg1p9SsHfm15MkNUu1u9TN2JtTspcdmrtGUdse';
+const TIERS: UpgradeRecipe = { kind: 'attribute', key: 'tier', tiers: ['common', 'rare', 'epic'] };
+
+// A signature from an earlier run
+const PREVIOUS_SIGNATURE = bs58.encode(new Uint8Array(64).fill(200));
+
+const records = () => memoryDb.collection('burnt_nfts') as unknown as Collection<BurntNFT>;
+
+function asset(tier?: string, uri = 'https://meta.example/original.json'): TestAsset {
+  return {
+    publicKey: publicKey(TARGET),
+    uri,
+    updateAuthority: { type: 'Collection', address: publicKey(COLLECTION) },
+    ...(tier && {
+      attributes: {
+        authority: { type: 'UpdateAuthority' },
+        attributeList: [{ key: 'tier', value: tier }, { key: 'eyes', value: 'red' }],
+      },
+    }),
+  };
+}
+
+function approved(fields: Partial<BurntNFT> = {}): BurntNFT {
+  return {
+    mint: 'EdmxWPmx2WH6WgFfTdu9xfkYf3k1g5wD1zccTVySEEh1',
+    name: 'Devil #1',
+    burntBy: '8SFqwqnq4whPhs8icwHA2hQg3hUoN1qrCLK1SBx3WKwe',
+    transactionSignature: 'burn-signature',
+    burntAt: '2026-01-01T00:00:00.000Z',
+    upgradeTargetMint: TARGET,
+    upgradeStatus: 'approved',
+    ...fields,
+  };
+}
+
+interface MockUmi {
+  umi: Umi;
+  sent: Uint8Array[];
+  onSend?: () => Promise<void>;
+}
+
+function mockUmi(): MockUmi {
+  const mock: MockUmi = { umi: undefined as unknown as Umi, sent: [] };
+  mock.umi = {
+    rpc: {
+      getLatestBlockhash: vi.fn(async () => ({ blockhash: 'hash', lastValidBlockHeight: 100 })),
+      sendTransaction: vi.fn(async (tx: { signatures: Uint8Array[] }) => {
+        await mock.onSend?.();
+        mock.sent.push(tx.signatures[0]);
+        return tx.signatures[0];
+      }),
+      confirmTransaction: vi.fn(async () => ({ value: { err: null } })),
+    },
+  } as unknown as Umi;
+  return mock;
+}
+
+beforeEach(() => {
+  memoryDb.reset();
+  chain.assets.clear();
+  chain.built = [];
+  chain.statuses = [];
+});
+
+describe('planUpgrade', () => {
+  it('bumps the tier attribute to the next tier', () => {
+    expect(planUpgrade(asset('common'), TIERS)).toEqual({ kind: 'attribute', key: 'tier', value: 'rare' });
+  });
+
+  it('treats an asset without the attribute as the first tier', () => {
+    expect(planUpgrade(asset(), TIERS)).toEqual({ kind: 'attribute', key: 'tier', value: 'rare' });
+  });
+
+  it('refuses unknown and top tiers', () => {
+    expect(() => planUpgrade(asset('mythic'), TIERS)).toThrow('Unknown tier "mythic"');
+    expect(() => planUpgrade(asset('epic'), TIERS)).toThrow('Already at top tier "epic"');
+  });
+
+  it('fills the mint into a uri template', () => {
+    const recipe = { kind: 'uri', uriTemplate: 'https://meta.example/upgraded/{mint}.json' } as const;
+    expect(planUpgrade(asset(), recipe)).toEqual({
+      kind: 'uri',
+      uri: `https://meta.example/upgraded/${TARGET}.json`,
+    });
+  });
+});
+
+describe('isPlanApplied', () => {
+  it('compares the planned attribute or uri with the asset', () => {
+    const plan = { kind: 'attribute', key: 'tier', value: 'rare' } as const;
+    expect(isPlanApplied(asset('rare'), plan)).toBe(true);
+    expect(isPlanApplied(asset('common'), plan)).toBe(false);
+    expect(isPlanApplied(asset(), plan)).toBe(false);
+    expect(isPlanApplied(asset(undefined, 'https://x/1.json'), { kind: 'uri', uri: 'https://x/1.json' })).toBe(true);
+  });
+});
+
+describe('runUpgradeWorker', () => {
+  it('bumps the tier with updatePlugin, keeping the other attributes', async () => {
+    chain.assets.set(TARGET, asset('common'));
+    await records().insertOne(approved());
+    const { umi, sent } = mockUmi();
+
+    const result = await runUpgradeWorker(umi, TIERS, { records: records() });
+
+    expect(result.applied).toEqual([{ targetMint: TARGET, signature: bs58.encode(sent[0]) }]);
+    expect(chain.built).toHaveLength(1);
+    expect(chain.built[0].builder).toBe('updatePlugin');
+    expect(chain.built[0].args).toMatchObject({
+      asset: TARGET,
+      collection: COLLECTION,
+      plugin: { type: 'Attributes', attributeList: [{ key: 'eyes', value: 'red' }, { key: 'tier', value: 'rare' }] },
+    });
+
+    const record = await records().findOne({ upgradeTargetMint: TARGET });
+    expect(record?.upgradeStatus).toBe('applied');
+    expect(record?.upgradePlan).toEqual({ kind: 'attribute', key: 'tier', value: 'rare' });
+    expect(record?.upgradeLeaseUntil).toBeUndefined();
+  });
+
+  it('adds the attributes plugin when the asset has none', async () => {
+    chain.assets.set(TARGET, asset());
+    await records().insertOne(approved());
+
+    await runUpgradeWorker(mockUmi().umi, TIERS, { records: records() });
+
+    expect(chain.built[0].builder).toBe('addPlugin');
+    expect(chain.built[0].args.plugin?.attributeList).toEqual([{ key: 'tier', value: 'rare' }]);
+  });
+
+  it('points the metadata uri at the upgraded json for a uri recipe', async () => {
+    chain.assets.set(TARGET, asset('common'));
+    await records().insertOne(approved());
+
+    const recipe = { kind: 'uri', uriTemplate: 'https://meta.example/upgraded/{mint}.json' } as const;
+    const result = await runUpgradeWorker(mockUmi().umi, recipe, { records: records() });
+
+    expect(result.applied).toHaveLength(1);
+    expect(chain.built[0].builder).toBe('update');
+    expect(chain.built[0].args.uri).toBe(`https://meta.example/upgraded/${TARGET}.json`);
+    expect(chain.built[0].args.collection).toEqual({ publicKey: COLLECTION });
+  });
+
+  it('marks the target failed when the plan cannot be made', async () => {
+    chain.assets.set(TARGET, asset('epic'));
+    await records().insertOne(approved());
+    const { umi, sent } = mockUmi();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await runUpgradeWorker(umi, TIERS, { records: records() });
+
+    expect(result.failed).toEqual([{ targetMint: TARGET, error: 'Already at top tier "epic"' }]);
+    expect(sent).toHaveLength(0);
+    expect((await records().findOne({ upgradeTargetMint: TARGET }))?.upgradeStatus).toBe('failed');
+  });
+
+  it('skips a target another worker holds the lease on', async () => {
+    chain.assets.set(TARGET, asset('common'));
+    await records().insertOne(approved({ upgradeLeaseUntil: new Date(Date.now() + 60_000).toISOString() }));
+    const { umi, sent } = mockUmi();
+
+    const result = await runUpgradeWorker(umi, TIERS, { records: records() });
+
+    expect(result.skipped).toEqual([TARGET]);
+    expect(sent).toHaveLength(0);
+    expect((await records().findOne({ upgradeTargetMint: TARGET }))?.upgradeStatus).toBe('approved');
+  });
+
+  it('takes over an expired lease', async () => {
+    chain.assets.set(TARGET, asset('common'));
+    await records().insertOne(approved({ upgradeLeaseUntil: new Date(Date.now() - 1_000).toISOString() }));
+
+    const result = await runUpgradeWorker(mockUmi().umi, TIERS, { records: records() });
+
+    expect(result.applied.map((a) => a.targetMint)).toEqual([TARGET]);
+  });
+
+  it('reports a target moved on by someone else as skipped, not applied', async () => {
+    chain.assets.set(TARGET, asset('common'));
+    await records().insertOne(approved());
+    const mock = mockUmi();
+    // An admin fails the upgrade while our transaction is on its way
+    mock.onSend = async () => {
+      await records().updateMany({}, { $set: { upgradeStatus: 'failed' } });
+    };
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await runUpgradeWorker(mock.umi, TIERS, { records: records() });
+
+    expect(result).toEqual({ applied: [], failed: [], skipped: [TARGET] });
+    expect((await records().findOne({ upgradeTargetMint: TARGET }))?.upgradeStatus).toBe('failed');
+  });
+
+  it('writes the plan and signature back before sending', async () => {
+    chain.assets.set(TARGET, asset('common'));
+    await records().insertOne(approved());
+    const mock = mockUmi();
+    let atSend: BurntNFT | null = null;
+    mock.onSend = async () => {
+      atSend = await records().findOne({ upgradeTargetMint: TARGET });
+    };
+
+    await runUpgradeWorker(mock.umi, TIERS, { records: records() });
+
+    expect(atSend).toMatchObject({
+      upgradePlan: { kind: 'attribute', key: 'tier', value: 'rare' },
+      upgradeSignature: bs58.encode(mock.sent[0]),
+      upgradeStatus: 'approved',
+    });
+    expect(atSend!.upgradeSentAt).toBeDefined();
+  });
+
+  it('does not upgrade the same target twice when rerun after a crash mid-send', async () => {
+    chain.assets.set(TARGET, asset('common'));
+    await records().insertOne(approved());
+
+    // First run: the process dies after sending, before the status moves on
+    const first = mockUmi();
+    first.onSend = async () => {
+      chain.assets.set(TARGET, asset('rare'));
+      throw new Error('process killed');
+    };
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await runUpgradeWorker(first.umi, TIERS, { records: records() });
+    // …so nothing after the send was written and the lease ran out
+    await records().updateMany({}, {
+      $set: {
+        upgradeStatus: 'approved',
+        upgradeSentAt: '2026-01-01T00:00:00.000Z',
+        upgradeLeaseUntil: '2026-01-01T00:05:00.000Z',
+      },
+      $unset: { upgradeHistory: '' },
+    });
+    const crashed = await records().findOne({ upgradeTargetMint: TARGET });
+    expect(crashed?.upgradeSignature).toBeDefined();
+
+    // Rerun: the status lookup has nothing, but the asset already matches the saved plan
+    const rerun = mockUmi();
+    chain.statuses = [null];
+    const result = await runUpgradeWorker(rerun.umi, TIERS, { records: records() });
+
+    expect(result.applied).toEqual([{ targetMint: TARGET, signature: crashed?.upgradeSignature }]);
+    expect(rerun.sent).toHaveLength(0);
+    expect(chain.built).toHaveLength(1);
+    const record = await records().findOne({ upgradeTargetMint: TARGET });
+    expect(record?.upgradeStatus).toBe('applied');
+    expect(record?.upgradePlan).toEqual({ kind: 'attribute', key: 'tier', value: 'rare' });
+  });
+
+  it('trusts a confirmed signature from a previous run without refetching the asset', async () => {
+    chain.assets.set(TARGET, asset('rare'));
+    await records().insertOne(approved({
+      upgradePlan: { kind: 'attribute', key: 'tier', value: 'rare' },
+      upgradeSignature: PREVIOUS_SIGNATURE,
+      upgradeSentAt: '2026-01-01T00:00:00.000Z',
+    }));
+    const mock = mockUmi();
+    chain.statuses = [{ confirmationStatus: 'finalized', err: null }];
+
+    const result = await runUpgradeWorker(mock.umi, TIERS, { records: records() });
+
+    expect(result.applied).toEqual([{ targetMint: TARGET, signature: PREVIOUS_SIGNATURE }]);
+    expect(mock.sent).toHaveLength(0);
+    expect(chain.built).toHaveLength(0);
+  });
+
+  it('leaves a recently sent transaction in flight', async () => {
+    chain.assets.set(TARGET, asset('common'));
+    await records().insertOne(approved({
+      upgradePlan: { kind: 'attribute', key: 'tier', value: 'rare' },
+      upgradeSignature: PREVIOUS_SIGNATURE,
+      upgradeSentAt: new Date().toISOString(),
+    }));
+    const mock = mockUmi();
+    chain.statuses = [null];
+
+    const result = await runUpgradeWorker(mock.umi, TIERS, { records: records() });
+
+    expect(result.skipped).toEqual([TARGET]);
+    expect(mock.sent).toHaveLength(0);
+    expect((await records().findOne({ upgradeTargetMint: TARGET }))?.upgradeStatus).toBe('approved');
+  });
+
+  it('re-sends the saved plan, not a fresh bump, when the first send was dropped', async () => {
+    chain.assets.set(TARGET, asset('common'));
+    await records().insertOne(approved({
+      upgradePlan: { kind: 'attribute', key: 'tier', value: 'rare' },
+      upgradeSignature: PREVIOUS_SIGNATURE,
+      upgradeSentAt: '2026-01-01T00:00:00.000Z',
+    }));
+    const mock = mockUmi();
+    chain.statuses = [null];
+
+    const result = await runUpgradeWorker(mock.umi, TIERS, { records: records() });
+
+    expect(mock.sent).toHaveLength(1);
+    expect(chain.built[0].args.plugin?.attributeList).toContainEqual({ key: 'tier', value: 'rare' });
+    expect(result.applied[0].signature).toBe(bs58.encode(mock.sent[0]));
+  });
+});
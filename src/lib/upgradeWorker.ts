@@ -0,0 +1,296 @@
+import {
+  Umi,
+  keypairIdentity,
+  publicKey,
+  TransactionBuilder,
+} from '@metaplex-foundation/umi';
+import { createUmi } from '@metaplex-foundation/umi-bundle-defaults';
+import {
+  mplCore,
+  fetchAsset,
+  fetchCollection,
+  update,
+  updatePlugin,
+  addPlugin,
+  AssetV1,
+  CollectionV1,
+} from '@metaplex-foundation/mpl-core';
+import bs58 from 'bs58';
+import { Collection } from 'mongodb';
+import { BurntNFT, UpgradePlan } from '@/types';
+import { getBurntNFTsCollection } from '@/lib/mongodb';
+import { transitionUpgradeStatus, upgradeStatusFilter } from '@/lib/upgradeStatus';
+import { getSignatureStatuses, primaryRpcEndpoint } from '@/lib/rpcPool';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+const WORKER_OPERATOR = 'upgrade-worker';
+const LEASE_MS        = 5 * 60_000;  // one worker per target at a time
+const SEND_GRACE_MS   = 2 * 60_000;  // blockhash lifetime plus margin
+
+/**
+ * How an approved upgrade is applied on-chain, configured via UPGRADE_RECIPE:
+ *   {"kind":"attribute","key":"tier","tiers":["common","rare","epic"]}
+ *     → bump the asset's `tier` attribute to the next entry in `tiers`
+ *   {"kind":"uri","uriTemplate":"https://meta.example/upgraded/{mint}.json"}
+ *     → point the asset's metadata URI at the upgraded JSON
+ */
+export type UpgradeRecipe =
+  | { kind: 'attribute'; key: string; tiers: string[] }
+  | { kind: 'uri'; uriTemplate: string };
+
+export interface UpgradeWorkerResult {
+  applied: Array<{ targetMint: string; signature?: string }>;
+  failed: Array<{ targetMint: string; error: string }>;
+  // Leased by another worker, still in flight, or moved on by someone else
+  skipped: string[];
+}
+
+// ── Configuration ─────────────────────────────────────────────────────────────
+
+export function loadUpgradeRecipe(): UpgradeRecipe {
+  const raw = process.env.UPGRADE_RECIPE;
+  if (!raw) throw new Error('UPGRADE_RECIPE is not set');
+
+  const recipe = JSON.parse(raw);
+  if (
+    recipe?.kind === 'attribute'
+    && typeof recipe.key === 'string'
+    && Array.isArray(recipe.tiers)
+    && recipe.tiers.length >= 2
+    && recipe.tiers.every((t: unknown) => typeof t === 'string')
+  ) {
+    return { kind: 'attribute', key: recipe.key, tiers: recipe.tiers };
+  }
+  if (recipe?.kind === 'uri' && typeof recipe.uriTemplate === 'string') {
+    return { kind: 'uri', uriTemplate: recipe.uriTemplate };
+  }
+  throw new Error('UPGRADE_RECIPE is not a valid attribute or uri recipe');
+}
+
+/** Umi instance signing as the collection's update authority (UPGRADE_AUTHORITY_SECRET_KEY, base58). */
+export function createUpgradeAuthorityUmi(): Umi {
+  const secret = process.env.UPGRADE_AUTHORITY_SECRET_KEY;
+  if (!secret) throw new Error('UPGRADE_AUTHORITY_SECRET_KEY is not set');
+
+  // Umi keeps its own connection, so it is pinned to the pool's best endpoint
+  const umi = createUmi(primaryRpcEndpoint().url, 'confirmed').use(mplCore());
+  return umi.use(keypairIdentity(umi.eddsa.createKeypairFromSecretKey(bs58.decode(secret))));
+}
+
+// ── Planning ──────────────────────────────────────────────────────────────────
+
+/** The parts of an asset an upgrade is planned and checked against. */
+export type UpgradeAsset = Pick<AssetV1, 'publicKey' | 'uri' | 'attributes'>;
+
+export function planUpgrade(asset: UpgradeAsset, recipe: UpgradeRecipe): UpgradePlan {
+  if (recipe.kind === 'uri') {
+    return { kind: 'uri', uri: recipe.uriTemplate.replaceAll('{mint}', asset.publicKey) };
+  }
+
+  // An asset without the attribute is treated as being on the first tier
+  const current =
+    asset.attributes?.attributeList.find((a) => a.key === recipe.key)?.value ?? recipe.tiers[0];
+  const index = recipe.tiers.indexOf(current);
+  if (index === -1) throw new Error(`Unknown ${recipe.key} "${current}"`);
+  if (index === recipe.tiers.length - 1) throw new Error(`Already at top ${recipe.key} "${current}"`);
+
+  return { kind: 'attribute', key: recipe.key, value: recipe.tiers[index + 1] };
+}
+
+export function isPlanApplied(asset: UpgradeAsset, plan: UpgradePlan): boolean {
+  if (plan.kind === 'uri') return asset.uri === plan.uri;
+  return asset.attributes?.attributeList.some(
+    (a) => a.key === plan.key && a.value === plan.value,
+  ) ?? false;
+}
+
+function buildUpgradeTx(
+  umi: Umi,
+  asset: AssetV1,
+  collection: CollectionV1 | undefined,
+  plan: UpgradePlan,
+): TransactionBuilder {
+  if (plan.kind === 'uri') {
+    return update(umi, { asset, collection, uri: plan.uri });
+  }
+
+  const existing = asset.attributes?.attributeList ?? [];
+  const attributeList = [
+    ...existing.filter((a) => a.key !== plan.key),
+    { key: plan.key, value: plan.value },
+  ];
+
+  return asset.attributes
+    ? updatePlugin(umi, {
+        asset: asset.publicKey,
+        collection: collection?.publicKey,
+        plugin: { type: 'Attributes', attributeList },
+      })
+    : addPlugin(umi, {
+        asset: asset.publicKey,
+        collection: collection?.publicKey,
+        plugin: { type: 'Attributes', attributeList },
+      });
+}
+
+// ── Worker ────────────────────────────────────────────────────────────────────
+
+/** Take the lease on a target so concurrent workers never send twice. */
+async function claimLease(collection: Collection<BurntNFT>, targetMint: string): Promise<boolean> {
+  const now = new Date();
+  const result = await collection.updateMany(
+    {
+      upgradeTargetMint: targetMint,
+      ...upgradeStatusFilter(['approved']),
+      $or: [
+        { upgradeLeaseUntil: { $exists: false } },
+        { upgradeLeaseUntil: { $lt: now.toISOString() } },
+      ],
+    },
+    { $set: { upgradeLeaseUntil: new Date(now.getTime() + LEASE_MS).toISOString() } },
+  );
+  return result.modifiedCount > 0;
+}
+
+async function releaseLease(collection: Collection<BurntNFT>, targetMint: string) {
+  await collection.updateMany(
+    { upgradeTargetMint: targetMint },
+    { $unset: { upgradeLeaseUntil: '' } },
+  );
+}
+
+async function setWorkerFields(collection: Collection<BurntNFT>, targetMint: string, fields: Partial<BurntNFT>) {
+  await collection.updateMany({ upgradeTargetMint: targetMint }, { $set: fields });
+}
+
+type ApplyOutcome =
+  | { kind: 'applied'; signature?: string }
+  | { kind: 'in_flight' };
+
+async function applyUpgrade(
+  umi: Umi,
+  records: Collection<BurntNFT>,
+  recipe: UpgradeRecipe,
+  record: BurntNFT,
+): Promise<ApplyOutcome> {
+  const targetMint = record.upgradeTargetMint!;
+
+  // 1. A previous run already sent a transaction — see whether it landed.
+  //    Asked through the pool, so one lagging node can't make it look dropped.
+  if (record.upgradeSignature) {
+    const [status] = await getSignatureStatuses([record.upgradeSignature]);
+    if (status && !status.err && status.confirmationStatus !== 'processed') {
+      return { kind: 'applied', signature: record.upgradeSignature };
+    }
+    const sentAt = record.upgradeSentAt ? Date.parse(record.upgradeSentAt) : 0;
+    if (!status && Date.now() - sentAt < SEND_GRACE_MS) {
+      return { kind: 'in_flight' };
+    }
+  }
+
+  // 2. Plan once and persist, so a rerun re-applies instead of bumping again
+  const asset = await fetchAsset(umi, publicKey(targetMint), { skipDerivePlugins: true });
+  const plan = record.upgradePlan ?? planUpgrade(asset, recipe);
+  if (!record.upgradePlan) await setWorkerFields(records, targetMint, { upgradePlan: plan });
+
+  if (isPlanApplied(asset, plan)) {
+    return { kind: 'applied', signature: record.upgradeSignature };
+  }
+
+  // 3. Sign, write the signature back, then send
+  const collection = asset.updateAuthority.type === 'Collection' && asset.updateAuthority.address
+    ? await fetchCollection(umi, asset.updateAuthority.address)
+    : undefined;
+
+  const blockhash = await umi.rpc.getLatestBlockhash({ commitment: 'confirmed' });
+  const tx = await buildUpgradeTx(umi, asset, collection, plan)
+    .setBlockhash(blockhash)
+    .buildAndSign(umi);
+  const signature = bs58.encode(tx.signatures[0]);
+
+  await setWorkerFields(records, targetMint, {
+    upgradeSignature: signature,
+    upgradeSentAt: new Date().toISOString(),
+  });
+
+  await umi.rpc.sendTransaction(tx);
+  const confirmation = await umi.rpc.confirmTransaction(tx.signatures[0], {
+    strategy: { type: 'blockhash', ...blockhash },
+    commitment: 'confirmed',
+  });
+  if (confirmation.value.err) {
+    throw new Error(`Upgrade transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+  }
+
+  return { kind: 'applied', signature };
+}
+
+/**
+ * Apply every approved upgrade on-chain and move it to `applied` (or `failed`).
+ *
+ * Safe to rerun: each target is leased while it is processed, the planned
+ * change and signature are written back before sending, and a target whose
+ * on-chain state already matches its plan is marked applied without a new tx.
+ * `umi` and the `records` store (default `burnt_nfts`) are injected so the
+ * worker can run against a local validator or a mock.
+ */
+export async function runUpgradeWorker(
+  umi: Umi,
+  recipe: UpgradeRecipe,
+  { limit = 25, records }: { limit?: number; records?: Collection<BurntNFT> } = {},
+): Promise<UpgradeWorkerResult> {
+  const result: UpgradeWorkerResult = { applied: [], failed: [], skipped: [] };
+  const collection = records ?? await getBurntNFTsCollection();
+
+  const queue = await collection
+    .find({
+      upgradeTargetMint: { $exists: true, $ne: '' },
+      ...upgradeStatusFilter(['approved']),
+    })
+    .sort({ burntAt: 1 })
+    .limit(limit)
+    .toArray();
+
+  const seen = new Set<string>();
+  for (const record of queue) {
+    const targetMint = record.upgradeTargetMint!;
+    if (seen.has(targetMint)) continue;
+    seen.add(targetMint);
+
+    if (!(await claimLease(collection, targetMint))) {
+      result.skipped.push(targetMint);
+      continue;
+    }
+
+    try {
+      const outcome = await applyUpgrade(umi, collection, recipe, record);
+      if (outcome.kind === 'in_flight') {
+        result.skipped.push(targetMint);
+        continue;
+      }
+      const transition = await transitionUpgradeStatus(
+        targetMint,
+        'applied',
+        WORKER_OPERATOR,
+        outcome.signature ? `signature ${outcome.signature}` : 'already applied on-chain',
+        collection,
+      );
+      if (!transition.ok) {
+        // Another worker or an admin moved it first — theirs is the outcome
+        console.warn('[upgrade-worker] Not marked applied:', targetMint, transition.reason, transition.current ?? '');
+        result.skipped.push(targetMint);
+        continue;
+      }
+      result.applied.push({ targetMint, signature: outcome.signature });
+    } catch (error: any) {
+      const message = error?.message || 'Unknown error';
+      console.error('[upgrade-worker] Failed for', targetMint, message);
+      await transitionUpgradeStatus(targetMint, 'failed', WORKER_OPERATOR, message.slice(0, 512), collection);
+      result.failed.push({ targetMint, error: message });
+    } finally {
+      await releaseLease(collection, targetMint);
+    }
+  }
+
+  return result;
+}
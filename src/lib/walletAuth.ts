@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash, createPublicKey, randomBytes, verify } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { getAuthNoncesCollection, getAuthSessionsCollection } from '@/lib/mongodb';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+export const SESSION_COOKIE = 'devils_session';
+const NONCE_TTL_MS          = 5 * 60_000;
+const SESSION_TTL_MS        = 60 * 60_000;
+
+// DER header for a raw 32-byte ed25519 public key (SubjectPublicKeyInfo)
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+function sha256Hex(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/** Sign-in-with-Solana style message the wallet is asked to sign. */
+function buildSignInMessage(domain: string, walletAddress: string, nonce: string, issuedAt: Date): string {
+  const expiresAt = new Date(issuedAt.getTime() + NONCE_TTL_MS);
+  return [
+    `${domain} wants you to sign in with your Solana account:`,
+    walletAddress,
+    '',
+    'Sign in to the Devils Upgrade Portal. This request will not trigger a blockchain transaction or cost any fees.',
+    '',
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt.toISOString()}`,
+    `Expiration Time: ${expiresAt.toISOString()}`,
+  ].join('\n');
+}
+
+export function verifyWalletSignature(walletAddress: string, message: string, signature: Uint8Array): boolean {
+  if (signature.length !== 64) return false;
+  const key = createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, new PublicKey(walletAddress).toBuffer()]),
+    format: 'der',
+    type: 'spki',
+  });
+  return verify(null, Buffer.from(message, 'utf-8'), key, signature);
+}
+
+/** Issue a one-time challenge for `walletAddress`. */
+export async function createSignInChallenge(
+  domain: string,
+  walletAddress: string,
+): Promise<{ nonce: string; message: string }> {
+  const nonce = bs58.encode(randomBytes(16));
+  const issuedAt = new Date();
+  const message = buildSignInMessage(domain, walletAddress, nonce, issuedAt);
+
+  const nonces = await getAuthNoncesCollection();
+  await nonces.insertOne({
+    nonce,
+    walletAddress,
+    message,
+    expiresAt: new Date(issuedAt.getTime() + NONCE_TTL_MS),
+  });
+
+  return { nonce, message };
+}
+
+/**
+ * Consume a challenge and, if the signature checks out, open a session.
+ * Returns the raw session token (only its hash is stored) or null.
+ */
+export async function createSession(
+  walletAddress: string,
+  nonce: string,
+  signature: Uint8Array,
+): Promise<{ token: string; expiresAt: Date } | null> {
+  const nonces = await getAuthNoncesCollection();
+  // One-time use — delete whether or not the signature verifies
+  const challenge = await nonces.findOneAndDelete({ nonce, walletAddress });
+  if (!challenge || challenge.expiresAt.getTime() < Date.now()) return null;
+
+  if (!verifyWalletSignature(walletAddress, challenge.message, signature)) return null;
+
+  const token = bs58.encode(randomBytes(32));
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_MS);
+
+  const sessions = await getAuthSessionsCollection();
+  await sessions.insertOne({ tokenHash: sha256Hex(token), walletAddress, createdAt: now, expiresAt });
+
+  return { token, expiresAt };
+}
+
+/** Wallet address of the request's session, or null when signed out / expired. */
+export async function getSessionWallet(request: NextRequest): Promise<string | null> {
+  const session = await getSession(request);
+  return session?.walletAddress ?? null;
+}
+
+export async function getSession(
+  request: NextRequest,
+): Promise<{ walletAddress: string; expiresAt: Date } | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const sessions = await getAuthSessionsCollection();
+  const session = await sessions.findOne({ tokenHash: sha256Hex(token) });
+  // TTL cleanup runs about once a minute, so check expiry explicitly
+  if (!session || session.expiresAt.getTime() < Date.now()) return null;
+
+  return { walletAddress: session.walletAddress, expiresAt: session.expiresAt };
+}
+
+export async function destroySession(request: NextRequest) {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return;
+  const sessions = await getAuthSessionsCollection();
+  await sessions.deleteOne({ tokenHash: sha256Hex(token) });
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', { path: '/', maxAge: 0 });
+}
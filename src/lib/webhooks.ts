@@ -0,0 +1,226 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { after } from 'next/server';
+import {
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEventData,
+  WebhookEventType,
+  WebhookPayload,
+} from '@/types';
+import { getWebhookDeliveriesCollection, getWebhookEndpointsCollection } from '@/lib/mongodb';
+
+/**
+ * Outbound webhooks. An event is stored as one delivery per subscribed
+ * endpoint, attempted once right away and then retried with backoff by
+ * /api/cron/deliver-webhooks until it is delivered or runs out of attempts.
+ */
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+const BACKOFF_MS          = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000, 12 * 60 * 60_000];
+const MAX_ATTEMPTS        = BACKOFF_MS.length + 1;
+const ATTEMPT_LEASE_MS    = 60_000;
+const REQUEST_TIMEOUT_MS  = 10_000;
+const DELIVERY_TTL_MS     = 30 * 24 * 60 * 60_000;
+const DISCORD_MAX_CONTENT = 2000;
+
+export interface DeliverySweepResult {
+  delivered: number;
+  retrying: number;
+  failed: number;
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString('hex')}`;
+}
+
+/**
+ * `X-Webhook-Signature` for an http delivery: `t=<unix seconds>,v1=<hex>`,
+ * the HMAC-SHA256 of `<t>.<body>` keyed with the endpoint's secret.
+ * Receivers should reject stale timestamps to prevent replays.
+ */
+export function signWebhookBody(body: string, secret: string, timestamp: number): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+// ── Discord formatting ────────────────────────────────────────────────────────
+
+const short = (address: string) => `${address.slice(0, 4)}…${address.slice(-4)}`;
+
+function discordContent(payload: WebhookPayload): string {
+  let content: string;
+  switch (payload.event) {
+    case 'burn.recorded': {
+      const data = payload.data as WebhookEventData['burn.recorded'];
+      const names = data.burns.map((b) => b.name || short(b.mint)).join(', ');
+      const targets = [...new Set(data.burns.map((b) => b.upgradeTargetMint).filter(Boolean))] as string[];
+      content = `🔥 ${short(data.walletAddress)} burned ${data.burns.length} NFT${data.burns.length === 1 ? '' : 's'}: ${names}`
+        + (targets.length > 0 ? `\n⬆️ Upgrading ${targets.map(short).join(', ')}` : '');
+      break;
+    }
+    case 'upgrade.applied': {
+      const data = payload.data as WebhookEventData['upgrade.applied'];
+      content = `✨ Upgrade applied to ${short(data.targetMint)}${data.note ? ` (${data.note})` : ''}`;
+      break;
+    }
+    case 'reconciliation.mismatch': {
+      const data = payload.data as WebhookEventData['reconciliation.mismatch'];
+      content = `⚠️ Reconciliation found ${data.findings.length} new mismatch${data.findings.length === 1 ? '' : 'es'}:\n`
+        + data.findings.map((f) => `• ${f.kind} ${f.name || short(f.mint)}`).join('\n');
+      break;
+    }
+  }
+  return content.length > DISCORD_MAX_CONTENT ? `${content.slice(0, DISCORD_MAX_CONTENT - 1)}…` : content;
+}
+
+// ── Delivery ──────────────────────────────────────────────────────────────────
+
+/** Send one delivery and store the outcome; never throws. */
+async function attemptDelivery(delivery: WebhookDelivery, endpoint: WebhookEndpoint | null): Promise<WebhookDelivery['status']> {
+  const deliveries = await getWebhookDeliveriesCollection();
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+
+  let responseStatus: number | undefined;
+  let error: string | undefined;
+
+  if (!endpoint?.active) {
+    // Removed or disabled since the event was queued — nothing to retry
+    await deliveries.updateOne(
+      { id: delivery.id },
+      { $set: { status: 'failed', lastError: 'Endpoint removed or disabled', nextAttemptAt: now.toISOString() } },
+    );
+    return 'failed';
+  }
+
+  try {
+    const body = endpoint.kind === 'discord'
+      ? JSON.stringify({ content: discordContent(delivery.payload), allowed_mentions: { parse: [] } })
+      : JSON.stringify(delivery.payload);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (endpoint.kind === 'http') {
+      headers['X-Webhook-Id'] = delivery.payload.id;
+      headers['X-Webhook-Event'] = delivery.event;
+      if (endpoint.secret) {
+        headers['X-Webhook-Signature'] = signWebhookBody(body, endpoint.secret, Math.floor(now.getTime() / 1000));
+      }
+    }
+
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers,
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    if (!response.ok) error = `HTTP ${response.status}`;
+  } catch (e: any) {
+    error = e?.message || 'Request failed';
+  }
+
+  if (!error) {
+    await deliveries.updateOne(
+      { id: delivery.id },
+      {
+        $set: { status: 'delivered', attempts, responseStatus, deliveredAt: now.toISOString() },
+        $unset: { lastError: '' },
+      },
+    );
+    return 'delivered';
+  }
+
+  const exhausted = attempts >= MAX_ATTEMPTS;
+  await deliveries.updateOne(
+    { id: delivery.id },
+    {
+      $set: {
+        status: exhausted ? 'failed' : 'pending',
+        attempts,
+        lastError: error.slice(0, 512),
+        nextAttemptAt: new Date(now.getTime() + (exhausted ? 0 : BACKOFF_MS[attempts - 1])).toISOString(),
+        ...(responseStatus !== undefined && { responseStatus }),
+      },
+    },
+  );
+  console.warn(`[webhooks] Delivery ${delivery.id} to ${endpoint.id} failed (attempt ${attempts}):`, error);
+  return exhausted ? 'failed' : 'pending';
+}
+
+// After the response when called from a route; straight away from scripts
+function runInBackground(task: () => Promise<unknown>) {
+  const run = () => task().catch((e: any) => console.error('[webhooks] Background delivery error:', e?.message));
+  try {
+    after(run);
+  } catch {
+    void run();
+  }
+}
+
+/**
+ * Queue `event` for every active endpoint subscribed to it and try each
+ * delivery once after the response is sent. Never throws — a webhook problem
+ * must not fail the burn or upgrade that triggered it.
+ */
+export async function emitWebhookEvent<E extends WebhookEventType>(
+  event: E,
+  data: WebhookEventData[E],
+): Promise<void> {
+  try {
+    const endpoints = await (await getWebhookEndpointsCollection())
+      .find({ active: true, events: event }, { projection: { _id: 0 } })
+      .toArray();
+    if (endpoints.length === 0) return;
+
+    const now = new Date();
+    const payload: WebhookPayload<E> = { id: randomUUID(), event, createdAt: now.toISOString(), data };
+    const queued: WebhookDelivery[] = endpoints.map((endpoint) => ({
+      id: randomUUID(),
+      endpointId: endpoint.id,
+      event,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      // Leased to the first attempt below; the sweeper picks it up if that never runs
+      nextAttemptAt: new Date(now.getTime() + ATTEMPT_LEASE_MS).toISOString(),
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + DELIVERY_TTL_MS),
+    }));
+    await (await getWebhookDeliveriesCollection()).insertMany(queued);
+
+    const byId = new Map(endpoints.map((e) => [e.id, e]));
+    runInBackground(() =>
+      Promise.all(queued.map((d) => attemptDelivery(d, byId.get(d.endpointId) ?? null))),
+    );
+  } catch (error: any) {
+    console.error(`[webhooks] Could not queue ${event}:`, error?.message);
+  }
+}
+
+/**
+ * Attempt every pending delivery that is due, oldest first. Each is leased
+ * before it is sent, so overlapping sweeps never send one twice.
+ */
+export async function sweepWebhookDeliveries(limit = 100): Promise<DeliverySweepResult> {
+  const deliveries = await getWebhookDeliveriesCollection();
+  const endpoints = await getWebhookEndpointsCollection();
+  const result: DeliverySweepResult = { delivered: 0, retrying: 0, failed: 0 };
+
+  for (let i = 0; i < limit; i++) {
+    const now = new Date();
+    const delivery = await deliveries.findOneAndUpdate(
+      { status: 'pending', nextAttemptAt: { $lte: now.toISOString() } },
+      { $set: { nextAttemptAt: new Date(now.getTime() + ATTEMPT_LEASE_MS).toISOString() } },
+      { sort: { nextAttemptAt: 1 }, returnDocument: 'after', projection: { _id: 0 } },
+    );
+    if (!delivery) break;
+
+    const endpoint = await endpoints.findOne({ id: delivery.endpointId }, { projection: { _id: 0 } });
+    const status = await attemptDelivery(delivery, endpoint);
+    if (status === 'delivered') result.delivered++;
+    else if (status === 'failed') result.failed++;
+    else result.retrying++;
+  }
+
+  return result;
+}
@@ -0,0 +1,347 @@
+import 'mingo/init/system';
+import { Aggregator, Query } from 'mingo';
+import { UpdateExpression, update as applyUpdate } from 'mingo/updater';
+
+/**
+ * In-memory stand-in for the parts of the MongoDB driver the lib modules
+ * use, for tests. Queries, updates and pipelines are evaluated by mingo;
+ * unique indexes, upserts and `$setOnInsert` are handled here. A transaction's
+ * session only checks that its operations run one at a time, as MongoDB
+ * requires; it isolates nothing.
+ *
+ * Tests swap it in for '@/lib/mongodb' with
+ *   vi.mock('@/lib/mongodb', async () => (await import('@/test/memoryMongo')).mongodbModule);
+ * and call `memoryDb.reset()` between cases.
+ */
+
+type Doc = Record<string, any>;
+type SortSpec = Record<string, 1 | -1>;
+
+interface SessionOptions {
+  session?: unknown;
+}
+
+interface FindOptions extends SessionOptions {
+  sort?: SortSpec;
+  limit?: number;
+  projection?: Doc;
+}
+
+// Deep copy of plain objects and arrays; Dates are copied and other class
+// instances (ObjectId) kept as they are, so they still compare by value
+function clone<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (value instanceof Date) return new Date(value) as T;
+  if (value === null || typeof value !== 'object' || Object.getPrototypeOf(value) !== Object.prototype) return value;
+  return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, clone(v)])) as T;
+}
+
+function sortDocs(docs: Doc[], sort?: SortSpec): Doc[] {
+  if (!sort) return docs;
+  return new Aggregator([{ $sort: sort }]).run(docs) as Doc[];
+}
+
+// mingo applies one operator per call; the driver takes several at once
+function applyOperators(doc: Doc, update: Doc): boolean {
+  let changed = false;
+  for (const [op, fields] of Object.entries(update)) {
+    if (applyUpdate(doc, { [op]: clone(fields) } as UpdateExpression).length > 0) changed = true;
+  }
+  return changed;
+}
+
+function project(doc: Doc, projection?: Doc): Doc {
+  if (!projection) return doc;
+  const included = Object.entries(projection).filter(([key, v]) => v && key !== '_id');
+  if (included.length === 0) {
+    const copy = { ...doc };
+    for (const [key, v] of Object.entries(projection)) if (!v) delete copy[key];
+    return copy;
+  }
+  const out: Doc = {};
+  for (const [key] of included) if (key in doc) out[key] = doc[key];
+  if (projection._id !== 0 && '_id' in doc) out._id = doc._id;
+  return out;
+}
+
+/** The session withTransaction hands its callback. */
+export class MemorySession {
+  private busy = false;
+
+  // Refuses an operation started while another is still running, the way a
+  // driver session inside a transaction does
+  async run<T>(op: () => T | Promise<T>): Promise<T> {
+    if (this.busy) throw new Error('Parallel operations on a transaction session are not supported');
+    this.busy = true;
+    try {
+      await Promise.resolve();
+      return await op();
+    } finally {
+      this.busy = false;
+    }
+  }
+}
+
+async function onSession<T>(options: SessionOptions | undefined, op: () => T | Promise<T>): Promise<T> {
+  const session = options?.session;
+  return session instanceof MemorySession ? session.run(op) : op();
+}
+
+export class DuplicateKeyError extends Error {
+  code = 11000;
+  constructor(collection: string, key: string) {
+    super(`E11000 duplicate key error collection: ${collection} index: ${key}_1`);
+  }
+}
+
+class MemoryCursor {
+  private sortSpec?: SortSpec;
+  private limitTo?: number;
+
+  constructor(private readonly source: () => Doc[], private readonly options: FindOptions = {}) {
+    this.sortSpec = options.sort;
+    this.limitTo = options.limit;
+  }
+
+  sort(spec: SortSpec) {
+    this.sortSpec = spec;
+    return this;
+  }
+
+  limit(n: number) {
+    this.limitTo = n;
+    return this;
+  }
+
+  skip(n: number) {
+    const source = this.source;
+    return new MemoryCursor(() => source().slice(n), { ...this.options, sort: undefined });
+  }
+
+  async toArray() {
+    return onSession(this.options, () => {
+      const docs = sortDocs(this.source(), this.sortSpec);
+      const limited = this.limitTo ? docs.slice(0, this.limitTo) : docs;
+      return limited.map((d) => project(clone(d), this.options.projection));
+    });
+  }
+}
+
+export class MemoryCollection {
+  docs: Doc[] = [];
+  private nextId = 1;
+
+  constructor(readonly name: string, private readonly uniqueKeys: string[] = []) {}
+
+  private matching(filter: Doc = {}): Doc[] {
+    const query = new Query(filter);
+    return this.docs.filter((d) => query.test(d));
+  }
+
+  // Unique indexes are sparse: documents without the field never clash
+  private assertUnique(doc: Doc) {
+    for (const key of this.uniqueKeys) {
+      if (doc[key] === undefined) continue;
+      if (this.docs.some((d) => d !== doc && d[key] === doc[key])) {
+        throw new DuplicateKeyError(this.name, key);
+      }
+    }
+  }
+
+  private insert(doc: Doc): Doc {
+    const stored = clone(doc);
+    stored._id ??= `${this.name}:${this.nextId++}`;
+    this.assertUnique(stored);
+    this.docs.push(stored);
+    return stored;
+  }
+
+  // Applies `update` to `doc`, undoing it if it breaks a unique index
+  private modify(doc: Doc, update: Doc): boolean {
+    const { $setOnInsert: _, ...rest } = update;
+    if (Object.keys(rest).length === 0) return false;
+    const before = clone(doc);
+    const changed = applyOperators(doc, rest);
+    try {
+      this.assertUnique(doc);
+    } catch (error) {
+      Object.keys(doc).forEach((k) => delete doc[k]);
+      Object.assign(doc, before);
+      throw error;
+    }
+    return changed;
+  }
+
+  private upsert(filter: Doc, update: Doc): Doc {
+    const seed: Doc = {};
+    for (const [key, value] of Object.entries(filter)) {
+      if (!key.startsWith('$') && (typeof value !== 'object' || value === null)) seed[key] = value;
+    }
+    const { $setOnInsert, ...rest } = update;
+    const doc = { ...seed, ...($setOnInsert ?? {}) };
+    applyOperators(doc, rest);
+    return this.insert(doc);
+  }
+
+  find(filter: Doc = {}, options: FindOptions = {}) {
+    return new MemoryCursor(() => this.matching(filter), options);
+  }
+
+  async findOne(filter: Doc = {}, options: FindOptions = {}) {
+    const [doc] = await this.find(filter, { ...options, limit: 1 }).toArray();
+    return doc ?? null;
+  }
+
+  async countDocuments(filter: Doc = {}, options?: SessionOptions) {
+    return onSession(options, () => this.matching(filter).length);
+  }
+
+  async distinct(field: string, filter: Doc = {}, options?: SessionOptions) {
+    return onSession(options, () => {
+      const values = this.matching(filter).flatMap((d) => {
+        const v = d[field];
+        return Array.isArray(v) ? v : [v];
+      });
+      return [...new Set(values.filter((v) => v !== undefined))];
+    });
+  }
+
+  async insertOne(doc: Doc) {
+    const stored = this.insert(doc);
+    doc._id ??= stored._id;
+    return { acknowledged: true, insertedId: stored._id };
+  }
+
+  async insertMany(docs: Doc[], options?: SessionOptions) {
+    return onSession(options, async () => {
+      for (const doc of docs) await this.insertOne(doc);
+      return { acknowledged: true, insertedCount: docs.length };
+    });
+  }
+
+  async updateOne(filter: Doc, update: Doc, options: SessionOptions & { upsert?: boolean } = {}) {
+    return onSession(options, () => this.updateFirst(filter, update, options));
+  }
+
+  private updateFirst(filter: Doc, update: Doc, options: { upsert?: boolean }) {
+    const [doc] = this.matching(filter);
+    if (!doc) {
+      if (!options.upsert) return { matchedCount: 0, modifiedCount: 0, upsertedCount: 0 };
+      const stored = this.upsert(filter, update);
+      return { matchedCount: 0, modifiedCount: 0, upsertedCount: 1, upsertedId: stored._id };
+    }
+    const modified = this.modify(doc, update);
+    return { matchedCount: 1, modifiedCount: modified ? 1 : 0, upsertedCount: 0 };
+  }
+
+  async updateMany(filter: Doc, update: Doc) {
+    const docs = this.matching(filter);
+    let modifiedCount = 0;
+    for (const doc of docs) if (this.modify(doc, update)) modifiedCount++;
+    return { matchedCount: docs.length, modifiedCount, upsertedCount: 0 };
+  }
+
+  async replaceOne(filter: Doc, replacement: Doc, options: { upsert?: boolean } = {}) {
+    const [doc] = this.matching(filter);
+    if (!doc) {
+      if (options.upsert) this.insert(replacement);
+      return { matchedCount: 0, modifiedCount: 0, upsertedCount: options.upsert ? 1 : 0 };
+    }
+    const { _id } = doc;
+    Object.keys(doc).forEach((k) => delete doc[k]);
+    Object.assign(doc, clone(replacement), { _id });
+    return { matchedCount: 1, modifiedCount: 1, upsertedCount: 0 };
+  }
+
+  async findOneAndUpdate(
+    filter: Doc,
+    update: Doc,
+    options: FindOptions & { upsert?: boolean; returnDocument?: 'before' | 'after' } = {},
+  ) {
+    const [doc] = sortDocs(this.matching(filter), options.sort);
+    if (!doc) {
+      if (!options.upsert) return null;
+      const stored = this.upsert(filter, update);
+      return options.returnDocument === 'after' ? project(clone(stored), options.projection) : null;
+    }
+    const before = clone(doc);
+    this.modify(doc, update);
+    return project(clone(options.returnDocument === 'after' ? doc : before), options.projection);
+  }
+
+  async deleteOne(filter: Doc) {
+    const [doc] = this.matching(filter);
+    if (doc) this.docs.splice(this.docs.indexOf(doc), 1);
+    return { deletedCount: doc ? 1 : 0 };
+  }
+
+  async deleteMany(filter: Doc, options?: SessionOptions) {
+    return onSession(options, () => {
+      const doomed = new Set(this.matching(filter));
+      this.docs = this.docs.filter((d) => !doomed.has(d));
+      return { deletedCount: doomed.size };
+    });
+  }
+
+  aggregate(pipeline: Doc[]) {
+    return { toArray: async () => clone(new Aggregator(pipeline).run(this.docs) as Doc[]) };
+  }
+
+  async createIndex() {
+    return 'ok';
+  }
+}
+
+// Unique indexes from ensureIndexes that the tests rely on
+const UNIQUE_KEYS: Record<string, string[]> = {
+  burnt_nfts: ['mint', 'upgradeClaimSlot'],
+  upgrade_claims: ['targetMint'],
+  commit_guards: ['key'],
+};
+
+class MemoryDb {
+  private collections = new Map<string, MemoryCollection>();
+  // Runs at the start of every withTransaction body — lets a test commit a
+  // "concurrent" write between a caller's pre-checks and its transaction
+  beforeTransaction?: () => Promise<void>;
+
+  collection(name: string): MemoryCollection {
+    if (!this.collections.has(name)) {
+      this.collections.set(name, new MemoryCollection(name, UNIQUE_KEYS[name]));
+    }
+    return this.collections.get(name)!;
+  }
+
+  reset() {
+    this.collections.clear();
+    this.beforeTransaction = undefined;
+  }
+}
+
+export const memoryDb = new MemoryDb();
+
+const getter = (name: string) => async () => memoryDb.collection(name);
+
+/** Drop-in replacement for the '@/lib/mongodb' module. */
+export const mongodbModule = {
+  getDb: async () => memoryDb,
+  withTransaction: async <T>(fn: (session: unknown) => Promise<T>): Promise<T> => {
+    await memoryDb.beforeTransaction?.();
+    return fn(new MemorySession());
+  },
+  getBurntNFTsCollection: getter('burnt_nfts'),
+  getRateLimitCollection: getter('rate_limits'),
+  getAuthNoncesCollection: getter('auth_nonces'),
+  getAuthSessionsCollection: getter('auth_sessions'),
+  getRecipesCollection: getter('upgrade_recipes'),
+  getCampaignsCollection: getter('campaigns'),
+  getReconciliationFindingsCollection: getter('reconciliation_findings'),
+  getPendingBurnsCollection: getter('pending_burns'),
+  getIdempotencyCollection: getter('idempotency_keys'),
+  getUpgradeClaimsCollection: getter('upgrade_claims'),
+  getCommitGuardsCollection: getter('commit_guards'),
+  getInventoryCacheCollection: getter('inventory_cache'),
+  getWebhookEndpointsCollection: getter('webhook_endpoints'),
+  getWebhookDeliveriesCollection: getter('webhook_deliveries'),
+  getLeaderboardProfilesCollection: getter('leaderboard_profiles'),
+};
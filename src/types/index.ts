@@ -1,3 +1,18 @@
+import type { z } from 'zod';
+import type {
+  authNonceRequestSchema,
+  authSessionRequestSchema,
+  burnBatchRequestSchema,
+  burnEntrySchema,
+  chainEventSchema,
+  findingUpdateSchema,
+  leaderboardProfileSchema,
+  upgradeStatusSchema,
+  upgradeStatusUpdateSchema,
+  webhookEndpointSchema,
+  webhookEventTypeSchema,
+} from '@/lib/schemas';
+
 // NFT Type
 export interface NFT {
   mint: string;
@@ -17,26 +32,530 @@ export interface BurntNFT {
   // Upgrade target linked to this burn
   upgradeTargetMint?: string;
   upgradeTargetName?: string;
+  // Fulfilment lifecycle — only set when an upgrade target is linked
+  upgradeStatus?: UpgradeStatus;
+  upgradeStatusUpdatedAt?: string;
+  upgradeOperator?: string;
+  upgradeNote?: string;
+  upgradeHistory?: UpgradeStatusChange[];
+  // Written by the upgrade worker while applying the upgrade on-chain
+  upgradePlan?: UpgradePlan;
+  upgradeSignature?: string;
+  upgradeSentAt?: string;
+  upgradeLeaseUntil?: string;
+  // `<upgradeTargetMint>#<n>` — unique, so a target takes at most one recipe's worth of burns
+  upgradeClaimSlot?: string;
+  recipeId?: string;
+  campaignId?: string;
+  // How the record was created — absent means the burn-and-upgrade API.
+  // `webhook` records are replaced when the wallet records the burn itself.
+  source?: 'backfill' | 'webhook';
+  // Set once reconciliation has confirmed the burn signature on-chain
+  reconciledAt?: string;
+}
+
+// ── Reconciliation ──
+export type ReconciliationKind = 'missing_in_db' | 'not_burnt' | 'signature_mismatch';
+export type ReconciliationStatus = 'open' | 'resolved' | 'backfilled' | 'ignored';
+
+export interface ReconciliationFinding {
+  // `<kind>:<mint>` — one finding per problem, refreshed on every run
+  id: string;
+  kind: ReconciliationKind;
+  mint: string;
+  name?: string;
+  owner?: string;
+  // Signature stored in burnt_nfts (signature_mismatch / not_burnt)
+  recordedSignature?: string;
+  // The transaction that actually burned the asset, found on-chain
+  burnSignature?: string;
+  burntAt?: string;
+  status: ReconciliationStatus;
+  note?: string;
+  operator?: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  resolvedAt?: string;
+}
+
+// ── Upgrade fulfilment ──
+export type UpgradeStatus = z.infer<typeof upgradeStatusSchema>;
+
+export interface UpgradeStatusChange {
+  from: UpgradeStatus;
+  to: UpgradeStatus;
+  at: string;
+  operator: string;
+  note?: string;
+}
+
+// The concrete on-chain change chosen for an upgrade target. Persisted before
+// sending so a rerun re-applies the same change instead of bumping again.
+export type UpgradePlan =
+  | { kind: 'attribute'; key: string; value: string }
+  | { kind: 'uri'; uri: string };
+
+export type UpgradeStatusUpdateRequest = z.infer<typeof upgradeStatusUpdateSchema>;
+
+// PATCH /api/admin/reconciliation/findings/<id>
+export type FindingUpdateRequest = z.infer<typeof findingUpdateSchema>;
+
+// ── Burn campaigns ──
+// A window in which burns are accepted, stored in the `campaigns` collection
+export interface Campaign {
+  id: string;
+  name: string;
+  opensAt: string;
+  closesAt: string;
+  // Campaign-wide caps (unset = unlimited)
+  maxBurns?: number;
+  maxUpgrades?: number;
+  // Per-wallet caps within the campaign
+  perWalletBurnLimit?: number;
+  perWalletUpgradeLimit?: number;
+}
+
+// ── Upgrade rules ──
+// Matches when the NFT's `trait_type` attribute is one of `values`
+export interface TraitCondition {
+  trait_type: string;
+  values: string[];
+}
+
+// Server-authoritative recipe, stored in the `upgrade_recipes` collection
+export interface BurnRecipe {
+  id: string;
+  name: string;
+  // e.g. 3 → "burn 3, upgrade 1"
+  burnsPerUpgrade: number;
+  // Every condition must match (empty = any NFT in the collection)
+  burnEligibility?: TraitCondition[];
+  targetEligibility?: TraitCondition[];
+  // Upgrades one wallet may claim within the recipe's season
+  maxUpgradesPerWallet?: number;
+  // Season window (ISO timestamps, either end optional)
+  startsAt?: string;
+  endsAt?: string;
+  active: boolean;
+}
+
+export type RuleViolationCode =
+  | 'outside_season'
+  | 'unpaired_burn'
+  | 'wrong_group_size'
+  | 'burn_not_eligible'
+  | 'target_not_eligible'
+  | 'wallet_cap_exceeded';
+
+export interface RuleViolation {
+  code: RuleViolationCode;
+  message: string;
+  mint?: string;
+}
+
+export interface UpgradeRulesResponse extends ApiEnvelope {
+  recipe?: BurnRecipe;
+  // Upgrades this wallet already claimed under the recipe (signed-in only)
+  upgradesUsed?: number;
+  // The open campaign, or null when burns are not being accepted
+  campaign?: Campaign | null;
+}
+
+// ── API envelope ──
+// Every route answers `{ success: true, ... }` or an ApiFailure. Branch on
+// `code`; `error` is an English message meant for logs and fallbacks.
+export type ApiErrorCode =
+  // Request gate
+  | 'forbidden'
+  | 'rate_limited'
+  | 'unauthorized'
+  | 'sign_in_required'
+  | 'signature_invalid'
+  | 'wallet_mismatch'
+  | 'unsupported_media_type'
+  | 'payload_too_large'
+  | 'invalid_json'
+  | 'invalid_request'
+  | 'invalid_wallet'
+  // Idempotency-Key handling
+  | 'invalid_idempotency_key'
+  | 'idempotency_key_reused'
+  | 'idempotency_in_progress'
+  // Burn recording — per-burn codes are in `results` (BurnRecordErrorCode)
+  | 'campaign_closed'
+  | 'partially_recorded'
+  | 'burns_rejected'
+  // Admin resources
+  | 'not_found'
+  | 'already_exists'
+  | 'invalid_transition'
+  // Server
+  | 'not_configured'
+  | 'internal_error'
+  // Client-side only (src/lib/apiClient.ts)
+  | 'network_error'
+  | 'invalid_response';
+
+// A field that failed request validation, e.g. `burns.2.mintAddress`
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Fields shared by every route's response type
+export interface ApiEnvelope {
+  success: boolean;
+  code?: ApiErrorCode;
+  error?: string;
+  // Set with `invalid_request` when the body or query failed its schema
+  issues?: ValidationIssue[];
+}
+
+export interface ApiFailure extends ApiEnvelope {
+  success: false;
+  code: ApiErrorCode;
+  error: string;
+}
+
+// ── Chain-event webhook ──
+// One Helius enhanced transaction, inferred from src/lib/schemas.ts
+export type ChainEvent = z.infer<typeof chainEventSchema>;
+
+export interface ChainEventsResponse extends ApiEnvelope {
+  transactions?: number;
+  burns?: number;
+  recorded?: number;
+}
+
+export interface LockedMintsResponse extends ApiEnvelope {
+  lockedMints?: string[];
+}
+
+// GET /api/inventory — the wallet's NFTs in the collection, plus those locked
+// as upgrade targets (same as /api/locked-mints)
+export interface InventoryResponse extends ApiEnvelope {
+  nfts?: NFT[];
+  lockedMints?: string[];
+  page?: number;
+  hasMore?: boolean;
+  cachedAt?: string;
+}
+
+// ── Wallet burn history ──
+// GET /api/history — the wallet's records grouped by burn transaction
+export interface BurnHistoryTarget {
+  mint: string;
+  // Read from DAS, so after an upgrade these show the upgraded NFT
+  name: string;
+  image: string;
+  upgradeStatus: UpgradeStatus;
+  upgradeStatusUpdatedAt?: string;
+  // Set once the upgrade worker has applied it on-chain
+  upgradeSignature?: string;
+}
+
+export interface BurnHistoryGroup {
+  transactionSignature: string;
+  burntAt: string;
+  burns: Array<Pick<BurntNFT, 'mint' | 'name' | 'upgradeTargetMint' | 'campaignId' | 'source'>>;
+  targets: BurnHistoryTarget[];
+}
+
+export interface HistoryResponse extends ApiEnvelope {
+  groups?: BurnHistoryGroup[];
+  // Transactions in total, for paging
+  total?: number;
 }
 
 // ── Batch burn + upgrade API ──
-export interface BurnBatchRequest {
+// Inferred from the request schemas in src/lib/schemas.ts
+export type BurnEntry = z.infer<typeof burnEntrySchema>;
+// As the server accepts it — `burns` entries are checked one by one
+export type BurnBatchBody = z.infer<typeof burnBatchRequestSchema>;
+// As clients send it
+export type BurnBatchRequest = Omit<BurnBatchBody, 'burns'> & { burns: BurnEntry[] };
+
+// Per-burn outcome. `already_recorded` means recorded earlier by the same
+// wallet and transaction (a replay); `conflict` means another record or a
+// claimed target blocks it; `rejected` burns failed validation. Both carry a
+// machine-readable `code`.
+export type BurnRecordStatus = 'recorded' | 'already_recorded' | 'conflict' | 'rejected';
+
+export type BurnRecordErrorCode =
+  | RuleViolationCode
+  | 'invalid_entry'
+  | 'invalid_mint'
+  | 'duplicate_in_batch'
+  | 'invalid_pairing'
+  | 'recorded_by_other_wallet'
+  | 'recorded_with_other_transaction'
+  | 'recorded_concurrently'
+  | 'target_claimed'
+  | 'tx_not_found'
+  | 'tx_failed'
+  | 'not_signed_by_wallet'
+  | 'not_burned_in_tx'
+  | 'wrong_collection'
+  | 'wrong_authority'
+  | 'not_owner'
+  | 'incomplete_group'
+  | 'campaign_closed'
+  | 'campaign_limit';
+
+export interface BurnRecordResult {
+  mint: string;
+  status: BurnRecordStatus;
+  code?: BurnRecordErrorCode;
+  error?: string;
+  // The stored `burntAt`, for `recorded` and `already_recorded`
+  burntAt?: string;
+}
+
+export interface BurnBatchResponse extends ApiEnvelope {
+  message?: string;
+  recorded?: number;
+  results?: BurnRecordResult[];
+  violations?: RuleViolation[];
+}
+
+// Stored response for an `Idempotency-Key`, replayed on retries (TTL)
+export interface IdempotencyRecord {
+  key: string;
   walletAddress: string;
+  requestHash: string;
+  state: 'processing' | 'completed';
+  status?: number;
+  response?: BurnBatchResponse;
+  lockedUntil: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+// One page of a wallet's inventory as last read from DAS (`inventory_cache`,
+// one per wallet and page). TTL on `expiresAt`; dropped early when the wallet
+// records a burn.
+export interface InventoryCacheEntry {
+  walletAddress: string;
+  nfts: NFT[];
+  lockedMints: string[];
+  page: number;
+  hasMore: boolean;
+  cachedAt: string;
+  expiresAt: Date;
+}
+
+// One request counted against a rate-limit policy (`rate_limits`). `key` is
+// `<policy id>:<ip or wallet>`; TTL removes the hit once its window has passed.
+export interface RateLimitHit {
+  key: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+// A target locked by one recorded burn batch (`upgrade_claims`, unique per
+// target). Written in the same transaction as the batch's burnt_nfts records.
+export interface UpgradeClaim {
+  targetMint: string;
+  targetName: string;
+  walletAddress: string;
+  burnMints: string[];
+  transactionSignatures: string[];
+  recipeId?: string;
+  campaignId?: string;
+  claimedAt: string;
+  // How the claim was created — absent means the burn-and-upgrade API
+  source?: 'backfill';
+}
+
+// Written by every burn commit in a scope (`wallet:<address>`,
+// `campaign:<id>`), inside its transaction — two commits counting against
+// the same cap write-conflict, and the retry recounts with the other's
+// records visible.
+export interface CommitGuard {
+  key: string;
+  version: number;
+  updatedAt: string;
+}
+
+// ── Pending-burn journal ──
+// A burn batch whose signatures are known but which may not be recorded yet.
+// The client keeps the same entry in IndexedDB until recording succeeds.
+export interface JournalEntry {
+  id: string;
+  walletAddress: string;
+  request: BurnBatchRequest;
+  createdAt: string;
+  // Set once POST /api/pending-burns has accepted the entry
+  intakeAt?: string;
+  lastError?: string;
+}
+
+// `partial`: the valid subset was recorded, the rest was rejected (see lastError)
+export type PendingBurnStatus = 'pending' | 'recorded' | 'partial' | 'rejected';
+
+// Server-side copy in `pending_burns`, swept until it is settled
+export interface PendingBurn {
+  id: string;
+  walletAddress: string;
+  request: BurnBatchBody;
+  status: PendingBurnStatus;
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+  leaseUntil?: string;
+}
+
+// ── Wallet sign-in ──
+// One-time challenge issued by /api/auth/nonce (stored in MongoDB)
+export interface AuthNonce {
+  nonce: string;
+  walletAddress: string;
+  message: string;
+  expiresAt: Date;
+}
+
+// Session issued after a verified signature; the cookie holds the raw token
+export interface AuthSession {
+  tokenHash: string;
+  walletAddress: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export type AuthNonceRequest = z.infer<typeof authNonceRequestSchema>;
+export type AuthSessionRequest = z.infer<typeof authSessionRequestSchema>;
+
+export interface AuthNonceResponse extends ApiEnvelope {
+  nonce?: string;
+  message?: string;
+}
+
+export interface AuthSessionResponse extends ApiEnvelope {
+  walletAddress?: string;
+  expiresAt?: string;
+}
+
+// ── Outbound webhooks ──
+export type WebhookEventType = z.infer<typeof webhookEventTypeSchema>;
+
+// A subscriber configured through /api/admin/webhooks (`webhook_endpoints`).
+// `http` endpoints get a signed JSON body; `discord` ones a chat message.
+export interface WebhookEndpoint {
+  id: string;
+  name: string;
+  url: string;
+  kind: 'http' | 'discord';
+  events: WebhookEventType[];
+  active: boolean;
+  // HMAC key for `http` endpoints — shown once, when created or rotated
+  secret?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface BurnRecordedEventData {
+  walletAddress: string;
+  campaignId?: string;
+  recipeId?: string;
+  source?: BurntNFT['source'];
   burns: Array<{
-    mintAddress: string;
-    transactionSignature: string;
+    mint: string;
     name: string;
-  }>;
-  upgrades: Array<{
-    burnedMint: string;
-    upgradeMint: string;
-    upgradeName: string;
+    transactionSignature: string;
+    upgradeTargetMint?: string;
   }>;
 }
 
-export interface BurnBatchResponse {
-  success: boolean;
-  message?: string;
-  error?: string;
-  recorded?: number;
+export interface UpgradeAppliedEventData {
+  targetMint: string;
+  operator: string;
+  note?: string;
+  records: number;
+}
+
+export interface ReconciliationMismatchEventData {
+  findings: Array<Pick<ReconciliationFinding, 'id' | 'kind' | 'mint' | 'name' | 'owner'>>;
+}
+
+export interface WebhookEventData {
+  'burn.recorded': BurnRecordedEventData;
+  'upgrade.applied': UpgradeAppliedEventData;
+  'reconciliation.mismatch': ReconciliationMismatchEventData;
+}
+
+// The JSON body sent to `http` endpoints
+export interface WebhookPayload<E extends WebhookEventType = WebhookEventType> {
+  id: string;
+  event: E;
+  createdAt: string;
+  data: WebhookEventData[E];
+}
+
+// One event for one endpoint (`webhook_deliveries`), retried with backoff
+// until it is delivered or runs out of attempts. Removed by TTL after 30 days.
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  event: WebhookEventType;
+  payload: WebhookPayload;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  // Also the lease while an attempt is in flight
+  nextAttemptAt: string;
+  responseStatus?: number;
+  lastError?: string;
+  createdAt: string;
+  deliveredAt?: string;
+  expiresAt: Date;
+}
+
+export type WebhookEndpointRequest = z.infer<typeof webhookEndpointSchema>;
+
+// ── Public stats & leaderboard ──
+// What a wallet has agreed to show (`leaderboard_profiles`). Wallets without
+// one, or with `visible: false`, only count towards the collection totals.
+export interface LeaderboardProfile {
+  walletAddress: string;
+  visible: boolean;
+  displayName?: string;
+  showAddress: boolean;
+  updatedAt: string;
+}
+
+export type LeaderboardProfileRequest = z.infer<typeof leaderboardProfileSchema>;
+
+export interface CollectionStats {
+  totalBurned: number;
+  // Upgrade targets whose upgrade has been applied
+  totalUpgrades: number;
+  burners: number;
+  // Oldest first, one entry per UTC day including days without burns
+  burnsPerDay: Array<{ date: string; burns: number }>;
+  // Attribute values most often reached by applied upgrades
+  topTraits: Array<{ trait_type: string; value: string; upgrades: number }>;
+  generatedAt: string;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  // Only what the wallet's profile allows
+  walletAddress?: string;
+  displayName?: string;
+  burns: number;
+  upgrades: number;
+}
+
+export interface StatsResponse extends ApiEnvelope {
+  stats?: CollectionStats;
+}
+
+export interface LeaderboardResponse extends ApiEnvelope {
+  entries?: LeaderboardEntry[];
+  generatedAt?: string;
+}
+
+export interface LeaderboardProfileResponse extends ApiEnvelope {
+  // null until the wallet has saved a choice
+  profile?: LeaderboardProfile | null;
 }
@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname, "src") },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+    // Imported by modules under test, never used — the tests mock what they need
+    env: {
+      MONGODB_URI: "mongodb://127.0.0.1:1",
+      NEXT_PUBLIC_COLLECTION_ADDRESS: "AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9",
+    },
+  },
+});